@@ -32,7 +32,7 @@ export default [
       parserOptions: {
         ecmaVersion: 'latest',
         sourceType: 'module',
-        project: './tsconfig.json',
+        project: ['./tsconfig.json', './test/tsconfig.json'],
       },
     },
     rules: {
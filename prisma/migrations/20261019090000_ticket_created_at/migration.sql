@@ -0,0 +1,20 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Ticket" (
+    "ticketId" TEXT NOT NULL PRIMARY KEY,
+    "licensePlateNumber" TEXT,
+    "licensePlateState" TEXT,
+    "lat" REAL,
+    "lng" REAL,
+    "streetLocation" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+-- Existing rows were saved within minutes of issue; the portal timestamp is the best available stand-in.
+INSERT INTO "new_Ticket" ("lat", "licensePlateNumber", "licensePlateState", "lng", "streetLocation", "ticketId", "timestamp", "createdAt") SELECT "lat", "licensePlateNumber", "licensePlateState", "lng", "streetLocation", "ticketId", "timestamp", "timestamp" FROM "Ticket";
+DROP TABLE "Ticket";
+ALTER TABLE "new_Ticket" RENAME TO "Ticket";
+CREATE INDEX "Ticket_createdAt_idx" ON "Ticket"("createdAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
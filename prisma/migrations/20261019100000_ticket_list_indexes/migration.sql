@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "Ticket_timestamp_ticketId_idx" ON "Ticket"("timestamp", "ticketId");
+
+-- CreateIndex
+CREATE INDEX "Ticket_streetLocation_timestamp_idx" ON "Ticket"("streetLocation", "timestamp");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Ticket_lat_lng_idx" ON "Ticket"("lat", "lng");
@@ -0,0 +1,22 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_FcmEnrollment" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "streetLocation" TEXT,
+    "lat" REAL,
+    "lng" REAL,
+    "radiusM" INTEGER,
+    "label" TEXT,
+    "fcmToken" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "FcmEnrollment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_FcmEnrollment" ("createdAt", "fcmToken", "id", "streetLocation", "userId") SELECT "createdAt", "fcmToken", "id", "streetLocation", "userId" FROM "FcmEnrollment";
+DROP TABLE "FcmEnrollment";
+ALTER TABLE "new_FcmEnrollment" RENAME TO "FcmEnrollment";
+CREATE UNIQUE INDEX "FcmEnrollment_userId_streetLocation_fcmToken_key" ON "FcmEnrollment"("userId", "streetLocation", "fcmToken");
+CREATE INDEX "FcmEnrollment_lat_lng_idx" ON "FcmEnrollment"("lat", "lng");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
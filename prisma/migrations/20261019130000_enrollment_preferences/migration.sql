@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "FcmEnrollment" ADD COLUMN "cooldownMinutes" INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE "FcmEnrollment" ADD COLUMN "lastNotifiedAt" DATETIME;
+ALTER TABLE "FcmEnrollment" ADD COLUMN "timeZone" TEXT;
+ALTER TABLE "FcmEnrollment" ADD COLUMN "activeWeekdays" JSONB;
+ALTER TABLE "FcmEnrollment" ADD COLUMN "activeStartHour" INTEGER;
+ALTER TABLE "FcmEnrollment" ADD COLUMN "activeEndHour" INTEGER;
+ALTER TABLE "FcmEnrollment" ADD COLUMN "expiresAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "FcmEnrollment_expiresAt_idx" ON "FcmEnrollment"("expiresAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ParkingSession" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "fcmToken" TEXT NOT NULL,
+    "streetLocation" TEXT,
+    "lat" REAL,
+    "lng" REAL,
+    "radiusM" INTEGER NOT NULL DEFAULT 300,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expectedEndAt" DATETIME NOT NULL,
+    "reminderMinutes" INTEGER NOT NULL DEFAULT 10,
+    "reminderSentAt" DATETIME,
+    "alertCount" INTEGER NOT NULL DEFAULT 0,
+    "lastAlertAt" DATETIME,
+    "endedAt" DATETIME,
+    "endReason" TEXT,
+    CONSTRAINT "ParkingSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ParkingSession_endedAt_expectedEndAt_idx" ON "ParkingSession"("endedAt", "expectedEndAt");
+
+-- CreateIndex
+CREATE INDEX "ParkingSession_userId_startedAt_idx" ON "ParkingSession"("userId", "startedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ScraperState" ADD COLUMN "paused" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ScraperProbe" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "ticketId" TEXT NOT NULL,
+    "laneBlockStartId" TEXT,
+    "kind" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "captchaAttempts" INTEGER NOT NULL DEFAULT 0,
+    "captchaSolves" INTEGER NOT NULL DEFAULT 0,
+    "detectLagMs" INTEGER,
+    "probedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "ScraperProbe_probedAt_idx" ON "ScraperProbe"("probedAt");
+
+-- CreateIndex
+CREATE INDEX "ScraperProbe_laneBlockStartId_probedAt_idx" ON "ScraperProbe"("laneBlockStartId", "probedAt");
@@ -0,0 +1,160 @@
+-- CreateTable
+CREATE TABLE "Jurisdiction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "portalUrl" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL,
+    "enforcementWeekdays" JSONB NOT NULL,
+    "enforcementStartMinute" INTEGER NOT NULL,
+    "enforcementEndMinute" INTEGER NOT NULL,
+    "geocodeCity" TEXT NOT NULL,
+    "geocodeState" TEXT NOT NULL,
+    "geocodeCountry" TEXT NOT NULL,
+    "ticketIdPattern" TEXT NOT NULL,
+    "seedTicketIds" JSONB,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- Existing rows all came from the City of Ithaca portal (the previous hard-coded defaults).
+INSERT INTO "Jurisdiction" (
+    "id", "name", "portalUrl", "timeZone", "enforcementWeekdays", "enforcementStartMinute",
+    "enforcementEndMinute", "geocodeCity", "geocodeState", "geocodeCountry", "ticketIdPattern",
+    "updatedAt"
+) VALUES (
+    'ithaca', 'City of Ithaca', 'https://www.tocite.net/cityofithaca/portal/ticket', 'America/New_York',
+    '[1,2,3,4,5]', 510, 1050, 'Ithaca', 'New York', 'USA', '^\d{12}$', CURRENT_TIMESTAMP
+);
+
+-- AlterTable
+ALTER TABLE "ScraperProbe" ADD COLUMN "jurisdictionId" TEXT NOT NULL DEFAULT 'ithaca';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Ticket" (
+    "ticketId" TEXT NOT NULL PRIMARY KEY,
+    "jurisdictionId" TEXT NOT NULL DEFAULT 'ithaca',
+    "licensePlateNumber" TEXT,
+    "licensePlateState" TEXT,
+    "lat" REAL,
+    "lng" REAL,
+    "streetLocation" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Ticket_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Ticket" ("createdAt", "lat", "licensePlateNumber", "licensePlateState", "lng", "streetLocation", "ticketId", "timestamp") SELECT "createdAt", "lat", "licensePlateNumber", "licensePlateState", "lng", "streetLocation", "ticketId", "timestamp" FROM "Ticket";
+DROP TABLE "Ticket";
+ALTER TABLE "new_Ticket" RENAME TO "Ticket";
+CREATE INDEX "Ticket_createdAt_idx" ON "Ticket"("createdAt");
+CREATE INDEX "Ticket_timestamp_ticketId_idx" ON "Ticket"("timestamp", "ticketId");
+CREATE INDEX "Ticket_streetLocation_timestamp_idx" ON "Ticket"("streetLocation", "timestamp");
+CREATE INDEX "Ticket_lat_lng_idx" ON "Ticket"("lat", "lng");
+CREATE INDEX "Ticket_jurisdictionId_timestamp_idx" ON "Ticket"("jurisdictionId", "timestamp");
+CREATE TABLE "new_StreetGeometry" (
+    "jurisdictionId" TEXT NOT NULL DEFAULT 'ithaca',
+    "streetLocation" TEXT NOT NULL,
+    "segments" JSONB NOT NULL,
+    "notFound" BOOLEAN NOT NULL DEFAULT false,
+    "fetchedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("jurisdictionId", "streetLocation"),
+    CONSTRAINT "StreetGeometry_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_StreetGeometry" ("fetchedAt", "notFound", "segments", "streetLocation", "updatedAt") SELECT "fetchedAt", "notFound", "segments", "streetLocation", "updatedAt" FROM "StreetGeometry";
+DROP TABLE "StreetGeometry";
+ALTER TABLE "new_StreetGeometry" RENAME TO "StreetGeometry";
+CREATE TABLE "new_ScraperState" (
+    "jurisdictionId" TEXT NOT NULL PRIMARY KEY,
+    "lastCheckedId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "lastDiscoveryAt" DATETIME,
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "ScraperState_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_ScraperState" ("jurisdictionId", "lastCheckedId", "lastDiscoveryAt", "paused", "status") SELECT 'ithaca', "lastCheckedId", "lastDiscoveryAt", "paused", "status" FROM "ScraperState" WHERE "id" = 1;
+DROP TABLE "ScraperState";
+ALTER TABLE "new_ScraperState" RENAME TO "ScraperState";
+CREATE TABLE "new_ScraperLane" (
+    "jurisdictionId" TEXT NOT NULL DEFAULT 'ithaca',
+    "blockStartId" TEXT NOT NULL,
+    "blockEndId" TEXT NOT NULL,
+    "nextCursorId" TEXT NOT NULL,
+    "lastFoundId" TEXT,
+    "lastFoundAt" DATETIME,
+    "missStreak" INTEGER NOT NULL DEFAULT 0,
+    "cadenceLevel" INTEGER NOT NULL DEFAULT 0,
+    "nextDueAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "retiredAt" DATETIME,
+    "retiredReason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("jurisdictionId", "blockStartId"),
+    CONSTRAINT "ScraperLane_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_ScraperLane" ("blockEndId", "blockStartId", "cadenceLevel", "createdAt", "lastFoundAt", "lastFoundId", "missStreak", "nextCursorId", "nextDueAt", "retiredAt", "retiredReason", "status", "updatedAt") SELECT "blockEndId", "blockStartId", "cadenceLevel", "createdAt", "lastFoundAt", "lastFoundId", "missStreak", "nextCursorId", "nextDueAt", "retiredAt", "retiredReason", "status", "updatedAt" FROM "ScraperLane";
+DROP TABLE "ScraperLane";
+ALTER TABLE "new_ScraperLane" RENAME TO "ScraperLane";
+CREATE INDEX "ScraperLane_status_nextDueAt_idx" ON "ScraperLane"("status", "nextDueAt");
+CREATE TABLE "new_FcmEnrollment" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "jurisdictionId" TEXT NOT NULL DEFAULT 'ithaca',
+    "streetLocation" TEXT,
+    "lat" REAL,
+    "lng" REAL,
+    "radiusM" INTEGER,
+    "label" TEXT,
+    "fcmToken" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cooldownMinutes" INTEGER NOT NULL DEFAULT 30,
+    "lastNotifiedAt" DATETIME,
+    "timeZone" TEXT,
+    "activeWeekdays" JSONB,
+    "activeStartHour" INTEGER,
+    "activeEndHour" INTEGER,
+    "expiresAt" DATETIME,
+    CONSTRAINT "FcmEnrollment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "FcmEnrollment_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_FcmEnrollment" ("activeEndHour", "activeStartHour", "activeWeekdays", "cooldownMinutes", "createdAt", "expiresAt", "fcmToken", "id", "label", "lastNotifiedAt", "lat", "lng", "radiusM", "streetLocation", "timeZone", "userId") SELECT "activeEndHour", "activeStartHour", "activeWeekdays", "cooldownMinutes", "createdAt", "expiresAt", "fcmToken", "id", "label", "lastNotifiedAt", "lat", "lng", "radiusM", "streetLocation", "timeZone", "userId" FROM "FcmEnrollment";
+DROP TABLE "FcmEnrollment";
+ALTER TABLE "new_FcmEnrollment" RENAME TO "FcmEnrollment";
+CREATE UNIQUE INDEX "FcmEnrollment_userId_jurisdictionId_streetLocation_fcmToken_key" ON "FcmEnrollment"("userId", "jurisdictionId", "streetLocation", "fcmToken");
+CREATE INDEX "FcmEnrollment_lat_lng_idx" ON "FcmEnrollment"("lat", "lng");
+CREATE INDEX "FcmEnrollment_expiresAt_idx" ON "FcmEnrollment"("expiresAt");
+CREATE TABLE "new_ParkingSession" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" INTEGER NOT NULL,
+    "fcmToken" TEXT NOT NULL,
+    "jurisdictionId" TEXT NOT NULL DEFAULT 'ithaca',
+    "streetLocation" TEXT,
+    "lat" REAL,
+    "lng" REAL,
+    "radiusM" INTEGER NOT NULL DEFAULT 300,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expectedEndAt" DATETIME NOT NULL,
+    "reminderMinutes" INTEGER NOT NULL DEFAULT 10,
+    "reminderSentAt" DATETIME,
+    "alertCount" INTEGER NOT NULL DEFAULT 0,
+    "lastAlertAt" DATETIME,
+    "endedAt" DATETIME,
+    "endReason" TEXT,
+    CONSTRAINT "ParkingSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ParkingSession_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_ParkingSession" ("alertCount", "endReason", "endedAt", "expectedEndAt", "fcmToken", "id", "lastAlertAt", "lat", "lng", "radiusM", "reminderMinutes", "reminderSentAt", "startedAt", "streetLocation", "userId") SELECT "alertCount", "endReason", "endedAt", "expectedEndAt", "fcmToken", "id", "lastAlertAt", "lat", "lng", "radiusM", "reminderMinutes", "reminderSentAt", "startedAt", "streetLocation", "userId" FROM "ParkingSession";
+DROP TABLE "ParkingSession";
+ALTER TABLE "new_ParkingSession" RENAME TO "ParkingSession";
+CREATE INDEX "ParkingSession_endedAt_expectedEndAt_idx" ON "ParkingSession"("endedAt", "expectedEndAt");
+CREATE INDEX "ParkingSession_userId_startedAt_idx" ON "ParkingSession"("userId", "startedAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ScraperProbe_jurisdictionId_probedAt_idx" ON "ScraperProbe"("jurisdictionId", "probedAt");
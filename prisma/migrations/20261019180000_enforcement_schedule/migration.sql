@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "EnforcementWindow" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "jurisdictionId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startMinute" INTEGER NOT NULL,
+    "endMinute" INTEGER NOT NULL,
+    CONSTRAINT "EnforcementWindow_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "EnforcementException" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "jurisdictionId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startMinute" INTEGER,
+    "endMinute" INTEGER,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EnforcementException_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Each jurisdiction's single weekday/hours setting becomes one window per weekday.
+INSERT INTO "EnforcementWindow" ("jurisdictionId", "weekday", "startMinute", "endMinute")
+SELECT j."id", CAST(w."value" AS INTEGER), j."enforcementStartMinute", j."enforcementEndMinute"
+FROM "Jurisdiction" j, json_each(j."enforcementWeekdays") w;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Jurisdiction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "portalUrl" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL,
+    "geocodeCity" TEXT NOT NULL,
+    "geocodeState" TEXT NOT NULL,
+    "geocodeCountry" TEXT NOT NULL,
+    "ticketIdPattern" TEXT NOT NULL,
+    "seedTicketIds" JSONB,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_Jurisdiction" ("createdAt", "enabled", "geocodeCity", "geocodeCountry", "geocodeState", "id", "name", "portalUrl", "seedTicketIds", "ticketIdPattern", "timeZone", "updatedAt") SELECT "createdAt", "enabled", "geocodeCity", "geocodeCountry", "geocodeState", "id", "name", "portalUrl", "seedTicketIds", "ticketIdPattern", "timeZone", "updatedAt" FROM "Jurisdiction";
+DROP TABLE "Jurisdiction";
+ALTER TABLE "new_Jurisdiction" RENAME TO "Jurisdiction";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "EnforcementWindow_jurisdictionId_weekday_idx" ON "EnforcementWindow"("jurisdictionId", "weekday");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EnforcementException_jurisdictionId_date_key" ON "EnforcementException"("jurisdictionId", "date");
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "Street" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "jurisdictionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Street_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "StreetAlias" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "jurisdictionId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "streetId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "StreetAlias_streetId_fkey" FOREIGN KEY ("streetId") REFERENCES "Street" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Ticket" (
+    "ticketId" TEXT NOT NULL PRIMARY KEY,
+    "jurisdictionId" TEXT NOT NULL DEFAULT 'ithaca',
+    "licensePlateNumber" TEXT,
+    "licensePlateState" TEXT,
+    "lat" REAL,
+    "lng" REAL,
+    "streetLocation" TEXT,
+    "rawLocation" TEXT,
+    "streetId" INTEGER,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Ticket_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Ticket_streetId_fkey" FOREIGN KEY ("streetId") REFERENCES "Street" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- Existing locations are raw portal text; the street backfill normalizes them on next startup.
+INSERT INTO "new_Ticket" ("createdAt", "jurisdictionId", "lat", "licensePlateNumber", "licensePlateState", "lng", "rawLocation", "streetLocation", "ticketId", "timestamp") SELECT "createdAt", "jurisdictionId", "lat", "licensePlateNumber", "licensePlateState", "lng", "streetLocation", "streetLocation", "ticketId", "timestamp" FROM "Ticket";
+DROP TABLE "Ticket";
+ALTER TABLE "new_Ticket" RENAME TO "Ticket";
+CREATE INDEX "Ticket_createdAt_idx" ON "Ticket"("createdAt");
+CREATE INDEX "Ticket_timestamp_ticketId_idx" ON "Ticket"("timestamp", "ticketId");
+CREATE INDEX "Ticket_streetLocation_timestamp_idx" ON "Ticket"("streetLocation", "timestamp");
+CREATE INDEX "Ticket_lat_lng_idx" ON "Ticket"("lat", "lng");
+CREATE INDEX "Ticket_jurisdictionId_timestamp_idx" ON "Ticket"("jurisdictionId", "timestamp");
+CREATE INDEX "Ticket_streetId_timestamp_idx" ON "Ticket"("streetId", "timestamp");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Street_jurisdictionId_name_key" ON "Street"("jurisdictionId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StreetAlias_jurisdictionId_alias_key" ON "StreetAlias"("jurisdictionId", "alias");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "houseNumber" INTEGER;
+ALTER TABLE "Ticket" ADD COLUMN "blockNumber" INTEGER;
+ALTER TABLE "Ticket" ADD COLUMN "crossStreet" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Ticket_streetId_blockNumber_idx" ON "Ticket"("streetId", "blockNumber");
+
+-- Unlink existing tickets so the startup street backfill re-parses them (re-linking is idempotent).
+UPDATE "Ticket" SET "streetId" = NULL WHERE "rawLocation" IS NOT NULL;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "locationSource" TEXT;
+ALTER TABLE "Ticket" ADD COLUMN "locationConfidence" REAL;
+
+-- Existing coordinates all came from OCR.
+UPDATE "Ticket" SET "locationSource" = 'ocr', "locationConfidence" = 1 WHERE "lat" IS NOT NULL AND "lng" IS NOT NULL;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Jurisdiction" ADD COLUMN "minLat" REAL;
+ALTER TABLE "Jurisdiction" ADD COLUMN "maxLat" REAL;
+ALTER TABLE "Jurisdiction" ADD COLUMN "minLng" REAL;
+ALTER TABLE "Jurisdiction" ADD COLUMN "maxLng" REAL;
+
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "ocrLat" REAL;
+ALTER TABLE "Ticket" ADD COLUMN "ocrLng" REAL;
+ALTER TABLE "Ticket" ADD COLUMN "ocrConfidence" REAL;
+ALTER TABLE "Ticket" ADD COLUMN "ocrStatus" TEXT;
+
+-- City of Ithaca plus a margin for the Cornell / Collegetown edges.
+UPDATE "Jurisdiction" SET "minLat" = 42.39, "maxLat" = 42.49, "minLng" = -76.56, "maxLng" = -76.44 WHERE "id" = 'ithaca';
+
+-- Earlier OCR readings were stored without any check.
+UPDATE "Ticket" SET "ocrLat" = "lat", "ocrLng" = "lng", "ocrStatus" = 'unverified' WHERE "locationSource" = 'ocr';
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TicketPhoto" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "ticketId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "byteSize" INTEGER NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "storageKey" TEXT NOT NULL,
+    "thumbnailKey" TEXT,
+    "sourceUrl" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TicketPhoto_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket" ("ticketId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TicketPhoto_ticketId_position_key" ON "TicketPhoto"("ticketId", "position");
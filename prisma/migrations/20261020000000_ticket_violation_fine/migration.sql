@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "violationCode" TEXT;
+ALTER TABLE "Ticket" ADD COLUMN "violationDescription" TEXT;
+ALTER TABLE "Ticket" ADD COLUMN "fineCents" INTEGER;
+ALTER TABLE "Ticket" ADD COLUMN "dueDate" TEXT;
+ALTER TABLE "Ticket" ADD COLUMN "paymentStatus" TEXT;
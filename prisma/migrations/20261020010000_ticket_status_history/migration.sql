@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Ticket" ADD COLUMN "statusCheckedAt" DATETIME;
+ALTER TABLE "Ticket" ADD COLUMN "nextStatusCheckAt" DATETIME;
+ALTER TABLE "Ticket" ADD COLUMN "statusCheckCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Ticket" ADD COLUMN "resolvedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "TicketStatusChange" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "ticketId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "observedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TicketStatusChange_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "Ticket" ("ticketId") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TicketStatusChange_ticketId_observedAt_idx" ON "TicketStatusChange"("ticketId", "observedAt");
+
+-- CreateIndex
+CREATE INDEX "Ticket_jurisdictionId_nextStatusCheckAt_idx" ON "Ticket"("jurisdictionId", "nextStatusCheckAt");
+
+-- Existing tickets are due for a first re-check; the job skips those past the re-check horizon.
+UPDATE "Ticket" SET "nextStatusCheckAt" = "timestamp";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "FcmEnrollment" ADD COLUMN "approachAlerts" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "FcmEnrollment" ADD COLUMN "approachCooldownMinutes" INTEGER NOT NULL DEFAULT 60;
+ALTER TABLE "FcmEnrollment" ADD COLUMN "lastApproachNotifiedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN "kind" TEXT NOT NULL DEFAULT 'ticket';
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "StreetGeometry" ADD COLUMN "lengthMeters" REAL;
+
+-- CreateTable
+CREATE TABLE "StreetAdjacency" (
+    "jurisdictionId" TEXT NOT NULL DEFAULT 'ithaca',
+    "streetLocation" TEXT NOT NULL,
+    "neighborLocation" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sharedNodeCount" INTEGER NOT NULL,
+    "gapMeters" REAL NOT NULL,
+    "lat" REAL NOT NULL,
+    "lng" REAL NOT NULL,
+    "builtAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("jurisdictionId", "streetLocation", "neighborLocation"),
+    CONSTRAINT "StreetAdjacency_jurisdictionId_fkey" FOREIGN KEY ("jurisdictionId") REFERENCES "Jurisdiction" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "StreetGeometry" ADD COLUMN "override" JSONB;
+ALTER TABLE "StreetGeometry" ADD COLUMN "overrideAt" DATETIME;
+ALTER TABLE "StreetGeometry" ADD COLUMN "excludedWayIds" JSONB;
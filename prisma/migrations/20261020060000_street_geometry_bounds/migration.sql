@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "StreetGeometry" ADD COLUMN "maxLat" REAL;
+ALTER TABLE "StreetGeometry" ADD COLUMN "maxLng" REAL;
+ALTER TABLE "StreetGeometry" ADD COLUMN "minLat" REAL;
+ALTER TABLE "StreetGeometry" ADD COLUMN "minLng" REAL;
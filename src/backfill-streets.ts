@@ -0,0 +1,14 @@
+import 'dotenv/config';
+
+import { prisma } from './prisma.js';
+import { backfillTicketStreets } from './services/streetService.js';
+
+// Re-normalizes every ticket's street (not just unlinked ones) — run after changing
+// the normalizer or removing an alias. Server startup only links new/unlinked tickets.
+
+backfillTicketStreets({ all: true })
+  .then(({ scanned, updated }) => {
+    console.log(`✅ Scanned ${scanned} ticket(s), updated ${updated}`);
+  })
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
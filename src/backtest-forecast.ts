@@ -0,0 +1,33 @@
+import 'dotenv/config';
+
+import { prisma } from './prisma.js';
+import { backtestForecast } from './services/enforcementForecastService.js';
+import { DEFAULT_JURISDICTION_ID } from './services/jurisdictionService.js';
+
+// Scores the enforcement forecast against the most recent, held-out ticket history.
+// Usage: npm run backtest:forecast -- [--jurisdiction=ithaca] [--days=14] [--hours=3] [--tz=America/New_York]
+
+const args = new Map(
+  process.argv
+    .slice(2)
+    .map((arg) => /^--([^=]+)=(.*)$/.exec(arg))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => [match[1]!, match[2]!]),
+);
+const numberArg = (name: string): number | undefined =>
+  args.has(name) ? Number.parseInt(args.get(name)!, 10) : undefined;
+
+backtestForecast(args.get('jurisdiction') ?? DEFAULT_JURISDICTION_ID, {
+  testDays: numberArg('days'),
+  hours: numberArg('hours'),
+  timeZone: args.get('tz'),
+})
+  .then((report) => {
+    console.log(JSON.stringify(report, null, 2));
+    console.log(
+      `✅ ${report.predictions} forecast(s) over ${report.streets} street(s): ` +
+        `Brier ${report.brier?.toFixed(4) ?? '—'} vs baseline ${report.baselineBrier?.toFixed(4) ?? '—'}`,
+    );
+  })
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,119 @@
+/**
+ * In-process event bus for newly saved tickets.
+ *
+ * The scraper publishes here after a ticket row is created; the SSE route
+ * (`GET /tickets/stream`) and the Socket.IO `/tickets` namespace subscribe.
+ * A ticket saved without an OCR pin is published again as "located" once the
+ * geocode / street-centroid fallback has placed it.
+ * Everything runs in the API process, so a plain EventEmitter is enough.
+ */
+
+import { EventEmitter } from 'events';
+import type { Ticket } from '@prisma/client';
+
+import { listTicketsSavedAfter } from '../services/ticketService.js';
+import type { StreamScope } from '../services/ticketService.js';
+
+type TicketListener = (ticket: Ticket) => void;
+
+const NEW_TICKET = 'ticket:new';
+const LOCATED_TICKET = 'ticket:located';
+const SHUTDOWN = 'shutdown';
+
+const bus = new EventEmitter();
+// One listener per open stream / namespace — not a leak.
+bus.setMaxListeners(0);
+
+export const publishNewTicket = (ticket: Ticket): void => {
+  bus.emit(NEW_TICKET, ticket);
+};
+
+/** A published ticket that has since been given coordinates (the updated row). */
+export const publishTicketLocated = (ticket: Ticket): void => {
+  bus.emit(LOCATED_TICKET, ticket);
+};
+
+const subscribe = (event: string, listener: TicketListener): (() => void) => {
+  const safe = (ticket: Ticket) => {
+    try {
+      listener(ticket);
+    } catch (err) {
+      console.error('[ticketEvents] Listener failed:', err);
+    }
+  };
+  bus.on(event, safe);
+  return () => {
+    bus.off(event, safe);
+  };
+};
+
+/**
+ * Registers `listener` for live tickets and returns an unsubscribe function.
+ * Listener errors are logged and swallowed so a broken client can't stall the scraper.
+ */
+export const subscribeToNewTickets = (listener: TicketListener): (() => void) =>
+  subscribe(NEW_TICKET, listener);
+
+/** Like `subscribeToNewTickets`, for tickets placed after they were published. */
+export const subscribeToLocatedTickets = (listener: TicketListener): (() => void) =>
+  subscribe(LOCATED_TICKET, listener);
+
+/**
+ * Like `subscribeToNewTickets`, but first replays the scope's tickets saved after
+ * `lastTicketId` (resume-on-reconnect). Live tickets arriving while the replay
+ * query runs are buffered, and anything already replayed is skipped, so the
+ * listener sees each ticket once and in save order. When the replay hit its limit,
+ * `onTruncated` runs after the replayed tickets and before any live one.
+ */
+export const subscribeWithReplay = async (
+  lastTicketId: string | null,
+  scope: StreamScope,
+  listener: TicketListener,
+  onTruncated: () => void,
+): Promise<() => void> => {
+  let replaying = true;
+  const buffered: Ticket[] = [];
+  const delivered = new Set<string>();
+
+  const deliver = (ticket: Ticket) => {
+    if (delivered.has(ticket.ticketId)) return;
+    delivered.add(ticket.ticketId);
+    listener(ticket);
+  };
+
+  const unsubscribe = subscribeToNewTickets((ticket) => {
+    if (replaying) buffered.push(ticket);
+    else listener(ticket);
+  });
+
+  let truncated = false;
+  try {
+    if (lastTicketId) {
+      const replay = await listTicketsSavedAfter(lastTicketId, scope);
+      for (const ticket of replay.tickets) deliver(ticket);
+      truncated = replay.hasMore;
+    }
+  } catch (err) {
+    unsubscribe();
+    throw err;
+  }
+
+  // Synchronous from here on, so no live ticket can slip between the flush and the flag flip.
+  if (truncated) onTruncated();
+  for (const ticket of buffered) deliver(ticket);
+  replaying = false;
+
+  return unsubscribe;
+};
+
+/** Fired once on graceful shutdown so long-lived streams can end their responses. */
+export const onTicketEventsShutdown = (listener: () => void): (() => void) => {
+  bus.once(SHUTDOWN, listener);
+  return () => {
+    bus.off(SHUTDOWN, listener);
+  };
+};
+
+export const shutdownTicketEvents = (): void => {
+  bus.emit(SHUTDOWN);
+};
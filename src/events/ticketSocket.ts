@@ -0,0 +1,168 @@
+/**
+ * Socket.IO `/tickets` namespace for the map client.
+ *
+ * Handshake: `io('/tickets', { auth: { token, jurisdiction?, lastTicketId?, streets? } })`.
+ * `token` is the same Firebase ID token used as the HTTP Bearer token;
+ * `jurisdiction` defaults to the default jurisdiction and scopes everything below.
+ *
+ * Rooms: a socket with no street subscriptions sits in its jurisdiction's
+ * `all` room and receives every ticket there; once it subscribes to one or
+ * more streets it only receives tickets on those streets. Street names are
+ * canonicalized (normalizer + alias table) on subscribe, so "Linden Avenue"
+ * and "LINDEN AVE" join the same room.
+ *
+ * Events:
+ *   client → server  `subscribe` (street), `unsubscribe` (street)
+ *   server → client  `ticket` (Ticket JSON), `ticketLocated` (the same ticket again once
+ *                    a ticket saved without an OCR pin has been geocoded or placed),
+ *                    `replayTruncated` ({ limit }: the reconnect replay below was cut off)
+ *
+ * On reconnect, pass the last received `ticketId` as `auth.lastTicketId` to
+ * replay anything missed. Replayed and live tickets may overlap by a ticket or
+ * two around the handshake, so clients should de-duplicate by `ticketId`. Only the oldest
+ * STREAM_REPLAY_LIMIT missed tickets are replayed; `replayTruncated` follows them when there
+ * were more, and the client should re-sync from `GET /tickets`.
+ */
+
+import type { Server as HttpServer } from 'http';
+import type { Ticket } from '@prisma/client';
+import { Server } from 'socket.io';
+import type { DefaultEventsMap, Namespace, Socket } from 'socket.io';
+
+import { authenticateToken } from '../middleware/auth.js';
+import type { AuthUser } from '../middleware/auth.js';
+import { resolveJurisdictionId } from '../services/jurisdictionService.js';
+import { findStreet } from '../services/streetService.js';
+import { STREAM_REPLAY_LIMIT, listTicketsSavedAfter } from '../services/ticketService.js';
+import { normalizeStreetName } from '../utils/streetName.js';
+import { subscribeToLocatedTickets, subscribeToNewTickets } from './ticketEvents.js';
+
+/** Set by the handshake middleware before `connection` fires. */
+type TicketSocketData = {
+  user: AuthUser;
+  jurisdictionId: string;
+  /** Canonical street names from `auth.streets`. */
+  streets: string[];
+};
+
+type TicketServer = Server<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, TicketSocketData>;
+type TicketNamespace = Namespace<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, TicketSocketData>;
+type TicketSocket = Socket<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, TicketSocketData>;
+
+const allRoom = (jurisdictionId: string) => `all:${jurisdictionId}`;
+const streetRoomPrefix = (jurisdictionId: string) => `street:${jurisdictionId}:`;
+const streetRoom = (jurisdictionId: string, street: string) =>
+  `${streetRoomPrefix(jurisdictionId)}${street}`;
+
+const streetRoomsOf = (socket: TicketSocket): string[] =>
+  [...socket.rooms].filter((room) => room.startsWith(streetRoomPrefix(socket.data.jurisdictionId)));
+
+const parseStreets = (raw: unknown): string[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((s): s is string => typeof s === 'string')
+    .map((s) => s.trim())
+    .filter(Boolean);
+};
+
+/** Canonical street name for a room; '' when the input has nothing street-like in it. */
+const canonicalStreet = async (jurisdictionId: string, street: string): Promise<string> =>
+  (await findStreet(jurisdictionId, street))?.name ?? normalizeStreetName(street);
+
+const handshakeToken = (socket: TicketSocket): string | null => {
+  const fromAuth = socket.handshake.auth?.token;
+  if (typeof fromAuth === 'string' && fromAuth) return fromAuth;
+  const header = socket.handshake.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.split(' ')[1] ?? null;
+  return null;
+};
+
+const replayMissedTickets = async (socket: TicketSocket, lastTicketId: string) => {
+  const { jurisdictionId } = socket.data;
+  const prefixLength = streetRoomPrefix(jurisdictionId).length;
+  const streets = new Set(streetRoomsOf(socket).map((room) => room.slice(prefixLength)));
+  const missed = await listTicketsSavedAfter(lastTicketId, { jurisdictionId, streets: [...streets] });
+  for (const ticket of missed.tickets) socket.emit('ticket', ticket);
+  if (missed.hasMore) socket.emit('replayTruncated', { limit: STREAM_REPLAY_LIMIT });
+};
+
+const registerHandlers = (nsp: TicketNamespace, socket: TicketSocket) => {
+  const { jurisdictionId, streets } = socket.data;
+  if (streets.length > 0) {
+    void socket.join(streets.map((street) => streetRoom(jurisdictionId, street)));
+  } else {
+    void socket.join(allRoom(jurisdictionId));
+  }
+
+  socket.on('subscribe', async (street: unknown) => {
+    if (typeof street !== 'string' || !street.trim()) return;
+    const name = await canonicalStreet(jurisdictionId, street).catch(() => '');
+    if (!name) return;
+    void socket.leave(allRoom(jurisdictionId));
+    void socket.join(streetRoom(jurisdictionId, name));
+  });
+
+  socket.on('unsubscribe', async (street: unknown) => {
+    if (typeof street !== 'string' || !street.trim()) return;
+    const name = await canonicalStreet(jurisdictionId, street).catch(() => '');
+    if (!name) return;
+    void socket.leave(streetRoom(jurisdictionId, name));
+    if (streetRoomsOf(socket).length === 0) void socket.join(allRoom(jurisdictionId));
+  });
+
+  const lastTicketId = socket.handshake.auth?.lastTicketId;
+  if (typeof lastTicketId === 'string' && lastTicketId) {
+    replayMissedTickets(socket, lastTicketId).catch((err) => {
+      console.error(`[ticketSocket] Replay failed for socket ${socket.id}:`, err);
+    });
+  }
+
+  console.log(
+    `🔌 Socket ${socket.id} connected to ${nsp.name} (user ${socket.data.user.id}, ` +
+      `rooms=${[...socket.rooms].filter((r) => r !== socket.id).join(',')})`,
+  );
+};
+
+let io: TicketServer | null = null;
+
+/** Attaches Socket.IO to the HTTP server and fans bus tickets out to rooms. */
+export const attachTicketSocket = (httpServer: HttpServer): TicketServer => {
+  io = new Server<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, TicketSocketData>(httpServer);
+  const nsp = io.of('/tickets');
+
+  nsp.use((socket, next) => {
+    const jurisdiction = socket.handshake.auth?.jurisdiction;
+    authenticateToken(handshakeToken(socket))
+      .then(async (user) => {
+        socket.data.user = user;
+        const jurisdictionId = await resolveJurisdictionId(
+          typeof jurisdiction === 'string' && jurisdiction ? jurisdiction : undefined,
+        );
+        const streets = await Promise.all(
+          parseStreets(socket.handshake.auth?.streets).map((s) => canonicalStreet(jurisdictionId, s)),
+        );
+        socket.data.jurisdictionId = jurisdictionId;
+        socket.data.streets = streets.filter(Boolean);
+        next();
+      })
+      .catch((err: Error) => next(err));
+  });
+
+  nsp.on('connection', (socket) => registerHandlers(nsp, socket));
+
+  const roomsOf = (ticket: Ticket) => {
+    const rooms = [allRoom(ticket.jurisdictionId)];
+    if (ticket.streetLocation) rooms.push(streetRoom(ticket.jurisdictionId, ticket.streetLocation));
+    return rooms;
+  };
+  // Socket.IO de-duplicates sockets that sit in more than one target room.
+  subscribeToNewTickets((ticket: Ticket) => nsp.to(roomsOf(ticket)).emit('ticket', ticket));
+  subscribeToLocatedTickets((ticket: Ticket) => nsp.to(roomsOf(ticket)).emit('ticketLocated', ticket));
+
+  return io;
+};
+
+/** Disconnects all sockets without closing the HTTP server (server.ts owns that). */
+export const closeTicketSocket = (): void => {
+  io?.disconnectSockets(true);
+};
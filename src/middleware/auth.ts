@@ -22,49 +22,57 @@ function bearerToken(req: Request): string | null {
   return token ?? null;
 }
 
+export type AuthUser = NonNullable<Request['user']>;
+
 /**
- * Verifies a Firebase ID token, syncs/creates the User row, and sets req.user.
- * In development, skips verification and attaches a synthetic admin user (override with AUTH_DEV_BYPASS=false).
+ * Resolves the caller for a raw bearer token: verifies the Firebase ID token and syncs the User row.
+ * In development, skips verification and returns a synthetic admin user (override with AUTH_DEV_BYPASS=false).
+ * Shared by the HTTP middleware and the Socket.IO handshake.
  */
-export async function requireAuth(req: Request, _res: Response, next: NextFunction) {
-  try {
-    if (devAuthBypassEnabled()) {
-      const devUser = await prisma.user.upsert({
-        where: { firebaseUid: '__dev__' },
-        create: {
-          firebaseUid: '__dev__',
-          email: 'dev@localhost',
-          displayName: 'Dev user',
-          role: 'ADMIN',
-        },
-        update: {},
-      });
-      req.user = {
-        id: devUser.id,
-        firebaseUid: devUser.firebaseUid,
-        email: devUser.email,
-        displayName: devUser.displayName,
-        role: devUser.role,
-      };
-      return next();
-    }
+export async function authenticateToken(token: string | null): Promise<AuthUser> {
+  if (devAuthBypassEnabled()) {
+    const devUser = await prisma.user.upsert({
+      where: { firebaseUid: '__dev__' },
+      create: {
+        firebaseUid: '__dev__',
+        email: 'dev@localhost',
+        displayName: 'Dev user',
+        role: 'ADMIN',
+      },
+      update: {},
+    });
+    return {
+      id: devUser.id,
+      firebaseUid: devUser.firebaseUid,
+      email: devUser.email,
+      displayName: devUser.displayName,
+      role: devUser.role,
+    };
+  }
 
-    const token = bearerToken(req);
-    if (!token) {
-      throw new UnauthorizedError('No token provided or wrong format.');
-    }
+  if (!token) {
+    throw new UnauthorizedError('No token provided or wrong format.');
+  }
 
+  try {
     const decoded = await getFirebaseAuth().verifyIdToken(token);
     const user = await upsertUserFromToken(decoded);
-
-    req.user = {
+    return {
       id: user.id,
       firebaseUid: user.firebaseUid,
       email: user.email,
       displayName: user.displayName,
       role: user.role,
     };
+  } catch {
+    throw new UnauthorizedError('Invalid or expired token.');
+  }
+}
 
+/** Verifies the Bearer token on the request and sets req.user. */
+export async function requireAuth(req: Request, _res: Response, next: NextFunction) {
+  try {
+    req.user = await authenticateToken(bearerToken(req));
     return next();
   } catch (err) {
     if (err instanceof UnauthorizedError || err instanceof ForbiddenError) {
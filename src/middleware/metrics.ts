@@ -0,0 +1,49 @@
+import type { NextFunction, Request, Response } from 'express';
+
+import { httpRequestDurationSeconds, httpRequestsTotal } from '../utils/metrics.js';
+
+/**
+ * Route label from the matched Express route pattern (`/tickets/:ticketId`), never the
+ * raw URL, so IDs don't explode label cardinality. Requests no route matched (404s,
+ * auth rejections) share the `unmatched` label.
+ */
+const routeLabel = (baseUrl: string, route: unknown): string | null => {
+  const path: unknown = (route as { path?: unknown } | undefined)?.path;
+  if (typeof path !== 'string') return null;
+  return `${baseUrl}${path === '/' && baseUrl ? '' : path}`;
+};
+
+/**
+ * Calls `onMatch` with the label each time the router dispatches to a route. It has to be read
+ * then: a router that exits through `next(err)` restores `req.baseUrl` to its parent, so by
+ * `finish` an error response would have lost its mount prefix.
+ */
+const watchRouteMatches = (req: Request, onMatch: (label: string) => void): void => {
+  let route: unknown = req.route;
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => route,
+    set: (value: unknown) => {
+      route = value;
+      const label = routeLabel(req.baseUrl, value);
+      if (label) onMatch(label);
+    },
+  });
+};
+
+export const httpMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const startedAt = process.hrtime.bigint();
+  let route = 'unmatched';
+  watchRouteMatches(req, (label) => {
+    route = label;
+  });
+
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    httpRequestsTotal.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpRequestDurationSeconds.observe({ method: req.method, route }, seconds);
+  });
+
+  next();
+};
@@ -0,0 +1,40 @@
+import 'dotenv/config';
+import { readFileSync } from 'fs';
+
+import { formatLike } from './worker/blockMath.js';
+import type { MockPortalFixtures } from './portal/mockPortalServer.js';
+import { startMockPortalServer } from './portal/mockPortalServer.js';
+
+// Serves the mock ticket portal for offline scraper runs. Point the watcher at it with
+// TICKET_PORTAL_ADAPTER=fixture TICKET_PORTAL_FIXTURE_URL=http://localhost:<port>.
+// Fixtures come from MOCK_PORTAL_FIXTURES (JSON file keyed by ticket ID) or a small
+// built-in set just after DEFAULT_START_TICKET_ID.
+
+const demoFixtures = (startId: string): MockPortalFixtures => {
+  const at = (offset: number) => formatLike(startId, Number(startId.replace(/\D/g, '')) + offset);
+  const issuedAt = new Date().toLocaleString('en-US', {
+    timeZone: 'America/New_York',
+    month: '2-digit',
+    day: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).replace(',', '');
+
+  return {
+    [at(0)]: { kind: 'accessible', issuedAt, licensePlateNumber: 'ABC1234', licensePlateState: 'NY', streetLocation: 'LINDEN AVE', violationCode: '12', violationDescription: 'EXPIRED METER', fineAmount: '$30.00', status: 'Open' },
+    [at(1)]: { kind: 'closed' },
+    [at(2)]: { kind: 'accessible', issuedAt, licensePlateNumber: 'XYZ9876', licensePlateState: 'PA', streetLocation: 'COLLEGE AVE', captchaFirst: true },
+    // at(3) is intentionally missing → no results
+    [at(4)]: { kind: 'accessible', issuedAt, licensePlateNumber: 'JKL5555', licensePlateState: 'NY', streetLocation: 'DRYDEN RD', violationCode: '31', violationDescription: 'NO PARKING ZONE', fineAmount: '$45.00', status: 'Open' },
+  };
+};
+
+const fixturesPath = process.env.MOCK_PORTAL_FIXTURES;
+const fixtures: MockPortalFixtures = fixturesPath
+  ? (JSON.parse(readFileSync(fixturesPath, 'utf-8')) as MockPortalFixtures)
+  : demoFixtures(process.env.DEFAULT_START_TICKET_ID ?? '100000064741');
+
+const port = Number.parseInt(process.env.MOCK_PORTAL_PORT ?? '8090', 10);
+const server = await startMockPortalServer(fixtures, port);
+console.log(`🧪 Mock ticket portal listening at ${server.url} (${Object.keys(fixtures).length} fixture(s))`);
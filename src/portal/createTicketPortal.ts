@@ -0,0 +1,36 @@
+import type { Jurisdiction } from '@prisma/client';
+
+import { createFixturePortal } from './fixturePortal.js';
+import { createPlaywrightPortal } from './playwrightPortal.js';
+import type { TicketOrigin } from './ticketCard.js';
+import type { TicketPortal } from './ticketPortal.js';
+
+const DEFAULT_FIXTURE_PORTAL_URL = 'http://localhost:8090';
+
+/**
+ * Portal adapter for one jurisdiction, selected by `TICKET_PORTAL_ADAPTER`:
+ *   - `playwright` (default): stealth Chromium against the jurisdiction's `portalUrl`
+ *   - `fixture`: plain HTTP against the mock portal at `TICKET_PORTAL_FIXTURE_URL`
+ *     (shared by every jurisdiction)
+ */
+export const createTicketPortal = (jurisdiction: Jurisdiction): TicketPortal => {
+  const adapter = process.env.TICKET_PORTAL_ADAPTER?.trim() || 'playwright';
+  const origin: TicketOrigin = {
+    jurisdictionId: jurisdiction.id,
+    timeZone: jurisdiction.timeZone,
+  };
+
+  if (adapter === 'fixture') {
+    return createFixturePortal({
+      baseUrl:
+        process.env.TICKET_PORTAL_FIXTURE_URL?.trim() || DEFAULT_FIXTURE_PORTAL_URL,
+      origin,
+    });
+  }
+  if (adapter !== 'playwright') {
+    throw new Error(
+      `Unknown TICKET_PORTAL_ADAPTER "${adapter}" (expected playwright | fixture)`,
+    );
+  }
+  return createPlaywrightPortal({ portalUrl: jurisdiction.portalUrl, origin });
+};
@@ -0,0 +1,159 @@
+/**
+ * HTTP adapter for the local mock portal (`mockPortalServer.ts`).
+ *
+ * Fetches `GET {baseUrl}/ticket?number=<id>` and reads the same markup the
+ * Playwright adapter reads from tocite.net, using plain string matching —
+ * no browser, no network beyond localhost. A CAPTCHA page is "solved" by
+ * re-requesting with a `captchaToken`, so retry accounting behaves like the
+ * real adapter.
+ */
+
+import axios from 'axios';
+
+import { TicketSearchResult, type TicketSearchResponse } from '../tickets/types.js';
+import { classifyPortalText, ticketFromCard } from './ticketCard.js';
+import type { ScrapedTicketCard, TicketOrigin } from './ticketCard.js';
+import {
+  CaptchaExhaustedError,
+  MAX_CAPTCHA_ATTEMPTS,
+  type SearchOptions,
+  type TicketPortal,
+} from './ticketPortal.js';
+
+const stripTags = (html: string): string =>
+  html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ');
+
+const decodeEntities = (s: string): string =>
+  s
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const spanTextById = (html: string, id: string): string | null => {
+  const match = new RegExp(`<span[^>]*id="${id}"[^>]*>([^<]*)</span>`).exec(html);
+  return match ? decodeEntities(match[1]).trim() : null;
+};
+
+const parseCard = (ticketId: string, html: string): ScrapedTicketCard | null => {
+  const start = html.indexOf(`data-citationnumber="${ticketId}"`);
+  if (start < 0) return null;
+  const card = html.slice(start);
+
+  const header = /class="card-header"[\s\S]*?<\/button>/.exec(card)?.[0] ?? '';
+  const issuedAtText =
+    /\d{1,2}\/\d{1,2}\/\d{4}\s+\d{1,2}:\d{2}\s+[AP]M/i.exec(header)?.[0] ?? null;
+
+  const carousel = /class="carousel-inner">([\s\S]*?)<\/div>\s*<\/div>/.exec(card)?.[1] ?? '';
+  const evidenceUrls = [...carousel.matchAll(/<img[^>]*src="([^"]*)"/g)].map((m) =>
+    decodeEntities(m[1]),
+  );
+
+  return {
+    ticketId,
+    issuedAtText,
+    licensePlateNumber: spanTextById(card, 'LicenseNoState') || null,
+    licensePlateState: spanTextById(card, 'LicenseState') || null,
+    streetLocation: spanTextById(card, 'ViolationLocation') || null,
+    violationCode: spanTextById(card, 'ViolationCode') || null,
+    violationDescription: spanTextById(card, 'ViolationDescription') || null,
+    fineText: spanTextById(card, 'FineAmount') || null,
+    dueDateText: spanTextById(card, 'DueDate') || null,
+    statusText: spanTextById(card, 'TicketStatus') || null,
+    evidenceUrls,
+  };
+};
+
+const toSearchResponse = async (
+  ticketId: string,
+  html: string,
+  origin: TicketOrigin,
+  options: SearchOptions,
+): Promise<TicketSearchResponse> => {
+  if (html.includes('id="ticket-search-captcha"')) {
+    return { result: TicketSearchResult.CAPTCHA, ticket: null };
+  }
+
+  const status = classifyPortalText(stripTags(html));
+  if (status) return { result: status, ticket: null };
+
+  const card = parseCard(ticketId, html);
+  if (!card) return { result: TicketSearchResult.NO_RESULTS, ticket: null };
+
+  return {
+    result: TicketSearchResult.ACCESSIBLE,
+    ticket: await ticketFromCard(card, origin, options),
+    evidenceUrls: card.evidenceUrls,
+  };
+};
+
+export type FixturePortalOptions = {
+  baseUrl: string;
+  origin: TicketOrigin;
+};
+
+export const createFixturePortal = (options: FixturePortalOptions): TicketPortal => {
+  const fetchPage = async (ticketId: string, captchaToken?: string): Promise<string> => {
+    const res = await axios.get<string>(`${options.baseUrl}/ticket`, {
+      params: { number: ticketId, ...(captchaToken ? { captchaToken } : {}) },
+      responseType: 'text',
+      timeout: 5000,
+    });
+    return res.data;
+  };
+
+  return {
+    name: 'fixture',
+
+    async open() {
+      console.log(`🧪 Using fixture portal at ${options.baseUrl}`);
+    },
+
+    async search(ticketId, searchOptions = {}) {
+      console.log(`🔍 Searching for ticket: ${ticketId}`);
+      let searchResponse = await toSearchResponse(
+        ticketId,
+        await fetchPage(ticketId),
+        options.origin,
+        searchOptions,
+      );
+
+      let attempts = 0;
+      let solves = 0;
+      while (attempts < MAX_CAPTCHA_ATTEMPTS) {
+        if (searchResponse.result === TicketSearchResult.CAPTCHA) {
+          attempts++;
+          solves++;
+          console.log(`🤖 CAPTCHA detected (attempt ${attempts}/${MAX_CAPTCHA_ATTEMPTS}), solving...`);
+          searchResponse = await toSearchResponse(
+            ticketId,
+            await fetchPage(ticketId, `fixture-${attempts}`),
+            options.origin,
+            searchOptions,
+          );
+        } else if (searchResponse.result === TicketSearchResult.FAILED_CHALLENGE) {
+          attempts++;
+          console.log(`🚫 Failed challenge (attempt ${attempts}/${MAX_CAPTCHA_ATTEMPTS}), retrying...`);
+          searchResponse = await toSearchResponse(
+            ticketId,
+            await fetchPage(ticketId),
+            options.origin,
+            searchOptions,
+          );
+        } else {
+          break;
+        }
+      }
+
+      if (attempts >= MAX_CAPTCHA_ATTEMPTS) {
+        throw new CaptchaExhaustedError(solves);
+      }
+
+      return { ...searchResponse, captchaAttempts: attempts, captchaSolves: solves };
+    },
+
+    async refresh() {},
+
+    async close() {},
+  };
+};
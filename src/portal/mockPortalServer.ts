@@ -0,0 +1,138 @@
+/**
+ * Small local stand-in for the tocite.net portal, for offline scraper runs.
+ *
+ * `GET /ticket?number=<id>` returns canned HTML that mirrors the real
+ * portal's markup (same ids / classes / status messages) for the page kinds
+ * the scraper distinguishes: a ticket card, a closed ticket, no results,
+ * a failed challenge and a reCAPTCHA prompt. IDs without a fixture get the
+ * no-results page, exactly like an unissued ticket number.
+ *
+ * A fixture with `captchaFirst: true` answers with the CAPTCHA page until the
+ * request carries a `captchaToken` (what the fixture adapter sends after
+ * "solving"), so the retry path is exercised too.
+ */
+
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import express from 'express';
+
+import { TicketMessage } from '../tickets/types.js';
+
+export type MockTicketFixture =
+  | {
+      kind: 'accessible';
+      /** Card header time, portal format: "MM/DD/YYYY hh:mm AM". */
+      issuedAt: string;
+      licensePlateNumber?: string;
+      licensePlateState?: string;
+      streetLocation?: string;
+      violationCode?: string;
+      violationDescription?: string;
+      /** Portal format, e.g. "$45.00". */
+      fineAmount?: string;
+      /** Portal format: "MM/DD/YYYY". */
+      dueDate?: string;
+      /** e.g. "Open", "Past Due". */
+      status?: string;
+      evidenceUrls?: string[];
+      captchaFirst?: boolean;
+    }
+  | { kind: 'closed'; captchaFirst?: boolean }
+  | { kind: 'failed_challenge' };
+
+/** Keyed by full ticket ID. */
+export type MockPortalFixtures = Record<string, MockTicketFixture>;
+
+export type MockPortalServer = {
+  url: string;
+  close(): Promise<void>;
+};
+
+const escapeHtml = (s: string): string =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const page = (body: string): string =>
+  `<!doctype html><html><head><title>Ticket Portal (mock)</title></head><body>
+<form><input id="ticket-number-search" name="number"><button type="submit">Search</button></form>
+${body}
+</body></html>`;
+
+const messagePage = (message: string): string =>
+  page(`<div id="ticket-search-messages"><div class="alert">${escapeHtml(message)}</div></div>`);
+
+const captchaPage = (): string =>
+  page(
+    '<div id="ticket-search-captcha"><div class="g-recaptcha" data-sitekey="mock-site-key" data-action="ticket_search"></div></div>',
+  );
+
+const ticketCardPage = (
+  ticketId: string,
+  fixture: Extract<MockTicketFixture, { kind: 'accessible' }>,
+): string => {
+  const images = (fixture.evidenceUrls ?? [])
+    .map((src) => `<div class="carousel-item"><img src="${escapeHtml(src)}"></div>`)
+    .join('');
+  return page(`<div id="ticket-results"><div class="result-container">
+<div class="card ticket-card" data-citationnumber="${escapeHtml(ticketId)}">
+  <div class="card-header"><button><span>${escapeHtml(ticketId)}</span><span>Parking</span><span>${escapeHtml(fixture.issuedAt)}</span></button></div>
+  <div class="ticket-card-info">
+    <span id="LicenseNoState">${escapeHtml(fixture.licensePlateNumber ?? '')}</span>
+    <span id="LicenseState">${escapeHtml(fixture.licensePlateState ?? '')}</span>
+  </div>
+  <span id="ViolationLocation">${escapeHtml(fixture.streetLocation ?? '')}</span>
+  <div class="ticket-card-violation">
+    <span id="ViolationCode">${escapeHtml(fixture.violationCode ?? '')}</span>
+    <span id="ViolationDescription">${escapeHtml(fixture.violationDescription ?? '')}</span>
+    <span id="FineAmount">${escapeHtml(fixture.fineAmount ?? '')}</span>
+    <span id="DueDate">${escapeHtml(fixture.dueDate ?? '')}</span>
+    <span id="TicketStatus">${escapeHtml(fixture.status ?? '')}</span>
+  </div>
+  <div class="carousel-inner">${images}</div>
+</div>
+</div></div>`);
+};
+
+export const renderMockPortalPage = (
+  ticketId: string,
+  fixture: MockTicketFixture | undefined,
+  captchaSolved: boolean,
+): string => {
+  if (!fixture) return messagePage(TicketMessage.NO_RESULTS);
+  if (fixture.kind === 'failed_challenge') return messagePage(TicketMessage.FAILED_CHALLENGE);
+  if (fixture.captchaFirst && !captchaSolved) return captchaPage();
+  if (fixture.kind === 'closed') {
+    return messagePage(`${TicketMessage.CLOSED} status and cannot be paid online.`);
+  }
+  return ticketCardPage(ticketId, fixture);
+};
+
+export const startMockPortalServer = async (
+  fixtures: MockPortalFixtures,
+  port: number = 0,
+): Promise<MockPortalServer> => {
+  const app = express();
+
+  app.get('/ticket', (req, res) => {
+    const number = typeof req.query['number'] === 'string' ? req.query['number'].trim() : '';
+    const captchaSolved = typeof req.query['captchaToken'] === 'string';
+    res.type('html').send(renderMockPortalPage(number, fixtures[number], captchaSolved));
+  });
+
+  const server = await new Promise<Server>((resolve) => {
+    const s = app.listen(port, () => resolve(s));
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${boundPort}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+};
@@ -0,0 +1,319 @@
+/**
+ * Playwright adapter for the tocite.net ticket portal.
+ *
+ * Drives a stealth Chromium page: types the ticket number into the search
+ * form, waits for one of the three outcomes (CAPTCHA, status message, ticket
+ * card) and reads the card via the portal's DOM ids. reCAPTCHA challenges are
+ * solved through 2Captcha.
+ */
+
+import { Solver } from '@2captcha/captcha-solver';
+import type { Browser, Page } from 'playwright';
+import { chromium } from 'playwright-extra';
+import stealth from 'puppeteer-extra-plugin-stealth';
+
+import { TicketSearchResult, type TicketSearchResponse } from '../tickets/types.js';
+import { sleep } from '../utils/sleep.js';
+import { classifyPortalText, ticketFromCard } from './ticketCard.js';
+import type { ScrapedTicketCard, TicketOrigin } from './ticketCard.js';
+import {
+  CaptchaExhaustedError,
+  MAX_CAPTCHA_ATTEMPTS,
+  type SearchOptions,
+  type TicketPortal,
+} from './ticketPortal.js';
+
+chromium.use(stealth());
+
+const solver = new Solver(process.env.TWOCAPTCHA_API_KEY ?? '');
+
+const SCRAPER_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+
+const submitTicketSearch = async (page: Page, ticketId: string) => {
+  await sleep(1000);
+  const inputSelector = '#ticket-number-search';
+
+  if (await page.isVisible('button[aria-label="Back"]')) {
+    await page.click('button[aria-label="Back"]');
+  }
+
+  await page.waitForSelector(inputSelector, {
+    timeout: 5000,
+    state: 'visible'
+  });
+
+  await page.click(inputSelector);
+  await page.fill(inputSelector, '');
+  await page.type(inputSelector, ticketId, { delay: 50 });
+  await sleep(500);
+
+  const searchButtonSelector =
+    'button[type="submit"], button:has-text("Search"), button:has-text("Lookup")';
+
+  await page.click(searchButtonSelector);
+
+  await page.waitForSelector('div.loading-spinner-text', { state: 'hidden' });
+
+  console.log('⏳ Waiting for search results...');
+  try {
+    await Promise.race([
+      page.waitForSelector('#ticket-search-captcha', { timeout: 10000 }).then(() => {
+        console.log('🔍 CAPTCHA element appeared');
+      }),
+      page.waitForSelector('div#ticket-search-messages > div.alert', { timeout: 10000 }).then(() => {
+        console.log('🔍 Search messages alert appeared');
+      }),
+      page.waitForSelector(`div#ticket-results > div.result-container`, { timeout: 10000 }).then(() => {
+        console.log('🔍 Ticket card appeared');
+      }),
+    ]);
+    console.log('✅ Search results loaded');
+  } catch {
+    console.log('⚠️  Timeout waiting for results, continuing anyway...');
+  }
+
+  await sleep(500);
+};
+
+const scrapeTicketCard = async (ticketId: string, page: Page): Promise<ScrapedTicketCard | null> => {
+  const card = await page.$(`div.card.ticket-card[data-citationnumber='${ticketId}']`);
+  if (!card) return null;
+
+  const cardHeader = await card.$('div.card-header button');
+  console.log("card header is there?", cardHeader != null ? "yes" : "no");
+  if (!cardHeader) return null;
+
+  const timestamp = await cardHeader.$('span:nth-child(3)')
+  const timestampText = await timestamp?.textContent();
+
+  const ticketCardInfo = await card.$('div.ticket-card-info')
+
+  const licensePlate = await ticketCardInfo?.$('span#LicenseNoState')
+  const licensePlateText = (await licensePlate?.textContent())?.trim();
+
+  const licensePlateState = await ticketCardInfo?.$('span#LicenseState')
+  const licensePlateStateText = (await licensePlateState?.textContent())?.trim();
+
+  const evidenceImages = await card.$$('div.carousel-inner > div > img');
+  const evidenceUrls: string[] = [];
+  for (const img of evidenceImages) {
+    const src = await img.getAttribute('src');
+    if (src) evidenceUrls.push(src);
+  }
+
+  const streetLocation = await card.$('span#ViolationLocation')
+  const streetLocationText = await streetLocation?.textContent();
+
+  const cardText = async (selector: string): Promise<string | null> =>
+    (await (await card.$(selector))?.textContent())?.trim() || null;
+
+  return {
+    ticketId,
+    issuedAtText: timestampText ?? null,
+    licensePlateNumber: licensePlateText ?? null,
+    licensePlateState: licensePlateStateText ?? null,
+    streetLocation: streetLocationText ?? null,
+    violationCode: await cardText('span#ViolationCode'),
+    violationDescription: await cardText('span#ViolationDescription'),
+    fineText: await cardText('span#FineAmount'),
+    dueDateText: await cardText('span#DueDate'),
+    statusText: await cardText('span#TicketStatus'),
+    evidenceUrls,
+  };
+}
+
+const getTicketSearchResponse = async (
+  ticketId: string,
+  page: Page,
+  origin: TicketOrigin,
+  options: SearchOptions,
+): Promise<TicketSearchResponse> => {
+  const textContent = await page.textContent('body');
+
+  if (!textContent) {
+    console.log('🔍 No text content');
+    return {
+      result: TicketSearchResult.NO_RESULTS,
+      ticket: null,
+    };
+  }
+
+  if (await page.isVisible("#ticket-search-captcha")) {
+    console.log('CAPTCHA');
+    return {
+      result: TicketSearchResult.CAPTCHA,
+      ticket: null,
+    };
+  }
+
+  const status = classifyPortalText(textContent);
+  if (status) {
+    console.log(status.toUpperCase());
+    return {
+      result: status,
+      ticket: null,
+    };
+  }
+
+  const card = await scrapeTicketCard(ticketId, page);
+  if (!card) return {
+    result: TicketSearchResult.NO_RESULTS,
+    ticket: null,
+  };
+
+  return {
+    result: TicketSearchResult.ACCESSIBLE,
+    ticket: await ticketFromCard(card, origin, options),
+    evidenceUrls: card.evidenceUrls,
+  };
+};
+
+// Solves the CAPTCHA and calls window.validateCaptcha(token).
+// After validation, results appear automatically — no need to re-submit the search.
+// `onSolverRequest` fires once per paid 2Captcha request, whatever its outcome.
+const solveCaptcha = async (page: Page, onSolverRequest: () => void): Promise<boolean> => {
+  try {
+    console.log('🔐 Solving CAPTCHA...');
+
+    const recaptchaEl = await page.$('div.g-recaptcha');
+    const googleKey = await recaptchaEl?.getAttribute('data-sitekey');
+    const captchaAction = await recaptchaEl?.getAttribute('data-action');
+
+    if (!googleKey || !captchaAction) {
+      console.log('⚠️  CAPTCHA metadata not found');
+      return false;
+    }
+
+    onSolverRequest();
+    const solution = await solver.recaptcha({
+      googlekey: googleKey,
+      pageurl: page.url(),
+      action: captchaAction,
+      userAgent: SCRAPER_USER_AGENT,
+      invisible: 0,
+      version: 'v2',
+      enterprise: 1,
+    });
+
+    if (!solution) {
+      console.log('⚠️  No solution returned from solver');
+      return false;
+    }
+
+    console.log('✅ CAPTCHA solved, submitting token...');
+
+    await page.evaluate((token) => {
+      // Runs in the browser; the portal exposes validateCaptcha on window.
+      const win = globalThis as unknown as { validateCaptcha?: (t: string) => void };
+      if (typeof win.validateCaptcha === 'function') {
+        win.validateCaptcha(token);
+      }
+    }, solution.data);
+
+    try {
+      await Promise.race([
+        page.waitForSelector('div#ticket-search-messages > div.alert', { timeout: 10000 }),
+        page.waitForSelector('div#ticket-results > div.result-container', { timeout: 10000 }),
+      ]);
+      console.log('✅ Results loaded after CAPTCHA solve');
+    } catch {
+      console.log('⚠️  Timed out waiting for results after CAPTCHA solve');
+    }
+
+    return true;
+  } catch (error) {
+    console.error('❌ Error solving CAPTCHA:', error);
+    return false;
+  }
+};
+
+const searchForTicket = async (
+  page: Page,
+  ticketId: string,
+  origin: TicketOrigin,
+  options: SearchOptions,
+): Promise<TicketSearchResponse> => {
+  console.log(`🔍 Searching for ticket: ${ticketId}`);
+  await submitTicketSearch(page, ticketId);
+  let searchResponse = await getTicketSearchResponse(ticketId, page, origin, options);
+
+  let attempts = 0;
+  let solves = 0;
+
+  while (attempts < MAX_CAPTCHA_ATTEMPTS) {
+    if (searchResponse.result === TicketSearchResult.CAPTCHA) {
+      attempts++;
+      console.log(`🤖 CAPTCHA detected (attempt ${attempts}/${MAX_CAPTCHA_ATTEMPTS}), solving...`);
+      await solveCaptcha(page, () => solves++);
+      searchResponse = await getTicketSearchResponse(ticketId, page, origin, options);
+    } else if (searchResponse.result === TicketSearchResult.FAILED_CHALLENGE) {
+      attempts++;
+      console.log(`🚫 Failed challenge (attempt ${attempts}/${MAX_CAPTCHA_ATTEMPTS}), reloading and retrying...`);
+      await page.reload({ waitUntil: 'domcontentloaded', timeout: 5000 });
+      await submitTicketSearch(page, ticketId);
+      searchResponse = await getTicketSearchResponse(ticketId, page, origin, options);
+    } else {
+      break;
+    }
+  }
+
+  if (attempts >= MAX_CAPTCHA_ATTEMPTS) {
+    throw new CaptchaExhaustedError(solves);
+  }
+
+  return { ...searchResponse, captchaAttempts: attempts, captchaSolves: solves };
+};
+
+export type PlaywrightPortalOptions = {
+  portalUrl: string;
+  origin: TicketOrigin;
+};
+
+export const createPlaywrightPortal = (options: PlaywrightPortalOptions): TicketPortal => {
+  let browser: Browser | null = null;
+  let page: Page | null = null;
+
+  const requirePage = (): Page => {
+    if (!page) throw new Error('Playwright portal is not open');
+    return page;
+  };
+
+  return {
+    name: 'playwright',
+
+    async open() {
+      console.log('🚀 Launching browser...');
+      browser = await chromium.launch({ headless: false });
+      const context = await browser.newContext({
+        userAgent: SCRAPER_USER_AGENT,
+        viewport: { width: 1280, height: 720 },
+        deviceScaleFactor: 1,
+        hasTouch: false,
+        isMobile: false,
+        locale: 'en-US',
+        timezoneId: options.origin.timeZone,
+      });
+      page = await context.newPage();
+
+      console.log('🌐 Navigating to ticket portal...');
+      await page.goto(options.portalUrl, { waitUntil: 'domcontentloaded', timeout: 5000 });
+      await sleep(3000);
+      console.log('✅ Browser ready');
+    },
+
+    search(ticketId, searchOptions = {}) {
+      return searchForTicket(requirePage(), ticketId, options.origin, searchOptions);
+    },
+
+    async refresh() {
+      await page?.reload({ waitUntil: 'domcontentloaded', timeout: 5000 }).catch(() => {});
+    },
+
+    async close() {
+      console.log('🔒 Closing browser...');
+      await browser?.close().catch(() => {});
+      browser = null;
+      page = null;
+    },
+  };
+};
@@ -0,0 +1,174 @@
+/**
+ * Adapter-neutral ticket card handling.
+ *
+ * Portal adapters extract the raw card fields (`ScrapedTicketCard`) from
+ * whatever markup they see; turning those into a `Ticket` row — timestamp
+ * parsing, OCR of the evidence photo — happens here, once, for every adapter.
+ */
+
+import type { Ticket } from '@prisma/client';
+
+import { extractGpsFromImageUrl } from '../services/ocrService.js';
+import { checkOcrReading } from '../services/ticketLocationService.js';
+import { TicketMessage, TicketSearchResult } from '../tickets/types.js';
+import type { SearchOptions } from './ticketPortal.js';
+
+export type ScrapedTicketCard = {
+  ticketId: string;
+  /** Card header issue time as shown by the portal, e.g. "12/15/2025 10:38 AM". */
+  issuedAtText: string | null;
+  licensePlateNumber: string | null;
+  licensePlateState: string | null;
+  streetLocation: string | null;
+  violationCode: string | null;
+  violationDescription: string | null;
+  /** Fine as shown, e.g. "$45.00". */
+  fineText: string | null;
+  /** Due date as shown, e.g. "01/15/2026". */
+  dueDateText: string | null;
+  /** Status label as shown, e.g. "Open", "Past Due". */
+  statusText: string | null;
+  /** Evidence carousel image `src` values (URLs or data URIs), in display order. */
+  evidenceUrls: string[];
+};
+
+/** Jurisdiction a portal adapter scrapes; stamps and localizes the tickets it builds. */
+export type TicketOrigin = {
+  jurisdictionId: string;
+  /** IANA zone the portal prints issue times in. */
+  timeZone: string;
+};
+
+/**
+ * Classifies portal body text by its status messages. Returns null when none
+ * match, i.e. the page should contain a ticket card. CAPTCHA detection is
+ * markup-specific and stays in the adapters.
+ */
+export const classifyPortalText = (text: string): TicketSearchResult | null => {
+  if (text.includes(TicketMessage.FAILED_CHALLENGE)) {
+    return TicketSearchResult.FAILED_CHALLENGE;
+  }
+  if (text.includes(TicketMessage.REMITTANCE) || text.includes(TicketMessage.CLOSED)) {
+    return TicketSearchResult.CLOSED;
+  }
+  if (text.includes(TicketMessage.NO_RESULTS)) {
+    return TicketSearchResult.NO_RESULTS;
+  }
+  return null;
+};
+
+// Parses a portal timestamp string in `timeZone` local time (e.g. "12/15/2025 10:38 AM")
+// and returns a UTC Date. Uses Intl to detect the zone's offset on that date (EST -5 /
+// EDT -4 for Ithaca) so DST transitions are handled automatically.
+export const parsePortalTimestamp = (text: string, timeZone: string): Date => {
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})\s+(AM|PM)$/i.exec(text.trim());
+  if (!match) return new Date(text);
+
+  const [, mo, da, yr, hr, mi, ampm] = match;
+  let h = parseInt(hr, 10);
+  if (ampm.toUpperCase() === 'PM' && h !== 12) h += 12;
+  else if (ampm.toUpperCase() === 'AM' && h === 12) h = 0;
+
+  const probe = new Date(Date.UTC(+yr, +mo - 1, +da, h, +mi));
+  const offsetStr =
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      timeZoneName: 'shortOffset',
+    })
+      .formatToParts(probe)
+      .find((p) => p.type === 'timeZoneName')?.value ?? 'GMT';
+
+  // "GMT", "GMT-5" or "GMT+5:30"
+  const [, offsetSign = '+', offsetH = '0', offsetM = '0'] =
+    /^GMT(?:([+-])(\d{1,2})(?::(\d{2}))?)?$/.exec(offsetStr) ?? [];
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const iso = `${yr}-${pad(+mo)}-${pad(+da)}T${pad(h)}:${pad(+mi)}:00${offsetSign}${pad(+offsetH)}:${pad(+offsetM)}`;
+  return new Date(iso);
+};
+
+/** "$1,045.50" → 104550 cents; null when there is no amount. */
+export const parsePortalAmount = (text: string | null): number | null => {
+  const match = /(\d[\d,]*)(?:\.(\d{1,2}))?/.exec(text ?? '');
+  if (!match) return null;
+  const dollars = Number.parseInt(match[1]!.replace(/,/g, ''), 10);
+  const cents = Number.parseInt((match[2] ?? '0').padEnd(2, '0'), 10);
+  return dollars * 100 + cents;
+};
+
+/** "1/15/2026" → "2026-01-15"; null when malformed. */
+export const parsePortalDate = (text: string | null): string | null => {
+  const match = /(\d{1,2})\/(\d{1,2})\/(\d{4})/.exec(text ?? '');
+  if (!match) return null;
+  const [, mo, da, yr] = match;
+  return `${yr}-${mo!.padStart(2, '0')}-${da!.padStart(2, '0')}`;
+};
+
+/** First match wins, so the "not paid" / "partially paid" forms come before `paid`. */
+const PAYMENT_STATUSES: Array<[RegExp, string]> = [
+  [/past\s*due|overdue|delinquent/i, 'past_due'],
+  [/not\s+paid|partial/i, 'open'],
+  [/\bpaid\b/i, 'paid'],
+  [/dismiss|void|cancel/i, 'dismissed'],
+  [/closed/i, 'closed'],
+  [/open|unpaid|due|outstanding/i, 'open'],
+];
+
+/** Card status label → `Ticket.paymentStatus`; unrecognized labels are kept lowercased. */
+export const normalizePaymentStatus = (text: string | null): string | null => {
+  const label = text?.trim();
+  if (!label) return null;
+  return PAYMENT_STATUSES.find(([pattern]) => pattern.test(label))?.[1] ?? label.toLowerCase();
+};
+
+/**
+ * Builds the unsaved `Ticket` row for a scraped card (runs OCR on the first evidence photo
+ * and validates the reading against the jurisdiction and street, unless `skipOcr`).
+ */
+export const ticketFromCard = async (
+  card: ScrapedTicketCard,
+  origin: TicketOrigin,
+  options: SearchOptions = {},
+): Promise<Ticket> => {
+  const ocrResult = options.skipOcr
+    ? null
+    : await extractGpsFromImageUrl(card.evidenceUrls[0] ?? null);
+  const ocr = ocrResult
+    ? await checkOcrReading(origin.jurisdictionId, card.streetLocation, ocrResult)
+    : null;
+
+  return {
+    ticketId: card.ticketId,
+    jurisdictionId: origin.jurisdictionId,
+    licensePlateNumber: card.licensePlateNumber,
+    licensePlateState: card.licensePlateState,
+    timestamp: parsePortalTimestamp(card.issuedAtText ?? '', origin.timeZone),
+    lat: ocr?.lat ?? null,
+    lng: ocr?.lng ?? null,
+    // Set on save; the geocoding fallback runs after it if OCR found nothing usable.
+    locationSource: null,
+    locationConfidence: null,
+    locationCheckedAt: null,
+    ocrLat: ocr?.ocrLat ?? null,
+    ocrLng: ocr?.ocrLng ?? null,
+    ocrConfidence: ocr?.ocrConfidence ?? null,
+    ocrStatus: ocr?.ocrStatus ?? null,
+    // Parsed and canonicalized against the street table when the ticket is saved.
+    streetLocation: card.streetLocation,
+    rawLocation: card.streetLocation,
+    streetId: null,
+    houseNumber: null,
+    blockNumber: null,
+    crossStreet: null,
+    violationCode: card.violationCode,
+    violationDescription: card.violationDescription,
+    fineCents: parsePortalAmount(card.fineText),
+    dueDate: parsePortalDate(card.dueDateText),
+    paymentStatus: normalizePaymentStatus(card.statusText),
+    // Status re-check tracking starts when the ticket is saved.
+    statusCheckedAt: null,
+    nextStatusCheckAt: null,
+    statusCheckCount: 0,
+    resolvedAt: null,
+    createdAt: new Date(),
+  };
+};
@@ -0,0 +1,46 @@
+/**
+ * Ticket portal abstraction.
+ *
+ * The scraper loop only needs "search one ticket ID → TicketSearchResponse";
+ * how that happens (a stealth Chromium session against tocite.net, or plain
+ * HTTP against the local mock portal) is an adapter concern.
+ *
+ * Adapters own CAPTCHA / failed-challenge retries and throw
+ * `CaptchaExhaustedError` when they give up, which the watcher loop answers
+ * by backing off and restarting the portal (`close()` then `open()`).
+ */
+
+import type { TicketSearchResponse } from '../tickets/types.js';
+
+export type SearchOptions = {
+  /**
+   * Don't OCR the evidence photo: the ticket comes back without a GPS reading. Status
+   * re-checks only read the card's status fields.
+   */
+  skipOcr?: boolean;
+};
+
+export interface TicketPortal {
+  /** Short adapter name for logs, e.g. `playwright` or `fixture`. */
+  readonly name: string;
+  /** Launches / connects. Must be called before `search`, and again after `close`. */
+  open(): Promise<void>;
+  search(ticketId: string, options?: SearchOptions): Promise<TicketSearchResponse>;
+  /** Best-effort reset between polls (e.g. page reload). Never throws. */
+  refresh(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** Max CAPTCHA / failed-challenge retries per search before giving up. */
+export const MAX_CAPTCHA_ATTEMPTS = 5;
+
+export class CaptchaExhaustedError extends Error {
+  /** Paid solver requests spent before giving up. */
+  readonly captchaSolves: number;
+
+  constructor(captchaSolves: number = 0) {
+    super('CAPTCHA could not be solved after max attempts');
+    this.name = 'CaptchaExhaustedError';
+    this.captchaSolves = captchaSolves;
+  }
+}
@@ -0,0 +1,26 @@
+import 'dotenv/config';
+
+import { prisma } from './prisma.js';
+import { listJurisdictions } from './services/jurisdictionService.js';
+import { rebuildStreetGraph } from './services/streetAdjacencyService.js';
+
+// Rebuilds the street adjacency graph from stored geometry — run after bulk geometry changes.
+// Single geometry fetches keep their own street's edges current.
+// Usage: npm run rebuild:street-graph -- [--jurisdiction=ithaca] (default: every jurisdiction)
+
+const jurisdictionArg = process.argv
+  .slice(2)
+  .map((arg) => /^--jurisdiction=(.+)$/.exec(arg)?.[1])
+  .find((value) => value !== undefined);
+
+const run = async () => {
+  const ids = jurisdictionArg ? [jurisdictionArg] : (await listJurisdictions()).map((j) => j.id);
+  for (const id of ids) {
+    const { streets, edges } = await rebuildStreetGraph(id);
+    console.log(`✅ ${id}: ${edges} edge(s) between ${streets} street(s)`);
+  }
+};
+
+run()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -3,7 +3,43 @@ import { z } from 'zod';
 
 import { requireAdmin } from '../middleware/auth.js';
 import { prisma } from '../prisma.js';
+import {
+  deleteScheduleException,
+  importHolidayCalendar,
+  replaceWeeklyWindows,
+  upsertScheduleException,
+} from '../services/enforcementScheduleService.js';
+import {
+  jurisdictionFromQuery,
+  requireJurisdiction,
+  upsertJurisdiction,
+} from '../services/jurisdictionService.js';
+import {
+  createScraperLane,
+  getScraperOverview,
+  listScraperLanes,
+  pollScraperLaneNow,
+  reactivateScraperLane,
+  resetScraperLaneCursor,
+  retireScraperLane,
+} from '../services/scraperAdminService.js';
+import { getScraperTelemetry } from '../services/scraperTelemetryService.js';
+import {
+  clearStreetGeometryOverride,
+  listNotFoundStreetGeometries,
+  refreshStreetGeometry,
+  setExcludedWays,
+  setStreetGeometryOverride,
+} from '../services/streetGeometryService.js';
+import { addStreetAlias, listStreets, removeStreetAlias } from '../services/streetService.js';
 import { NotFoundError } from '../utils/AppError.js';
+import { isValidIanaTimeZone, isValidLocalDate } from '../utils/timezone.js';
+import {
+  notifyScheduleChanged,
+  pauseScraper,
+  requestDiscovery,
+  resumeScraper,
+} from '../worker/scraperControl.js';
 
 const router = express.Router();
 
@@ -11,6 +47,114 @@ const UpdateRoleSchema = z.object({
   role: z.enum(['ADMIN', 'VIEWER']),
 });
 
+const TelemetryQuerySchema = z.object({
+  hours: z.coerce.number().int().min(1).max(24 * 30).default(24),
+});
+
+const LaneListQuerySchema = z.object({
+  status: z.enum(['active', 'retired']).optional(),
+});
+
+const CreateLaneSchema = z.object({
+  cursorId: z.string().trim().min(1),
+});
+
+const RetireLaneSchema = z.object({
+  reason: z.string().trim().min(1).max(100).default('admin'),
+});
+
+const ReactivateLaneSchema = z.object({
+  cursorId: z.string().trim().min(1).optional(),
+});
+
+const ResetCursorSchema = z.object({
+  cursorId: z.string().trim().min(1),
+});
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const JurisdictionIdSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,39}$/);
+
+const BoundsSchema = z
+  .object({
+    minLat: z.number().min(-90).max(90),
+    maxLat: z.number().min(-90).max(90),
+    minLng: z.number().min(-180).max(180),
+    maxLng: z.number().min(-180).max(180),
+  })
+  .refine((b) => b.minLat < b.maxLat && b.minLng < b.maxLng, {
+    message: 'min must be below max',
+  });
+
+const MinuteOfDaySchema = z.number().int().min(0).max(24 * 60);
+
+const JurisdictionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    portalUrl: z.string().url(),
+    timeZone: z.string().refine(isValidIanaTimeZone, 'Unknown IANA time zone'),
+    geocodeCity: z.string().trim().min(1),
+    geocodeState: z.string().trim().min(1),
+    geocodeCountry: z.string().trim().min(1),
+    ticketIdPattern: z.string().min(1).refine(isValidPattern, 'Invalid regular expression'),
+    seedTicketIds: z.array(z.string().trim().min(1)).nullable().optional(),
+    bounds: BoundsSchema.nullable().optional(),
+    enabled: z.boolean().optional(),
+  });
+
+const isWindowOrdered = (w: { startMinute: number | null; endMinute: number | null }) =>
+  w.startMinute === null || w.endMinute === null || w.startMinute < w.endMinute;
+
+const WeeklyWindowsSchema = z.object({
+  windows: z
+    .array(
+      z
+        .object({
+          weekday: z.number().int().min(0).max(6),
+          startMinute: MinuteOfDaySchema,
+          endMinute: MinuteOfDaySchema,
+        })
+        .refine(isWindowOrdered, { message: 'startMinute must be before endMinute' }),
+    )
+    .max(7 * 4),
+});
+
+const LocalDateSchema = z.string().refine(isValidLocalDate);
+
+const ScheduleExceptionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    /** Omit both (or send null) for a day without enforcement. */
+    startMinute: MinuteOfDaySchema.nullable().default(null),
+    endMinute: MinuteOfDaySchema.nullable().default(null),
+  })
+  .refine((e) => (e.startMinute === null) === (e.endMinute === null), {
+    message: 'startMinute and endMinute must be set together',
+    path: ['endMinute'],
+  })
+  .refine(isWindowOrdered, { message: 'startMinute must be before endMinute', path: ['endMinute'] });
+
+const StreetAliasSchema = z.object({
+  /** Spelling to redirect, e.g. "LINDEN AV" or "ROUTE 366". */
+  alias: z.string().trim().min(1).max(100),
+  /** Canonical street it should resolve to. */
+  street: z.string().trim().min(1).max(100),
+});
+
+const StreetAliasIdSchema = z.coerce.number().int().positive();
+
+const ExcludedWaysSchema = z.object({
+  /** `wayId`s of the stored segments to ignore; [] clears the list. */
+  wayIds: z.array(z.number().int()).max(500),
+});
+
 // Change a user's role by Firebase UID (ADMIN only)
 router.patch('/users/:firebaseUid/role', requireAdmin, async (req, res, next) => {
   try {
@@ -37,4 +181,376 @@ router.patch('/users/:firebaseUid/role', requireAdmin, async (req, res, next) =>
   }
 });
 
+// Create or replace a jurisdiction. Watcher loops pick up new or edited
+// jurisdictions on the next restart.
+router.put('/jurisdictions/:id', requireAdmin, async (req, res, next) => {
+  try {
+    const id = JurisdictionIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'id must be a lowercase slug (a-z, 0-9, -)' });
+    }
+    const parsed = JurisdictionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid jurisdiction', issues: parsed.error.issues });
+    }
+
+    const jurisdiction = await upsertJurisdiction(id.data, parsed.data);
+    return res.json({ jurisdiction });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Enforcement schedule (ADMIN only). The watcher consults it on every loop
+// iteration; edits wake a sleeping loop so they apply immediately.
+// ---------------------------------------------------------------------------
+
+// Replace the weekly windows (local weekday + minutes after midnight)
+router.put('/jurisdictions/:id/enforcement/windows', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = WeeklyWindowsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid enforcement windows', issues: parsed.error.issues });
+    }
+
+    const { id } = await requireJurisdiction(req.params.id);
+    const windows = await replaceWeeklyWindows(id, parsed.data.windows);
+    notifyScheduleChanged(id);
+    return res.json({ windows });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Holiday (no hours) or special hours on one local date
+router.put('/jurisdictions/:id/enforcement/exceptions/:date', requireAdmin, async (req, res, next) => {
+  try {
+    const date = LocalDateSchema.safeParse(req.params.date);
+    if (!date.success) {
+      return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+    }
+    const parsed = ScheduleExceptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid schedule exception', issues: parsed.error.issues });
+    }
+
+    const { id } = await requireJurisdiction(req.params.id);
+    const exception = await upsertScheduleException(id, date.data, parsed.data);
+    notifyScheduleChanged(id);
+    return res.json({ exception });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.delete('/jurisdictions/:id/enforcement/exceptions/:date', requireAdmin, async (req, res, next) => {
+  try {
+    const { id } = await requireJurisdiction(req.params.id);
+    const deleted = await deleteScheduleException(id, req.params.date);
+    if (!deleted) {
+      throw new NotFoundError('No schedule exception on this date');
+    }
+
+    notifyScheduleChanged(id);
+    return res.json({ message: 'Schedule exception removed' });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Import holidays from an iCal file (body: text/calendar). `?replace=true` drops earlier imports first.
+router.post(
+  '/jurisdictions/:id/enforcement/holidays',
+  requireAdmin,
+  express.text({ type: ['text/calendar', 'text/plain'], limit: '1mb' }),
+  async (req, res, next) => {
+    try {
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        return res.status(400).json({ error: 'Send the .ics file as the text/calendar request body' });
+      }
+
+      const { id } = await requireJurisdiction(req.params.id);
+      const result = await importHolidayCalendar(id, req.body, {
+        replace: req.query.replace === 'true',
+      });
+      notifyScheduleChanged(id);
+      return res.json(result);
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// Canonical streets and aliases (ADMIN only). Every route takes an optional
+// `?jurisdiction=`. Adding an alias merges the aliased street's tickets into
+// the target; run `npm run backfill:streets` to split them again after removing one.
+// ---------------------------------------------------------------------------
+
+router.get('/streets', requireAdmin, async (req, res, next) => {
+  try {
+    return res.json({ streets: await listStreets(await jurisdictionFromQuery(req.query)) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.post('/streets/aliases', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = StreetAliasSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Body must include alias and street' });
+    }
+
+    const alias = await addStreetAlias(
+      await jurisdictionFromQuery(req.query),
+      parsed.data.alias,
+      parsed.data.street,
+    );
+    return res.status(201).json({ alias });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.delete('/streets/aliases/:id', requireAdmin, async (req, res, next) => {
+  try {
+    const id = StreetAliasIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Alias id must be a positive integer' });
+    }
+
+    const deleted = await removeStreetAlias(await jurisdictionFromQuery(req.query), id.data);
+    if (!deleted) {
+      throw new NotFoundError('Street alias not found');
+    }
+    return res.json({ message: 'Street alias removed' });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Street geometry repair (ADMIN only, optional `?jurisdiction=`). Stored geometry is
+// re-fetched on a TTL; these force a re-fetch, replace a bad match with hand-drawn
+// GeoJSON, or drop the wrong ways from it. Each change re-derives the street's graph edges.
+// ---------------------------------------------------------------------------
+
+router.get('/streets/geometry/not-found', requireAdmin, async (req, res, next) => {
+  try {
+    return res.json(await listNotFoundStreetGeometries(await jurisdictionFromQuery(req.query)));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.post('/streets/:street/geometry/refresh', requireAdmin, async (req, res, next) => {
+  try {
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    return res.json(await refreshStreetGeometry(jurisdictionId, req.params.street));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Body: a GeoJSON FeatureCollection, Feature, LineString or MultiLineString. The app-wide 10kb
+// parser skips this path (see server.ts) so drawn geometry is only parsed for admins.
+router.put(
+  '/streets/:street/geometry/override',
+  requireAdmin,
+  express.json({ limit: '512kb' }),
+  async (req, res, next) => {
+    try {
+      const jurisdictionId = await jurisdictionFromQuery(req.query);
+      return res.json(await setStreetGeometryOverride(jurisdictionId, req.params.street, req.body));
+    } catch (err) {
+      return next(err);
+    }
+  },
+);
+
+router.delete('/streets/:street/geometry/override', requireAdmin, async (req, res, next) => {
+  try {
+    const cleared = await clearStreetGeometryOverride(
+      await jurisdictionFromQuery(req.query),
+      req.params.street,
+    );
+    if (!cleared) {
+      throw new NotFoundError('No geometry override for this street');
+    }
+    return res.json({ message: 'Geometry override removed' });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.put('/streets/:street/geometry/excluded-ways', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = ExcludedWaysSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Body must include wayIds (an array of integers)' });
+    }
+
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    return res.json(await setExcludedWays(jurisdictionId, req.params.street, parsed.data.wayIds));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Scraper control plane (ADMIN only). Changes reach the running watcher loop
+// through `worker/scraperControl.ts` — no restart needed. Every route takes an
+// optional `?jurisdiction=` selecting which loop it targets.
+// ---------------------------------------------------------------------------
+
+router.get('/scraper', requireAdmin, async (req, res, next) => {
+  try {
+    return res.json(await getScraperOverview(await jurisdictionFromQuery(req.query)));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.post('/scraper/pause', requireAdmin, async (req, res, next) => {
+  try {
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    await pauseScraper(jurisdictionId);
+    return res.json(await getScraperOverview(jurisdictionId));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.post('/scraper/resume', requireAdmin, async (req, res, next) => {
+  try {
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    await resumeScraper(jurisdictionId);
+    return res.json(await getScraperOverview(jurisdictionId));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Run a discovery sweep as soon as the loop is free (even outside active hours)
+router.post('/scraper/discovery', requireAdmin, async (req, res, next) => {
+  try {
+    requestDiscovery(await jurisdictionFromQuery(req.query));
+    return res.status(202).json({ message: 'Discovery sweep requested' });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Probe aggregates: hit rate per lane, CAPTCHA solves/hour, 2Captcha spend, time-to-detect
+router.get('/scraper/telemetry', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = TelemetryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'hours must be an integer from 1 to 720' });
+    }
+
+    const until = new Date();
+    const since = new Date(until.getTime() - parsed.data.hours * 60 * 60 * 1000);
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    return res.json(await getScraperTelemetry({ jurisdictionId, since, until }));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.get('/scraper/lanes', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = LaneListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'status must be active | retired' });
+    }
+
+    const lanes = await listScraperLanes(await jurisdictionFromQuery(req.query), parsed.data.status);
+    return res.json({ lanes });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Open a lane for the block containing cursorId, polling from that ID
+router.post('/scraper/lanes', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = CreateLaneSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Body must include cursorId' });
+    }
+
+    const lane = await createScraperLane(await jurisdictionFromQuery(req.query), parsed.data.cursorId);
+    return res.status(201).json({ lane });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.post('/scraper/lanes/:blockStartId/retire', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = RetireLaneSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'reason must be a non-empty string' });
+    }
+
+    const lane = await retireScraperLane(
+      await jurisdictionFromQuery(req.query),
+      req.params.blockStartId,
+      parsed.data.reason,
+    );
+    return res.json({ lane });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.post('/scraper/lanes/:blockStartId/reactivate', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = ReactivateLaneSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'cursorId must be a non-empty string' });
+    }
+
+    const lane = await reactivateScraperLane(
+      await jurisdictionFromQuery(req.query),
+      req.params.blockStartId,
+      parsed.data.cursorId,
+    );
+    return res.json({ lane });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.post('/scraper/lanes/:blockStartId/cursor', requireAdmin, async (req, res, next) => {
+  try {
+    const parsed = ResetCursorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Body must include cursorId' });
+    }
+
+    const lane = await resetScraperLaneCursor(
+      await jurisdictionFromQuery(req.query),
+      req.params.blockStartId,
+      parsed.data.cursorId,
+    );
+    return res.json({ lane });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Make a lane due immediately (force-poll)
+router.post('/scraper/lanes/:blockStartId/poll', requireAdmin, async (req, res, next) => {
+  try {
+    const lane = await pollScraperLaneNow(await jurisdictionFromQuery(req.query), req.params.blockStartId);
+    return res.json({ lane });
+  } catch (err) {
+    return next(err);
+  }
+});
+
 export default router;
@@ -0,0 +1,75 @@
+import express from 'express';
+import { z } from 'zod';
+
+import {
+  ACTIVE_DEFAULT_WINDOW_MINUTES,
+  ACTIVE_MAX_WINDOW_MINUTES,
+  getActiveEnforcement,
+  getOfficerRoutes,
+} from '../services/enforcementRouteService.js';
+import { jurisdictionFromQuery } from '../services/jurisdictionService.js';
+import { isValidLocalDate } from '../utils/timezone.js';
+
+const router = express.Router();
+
+// Every route takes an optional `?jurisdiction=` (default: the default jurisdiction).
+
+const issuesOf = (error: z.ZodError) =>
+  error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+
+const RoutesQuerySchema = z.object({
+  date: z.string().refine(isValidLocalDate, 'date must be YYYY-MM-DD').optional(),
+});
+
+/** `lat` and `lng` together or not at all. */
+const ActiveQuerySchema = z
+  .object({
+    withinMinutes: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(ACTIVE_MAX_WINDOW_MINUTES)
+      .default(ACTIVE_DEFAULT_WINDOW_MINUTES),
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+  })
+  .refine((q) => (q.lat === undefined) === (q.lng === undefined), {
+    path: ['lat'],
+    message: 'Provide both lat and lng, or neither',
+  });
+
+// Each device's patrol path for a jurisdiction-local day, from its ticket block in issue order
+router.get('/routes', async (req, res, next) => {
+  try {
+    const parsed = RoutesQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid query parameters', issues: issuesOf(parsed.error) });
+    }
+
+    const routes = await getOfficerRoutes(await jurisdictionFromQuery(req.query), { date: parsed.data.date });
+    return res.json(routes);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Devices ticketing right now, with heading; `?lat&lng` adds distance and "moving toward you"
+router.get('/active', async (req, res, next) => {
+  try {
+    const parsed = ActiveQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid query parameters', issues: issuesOf(parsed.error) });
+    }
+
+    const { withinMinutes, lat, lng } = parsed.data;
+    const active = await getActiveEnforcement(await jurisdictionFromQuery(req.query), {
+      withinMinutes,
+      position: lat !== undefined && lng !== undefined ? { lat, lng } : undefined,
+    });
+    return res.json(active);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+export default router;
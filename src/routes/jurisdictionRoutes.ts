@@ -0,0 +1,35 @@
+import express from 'express';
+
+import { getEnforcementStatus } from '../services/enforcementScheduleService.js';
+import { listJurisdictions, requireJurisdiction } from '../services/jurisdictionService.js';
+
+const router = express.Router();
+
+// Jurisdictions the app covers; pass an `id` as `jurisdiction` to scope other endpoints
+router.get('/', async (_req, res, next) => {
+  try {
+    const jurisdictions = (await listJurisdictions({ enabledOnly: true })).map((j) => ({
+      id: j.id,
+      name: j.name,
+      timeZone: j.timeZone,
+      geocodeCity: j.geocodeCity,
+      geocodeState: j.geocodeState,
+      geocodeCountry: j.geocodeCountry,
+    }));
+    return res.json({ jurisdictions });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Enforcement schedule and whether it is active now / at all today (holidays, special hours)
+router.get('/:id/enforcement', async (req, res, next) => {
+  try {
+    const jurisdiction = await requireJurisdiction(req.params.id);
+    return res.json(await getEnforcementStatus(jurisdiction));
+  } catch (err) {
+    return next(err);
+  }
+});
+
+export default router;
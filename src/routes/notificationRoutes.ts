@@ -2,16 +2,96 @@ import express from 'express';
 import { z } from 'zod';
 
 import { prisma } from '../prisma.js';
-import { enrollForStreet, unenrollFromStreet } from '../services/notificationService.js';
+import { resolveJurisdictionId } from '../services/jurisdictionService.js';
+import {
+  GEOFENCE_MAX_RADIUS_M,
+  GEOFENCE_MIN_RADIUS_M,
+  activeWindowIssues,
+  deleteEnrollment,
+  enrollForGeofence,
+  enrollForStreet,
+  unenrollFromStreet,
+  updateEnrollmentPreferences,
+} from '../services/notificationService.js';
+import type { EnrollmentPreferences } from '../services/notificationService.js';
+import { NotFoundError } from '../utils/AppError.js';
+import { isValidIanaTimeZone } from '../utils/timezone.js';
 
 const router = express.Router();
 
-const EnrollSchema = z.object({
-  fcmToken: z.string().min(1),
-  streetLocation: z.string().min(1),
+const MAX_EXPIRES_IN_MINUTES = 7 * 24 * 60;
+
+/** Optional per-enrollment delivery settings accepted by both enroll routes and PATCH. */
+const PreferenceFieldsSchema = z.object({
+  cooldownMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  timeZone: z
+    .string()
+    .trim()
+    .refine(isValidIanaTimeZone, 'must be a valid IANA time zone name (e.g. America/New_York)')
+    .nullable()
+    .optional(),
+  activeWeekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7).nullable().optional(),
+  activeStartHour: z.number().int().min(0).max(23).nullable().optional(),
+  activeEndHour: z.number().int().min(1).max(24).nullable().optional(),
+  /** Minutes from now until the enrollment is removed; null = never expires. */
+  expiresInMinutes: z.number().int().min(1).max(MAX_EXPIRES_IN_MINUTES).nullable().optional(),
+  approachAlerts: z.boolean().optional(),
+  approachCooldownMinutes: z.number().int().min(0).max(24 * 60).optional(),
 });
 
+type PreferenceFields = z.infer<typeof PreferenceFieldsSchema>;
+
+/** Enroll bodies carry the whole window, so it's checked as given. */
+const checkPreferences = (prefs: PreferenceFields, ctx: z.RefinementCtx) => {
+  for (const issue of activeWindowIssues(prefs)) {
+    ctx.addIssue({ code: 'custom', path: [issue.path], message: issue.message });
+  }
+};
+
+const toPreferences = (prefs: PreferenceFields): EnrollmentPreferences => {
+  const { expiresInMinutes, activeWeekdays, ...rest } = prefs;
+  return {
+    ...rest,
+    ...(activeWeekdays !== undefined
+      ? { activeWeekdays: activeWeekdays && [...new Set(activeWeekdays)].sort((a, b) => a - b) }
+      : {}),
+    ...(expiresInMinutes !== undefined
+      ? {
+          expiresAt:
+            expiresInMinutes === null ? null : new Date(Date.now() + expiresInMinutes * 60_000),
+        }
+      : {}),
+  };
+};
+
+const issuesOf = (error: z.ZodError) =>
+  error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+
+const EnrollSchema = z
+  .object({
+    fcmToken: z.string().min(1),
+    jurisdiction: z.string().trim().min(1).optional(),
+    streetLocation: z.string().min(1),
+    ...PreferenceFieldsSchema.shape,
+  })
+  .superRefine(checkPreferences);
+
+const GeofenceEnrollSchema = z
+  .object({
+    fcmToken: z.string().min(1),
+    jurisdiction: z.string().trim().min(1).optional(),
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    radiusM: z.number().int().min(GEOFENCE_MIN_RADIUS_M).max(GEOFENCE_MAX_RADIUS_M),
+    label: z.string().trim().min(1).max(100).optional(),
+    ...PreferenceFieldsSchema.shape,
+  })
+  .superRefine(checkPreferences);
+
+const EnrollmentIdSchema = z.coerce.number().int().positive();
+
 const UnenrollSchema = z.object({
+  jurisdiction: z.string().trim().min(1).optional(),
   streetLocation: z.string().min(1),
   /** If set, removes only this device’s enrollment for the street; otherwise all devices for that street. */
   fcmToken: z.string().min(1).optional(),
@@ -22,12 +102,16 @@ router.post('/enroll', async (req, res, next) => {
   try {
     const parsed = EnrollSchema.safeParse(req.body);
     if (!parsed.success) {
-      return res.status(400).json({ error: 'fcmToken and streetLocation are required' });
+      return res.status(400).json({
+        error: 'fcmToken and streetLocation are required',
+        issues: issuesOf(parsed.error),
+      });
     }
 
     const userId = req.user!.id;
-    const { fcmToken, streetLocation } = parsed.data;
-    await enrollForStreet(userId, fcmToken, streetLocation);
+    const { fcmToken, jurisdiction, streetLocation, ...prefs } = parsed.data;
+    const jurisdictionId = await resolveJurisdictionId(jurisdiction);
+    await enrollForStreet(userId, fcmToken, jurisdictionId, streetLocation, toPreferences(prefs));
 
     return res.status(200).json({ message: `Enrolled for notifications on "${streetLocation}"` });
   } catch (err) {
@@ -35,6 +119,32 @@ router.post('/enroll', async (req, res, next) => {
   }
 });
 
+// Enroll current user's device for tickets within a radius of a point
+router.post('/enroll/geofence', async (req, res, next) => {
+  try {
+    const parsed = GeofenceEnrollSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: `fcmToken, lat, lng and radiusM (${GEOFENCE_MIN_RADIUS_M}-${GEOFENCE_MAX_RADIUS_M} m) are required`,
+        issues: issuesOf(parsed.error),
+      });
+    }
+
+    const userId = req.user!.id;
+    const { fcmToken, jurisdiction, lat, lng, radiusM, label, ...prefs } = parsed.data;
+    const jurisdictionId = await resolveJurisdictionId(jurisdiction);
+    const geofence = { jurisdictionId, lat, lng, radiusM, label };
+    const id = await enrollForGeofence(userId, fcmToken, geofence, toPreferences(prefs));
+
+    return res.status(200).json({
+      id,
+      message: `Enrolled for notifications within ${geofence.radiusM} m of ${geofence.lat}, ${geofence.lng}`,
+    });
+  } catch (err) {
+    return next(err);
+  }
+});
+
 // Notification history for the authenticated user
 router.get('/history', async (req, res, next) => {
   try {
@@ -43,7 +153,7 @@ router.get('/history', async (req, res, next) => {
     const notifications = await prisma.notification.findMany({
       where: { userId },
       orderBy: { sentAt: 'desc' },
-      select: { id: true, title: true, body: true, streetLocation: true, ticketId: true, sentAt: true },
+      select: { id: true, title: true, body: true, streetLocation: true, ticketId: true, kind: true, sentAt: true },
     });
 
     return res.json({ userId, notifications });
@@ -52,7 +162,7 @@ router.get('/history', async (req, res, next) => {
   }
 });
 
-// Street enrollments for the authenticated user
+// Street and geofence enrollments for the authenticated user
 router.get('/enrollments', async (req, res, next) => {
   try {
     const userId = req.user!.id;
@@ -61,17 +171,33 @@ router.get('/enrollments', async (req, res, next) => {
       where: { userId },
       select: {
         id: true,
+        jurisdictionId: true,
         streetLocation: true,
+        lat: true,
+        lng: true,
+        radiusM: true,
+        label: true,
         createdAt: true,
         fcmToken: true,
+        cooldownMinutes: true,
+        timeZone: true,
+        activeWeekdays: true,
+        activeStartHour: true,
+        activeEndHour: true,
+        expiresAt: true,
+        lastNotifiedAt: true,
+        approachAlerts: true,
+        approachCooldownMinutes: true,
+        lastApproachNotifiedAt: true,
       },
       orderBy: { createdAt: 'desc' },
     });
 
-    const masked = enrollments.map(({ id, streetLocation, createdAt, fcmToken }) => ({
-      id,
-      streetLocation,
-      createdAt,
+    const masked = enrollments.map(({ fcmToken, streetLocation, lat, lng, radiusM, label, ...rest }) => ({
+      ...rest,
+      ...(streetLocation !== null
+        ? { kind: 'street' as const, streetLocation }
+        : { kind: 'geofence' as const, lat, lng, radiusM, label }),
       fcmTokenSuffix: fcmToken.length > 8 ? fcmToken.slice(-8) : fcmToken,
     }));
 
@@ -90,8 +216,9 @@ router.post('/unenroll', async (req, res, next) => {
     }
 
     const userId = req.user!.id;
-    const { streetLocation, fcmToken } = parsed.data;
-    await unenrollFromStreet(userId, streetLocation, fcmToken);
+    const { jurisdiction, streetLocation, fcmToken } = parsed.data;
+    const jurisdictionId = await resolveJurisdictionId(jurisdiction);
+    await unenrollFromStreet(userId, jurisdictionId, streetLocation, fcmToken);
 
     return res.status(200).json({ message: `Unenrolled from notifications on "${streetLocation}"` });
   } catch (err) {
@@ -99,4 +226,50 @@ router.post('/unenroll', async (req, res, next) => {
   }
 });
 
+// Update cooldown / active window / expiry of one enrollment
+router.patch('/enrollments/:id', async (req, res, next) => {
+  try {
+    const id = EnrollmentIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Enrollment id must be a positive integer' });
+    }
+    // Partial body: the window is checked against the stored settings in updateEnrollmentPreferences
+    const parsed = PreferenceFieldsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid enrollment preferences',
+        issues: issuesOf(parsed.error),
+      });
+    }
+
+    const updated = await updateEnrollmentPreferences(req.user!.id, id.data, toPreferences(parsed.data));
+    if (!updated) {
+      throw new NotFoundError('Enrollment not found');
+    }
+
+    return res.status(200).json({ message: 'Enrollment updated' });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Remove one enrollment (street or geofence) by id
+router.delete('/enrollments/:id', async (req, res, next) => {
+  try {
+    const parsed = EnrollmentIdSchema.safeParse(req.params.id);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Enrollment id must be a positive integer' });
+    }
+
+    const deleted = await deleteEnrollment(req.user!.id, parsed.data);
+    if (!deleted) {
+      throw new NotFoundError('Enrollment not found');
+    }
+
+    return res.status(200).json({ message: 'Enrollment removed' });
+  } catch (err) {
+    return next(err);
+  }
+});
+
 export default router;
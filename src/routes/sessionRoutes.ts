@@ -0,0 +1,219 @@
+import express from 'express';
+import { z } from 'zod';
+
+import { resolveJurisdictionId } from '../services/jurisdictionService.js';
+import {
+  SESSION_HISTORY_DEFAULT_LIMIT,
+  SESSION_HISTORY_MAX_LIMIT,
+  SESSION_MAX_DURATION_MINUTES,
+  SESSION_MAX_RADIUS_M,
+  SESSION_MIN_RADIUS_M,
+  endParkingSession,
+  getParkingSession,
+  listOpenParkingSessions,
+  listParkingSessions,
+  startParkingSession,
+  updateParkingSession,
+} from '../services/parkingSessionService.js';
+import { NotFoundError } from '../utils/AppError.js';
+
+const router = express.Router();
+
+const MAX_REMINDER_MINUTES = 120;
+
+/** `expectedEndAt` (ISO) or `durationMinutes` from now — exactly one. */
+const endTimeFields = {
+  expectedEndAt: z.iso.datetime({ offset: true }).optional(),
+  durationMinutes: z.number().int().min(1).max(SESSION_MAX_DURATION_MINUTES).optional(),
+  reminderMinutes: z.number().int().min(0).max(MAX_REMINDER_MINUTES).optional(),
+};
+
+const resolveEndTime = (fields: { expectedEndAt?: string; durationMinutes?: number }) =>
+  fields.durationMinutes !== undefined
+    ? new Date(Date.now() + fields.durationMinutes * 60_000)
+    : fields.expectedEndAt !== undefined
+      ? new Date(fields.expectedEndAt)
+      : undefined;
+
+const checkEndTime = (
+  fields: { expectedEndAt?: string; durationMinutes?: number },
+  ctx: z.RefinementCtx,
+  required: boolean,
+) => {
+  const given = [fields.expectedEndAt, fields.durationMinutes].filter((v) => v !== undefined);
+  if (given.length > 1 || (required && given.length === 0)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['expectedEndAt'],
+      message: 'Provide exactly one of expectedEndAt or durationMinutes',
+    });
+    return;
+  }
+  if (fields.expectedEndAt !== undefined) {
+    const msFromNow = new Date(fields.expectedEndAt).getTime() - Date.now();
+    if (msFromNow <= 0 || msFromNow > SESSION_MAX_DURATION_MINUTES * 60_000) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['expectedEndAt'],
+        message: `expectedEndAt must be in the future and within ${SESSION_MAX_DURATION_MINUTES / 60} hours`,
+      });
+    }
+  }
+};
+
+const StartSessionSchema = z
+  .object({
+    fcmToken: z.string().min(1),
+    jurisdiction: z.string().trim().min(1).optional(),
+    streetLocation: z.string().trim().min(1).optional(),
+    lat: z.number().min(-90).max(90).optional(),
+    lng: z.number().min(-180).max(180).optional(),
+    radiusM: z.number().int().min(SESSION_MIN_RADIUS_M).max(SESSION_MAX_RADIUS_M).optional(),
+    ...endTimeFields,
+  })
+  .superRefine((body, ctx) => {
+    if ((body.lat === undefined) !== (body.lng === undefined)) {
+      ctx.addIssue({ code: 'custom', path: ['lat'], message: 'lat and lng must be provided together' });
+    }
+    if (body.streetLocation === undefined && body.lat === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['streetLocation'],
+        message: 'Provide streetLocation and/or lat/lng',
+      });
+    }
+    checkEndTime(body, ctx, true);
+  });
+
+const UpdateSessionSchema = z
+  .object(endTimeFields)
+  .superRefine((body, ctx) => checkEndTime(body, ctx, false));
+
+const HistoryQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(SESSION_HISTORY_MAX_LIMIT)
+    .default(SESSION_HISTORY_DEFAULT_LIMIT),
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+const SessionIdSchema = z.coerce.number().int().positive();
+
+const issuesOf = (error: z.ZodError) =>
+  error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+
+// Start a parking session ("I parked here")
+router.post('/', async (req, res, next) => {
+  try {
+    const parsed = StartSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid parking session', issues: issuesOf(parsed.error) });
+    }
+
+    const { jurisdiction, expectedEndAt, durationMinutes, ...rest } = parsed.data;
+    const session = await startParkingSession(req.user!.id, {
+      ...rest,
+      jurisdictionId: await resolveJurisdictionId(jurisdiction),
+      expectedEndAt: resolveEndTime({ expectedEndAt, durationMinutes })!,
+    });
+
+    return res.status(201).json({ session });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Open sessions for the authenticated user
+router.get('/active', async (req, res, next) => {
+  try {
+    const sessions = await listOpenParkingSessions(req.user!.id);
+    return res.json({ sessions });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Session history for the authenticated user, newest first
+router.get('/', async (req, res, next) => {
+  try {
+    const parsed = HistoryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid query parameters', issues: issuesOf(parsed.error) });
+    }
+
+    const page = await listParkingSessions(req.user!.id, {
+      limit: parsed.data.limit,
+      beforeId: parsed.data.cursor,
+    });
+    return res.json(page);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+router.get('/:id', async (req, res, next) => {
+  try {
+    const id = SessionIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Session id must be a positive integer' });
+    }
+
+    const session = await getParkingSession(req.user!.id, id.data);
+    if (!session) {
+      throw new NotFoundError('Parking session not found');
+    }
+    return res.json({ session });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Extend an open session or change its reminder lead time
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const id = SessionIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Session id must be a positive integer' });
+    }
+    const parsed = UpdateSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid parking session update', issues: issuesOf(parsed.error) });
+    }
+
+    const expectedEndAt = resolveEndTime(parsed.data);
+    const session = await updateParkingSession(req.user!.id, id.data, {
+      ...(expectedEndAt ? { expectedEndAt } : {}),
+      ...(parsed.data.reminderMinutes !== undefined
+        ? { reminderMinutes: parsed.data.reminderMinutes }
+        : {}),
+    });
+    if (!session) {
+      throw new NotFoundError('Open parking session not found');
+    }
+    return res.json({ session });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// End a session early (left the spot)
+router.post('/:id/end', async (req, res, next) => {
+  try {
+    const id = SessionIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Session id must be a positive integer' });
+    }
+
+    const session = await endParkingSession(req.user!.id, id.data);
+    if (!session) {
+      throw new NotFoundError('Open parking session not found');
+    }
+    return res.json({ session });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+export default router;
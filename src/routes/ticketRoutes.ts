@@ -1,24 +1,202 @@
+import type { Ticket } from '@prisma/client';
 import express from 'express';
+import { z } from 'zod';
 
+import {
+  onTicketEventsShutdown,
+  subscribeToLocatedTickets,
+  subscribeWithReplay,
+} from '../events/ticketEvents.js';
 import { prisma } from '../prisma.js';
+import {
+  FORECAST_DEFAULT_HOURS,
+  FORECAST_MAX_HOURS,
+  forecastArea,
+  forecastStreet,
+} from '../services/enforcementForecastService.js';
+import {
+  assertTicketPhotoAccess,
+  listTicketPhotos,
+  readTicketPhoto,
+} from '../services/evidencePhotoService.js';
+import { jurisdictionFromQuery } from '../services/jurisdictionService.js';
+import { buildTicketHeatmap, findTicketsNearby } from '../services/ticketGeoService.js';
 import { getAreaOverview, getStreetInsights } from '../services/ticketInsightsService.js';
+import {
+  STREAM_REPLAY_LIMIT,
+  TICKET_NEIGHBOR_DEFAULT_WINDOW_MINUTES,
+  TICKET_NEIGHBOR_MAX_WINDOW_MINUTES,
+  TICKET_PAGE_DEFAULT_LIMIT,
+  TICKET_PAGE_MAX_LIMIT,
+  getTicketDetail,
+  listTickets,
+} from '../services/ticketService.js';
+import { getStreetResolutionStats } from '../services/ticketStatusService.js';
+import {
+  NEIGHBOR_ACTIVITY_DEFAULT_HOURS,
+  NEIGHBOR_ACTIVITY_MAX_HOURS,
+  getStreetNeighbors,
+} from '../services/streetAdjacencyService.js';
 import { getStreetGeometryResponse } from '../services/streetGeometryService.js';
+import { canonicalStreetName, findStreet } from '../services/streetService.js';
 import { BadRequestError, NotFoundError } from '../utils/AppError.js';
+import { blockOf, normalizeStreetName } from '../utils/streetName.js';
 import { isValidIanaTimeZone } from '../utils/timezone.js';
 
 const router = express.Router();
 
+// Every route takes an optional `?jurisdiction=` (default: the default jurisdiction).
+
+/** Parses `req.query` with `schema`, turning validation failures into a 400 with per-field issues. */
+const parseQuery = <T extends z.ZodType>(schema: T, query: unknown): z.output<T> => {
+  const parsed = schema.safeParse(query);
+  if (!parsed.success) {
+    throw new BadRequestError('Invalid query parameters', {
+      issues: parsed.error.issues.map((i) => ({ path: i.path.join('.'), message: i.message })),
+    });
+  }
+  return parsed.data;
+};
+
+const TicketListQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(TICKET_PAGE_MAX_LIMIT)
+      .default(TICKET_PAGE_DEFAULT_LIMIT),
+    cursor: z.string().min(1).optional(),
+    since: z.coerce.date().optional(),
+    until: z.coerce.date().optional(),
+    street: z.string().trim().min(1).optional(),
+    streetMatch: z.enum(['exact', 'prefix']).default('exact'),
+    minLat: z.coerce.number().min(-90).max(90).optional(),
+    maxLat: z.coerce.number().min(-90).max(90).optional(),
+    minLng: z.coerce.number().min(-180).max(180).optional(),
+    maxLng: z.coerce.number().min(-180).max(180).optional(),
+    plateState: z
+      .string()
+      .trim()
+      .min(1)
+      .transform((s) => s.toUpperCase())
+      .optional(),
+    hasCoordinates: z
+      .enum(['true', 'false'])
+      .transform((v) => v === 'true')
+      .optional(),
+  })
+  .refine(
+    (q) => {
+      const given = [q.minLat, q.maxLat, q.minLng, q.maxLng].filter((v) => v !== undefined);
+      return given.length === 0 || given.length === 4;
+    },
+    { message: 'Bounding box needs all of minLat, maxLat, minLng, maxLng' },
+  )
+  .refine((q) => !q.since || !q.until || q.since < q.until, {
+    path: ['since'],
+    message: 'since must be before until',
+  })
+  .refine(
+    (q) =>
+      q.minLat === undefined ||
+      q.maxLat === undefined ||
+      q.minLng === undefined ||
+      q.maxLng === undefined ||
+      (q.minLat <= q.maxLat && q.minLng <= q.maxLng),
+    { path: ['minLat'], message: 'Bounding box minimums must not exceed its maximums' },
+  );
+
+/** Zone for weekday / hour-of-day patterns; the services default to the jurisdiction's. */
+const TimeZoneQuerySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .refine(isValidIanaTimeZone, 'Must be a valid IANA time zone name (e.g. America/New_York)')
+  .optional();
+
+const StreetInsightsQuerySchema = z.object({
+  tz: TimeZoneQuerySchema,
+  /** Any house number on the block (215 and 200 both select the 200 block). */
+  block: z.coerce.number().int().min(0).max(99_999).transform(blockOf).optional(),
+});
+
+const RecentQuerySchema = z.object({
+  hours: z.coerce.number().min(1).max(7 * 24).default(24),
+});
+
+const NearbyQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radiusM: z.coerce.number().min(10).max(5000).default(500),
+  hours: z.coerce.number().min(1).max(30 * 24).default(24),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+const TicketDetailQuerySchema = z.object({
+  /** Neighbouring tickets of the same block issued within ± this many minutes. */
+  windowMinutes: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(TICKET_NEIGHBOR_MAX_WINDOW_MINUTES)
+    .default(TICKET_NEIGHBOR_DEFAULT_WINDOW_MINUTES),
+});
+
+const PhotoParamsSchema = z.object({
+  ticketId: z.string().trim().min(1),
+  position: z.coerce.number().int().min(0),
+});
+
+const ForecastQuerySchema = z.object({
+  tz: TimeZoneQuerySchema,
+  hours: z.coerce.number().int().min(1).max(FORECAST_MAX_HOURS).default(FORECAST_DEFAULT_HOURS),
+});
+
+const ResolutionQuerySchema = z.object({
+  lookbackDays: z.coerce.number().int().min(1).max(365).default(90),
+});
+
+const NeighborsQuerySchema = z.object({
+  lookbackHours: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(NEIGHBOR_ACTIVITY_MAX_HOURS)
+    .default(NEIGHBOR_ACTIVITY_DEFAULT_HOURS),
+});
+
+const HeatmapQuerySchema = z.object({
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  /** Used when `since` is omitted: window = last `hours` before `until`. */
+  hours: z.coerce.number().min(1).max(90 * 24).default(7 * 24),
+  precision: z.coerce.number().int().min(5).max(8).default(7),
+});
+
 // Area-wide stats (Stitch: map "Area Insights" card)
-router.get('/insights/overview', async (_req, res, next) => {
+router.get('/insights/overview', async (req, res, next) => {
   try {
-    const overview = await getAreaOverview();
+    const overview = await getAreaOverview(await jurisdictionFromQuery(req.query));
     return res.json(overview);
   } catch (err) {
     return next(err);
   }
 });
 
-// Per-street analytics (Stitch: Street Insights screen) — register before /street/:streetName
+// Chance of a ticket anywhere in the next `hours`, plus the most likely streets
+router.get('/forecast', async (req, res, next) => {
+  try {
+    const { tz, hours } = parseQuery(ForecastQuerySchema, req.query);
+    const forecast = await forecastArea(await jurisdictionFromQuery(req.query), { timeZone: tz, hours });
+    return res.json(forecast);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Per-street analytics (Stitch: Street Insights screen) — register before /street/:streetName.
+// `?block=` narrows the counts to one hundred block; `blocks` always breaks the street down.
 router.get('/street/:streetName/insights', async (req, res, next) => {
   try {
     const { streetName } = req.params;
@@ -26,21 +204,80 @@ router.get('/street/:streetName/insights', async (req, res, next) => {
       return res.status(400).json({ error: 'Street name is required' });
     }
 
-    const tzRaw = req.query['tz'];
-    const timeZone =
-      typeof tzRaw === 'string' && tzRaw.trim() !== '' ? tzRaw.trim() : 'UTC';
-    if (!isValidIanaTimeZone(timeZone)) {
-      throw new BadRequestError(
-        'Invalid tz: must be a valid IANA time zone name (e.g. America/New_York).',
+    const { tz, block } = parseQuery(StreetInsightsQuerySchema, req.query);
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    const insights = await getStreetInsights(jurisdictionId, streetName, {
+      timeZone: tz,
+      blockNumber: block,
+    });
+    if (!insights) {
+      throw new NotFoundError(
+        block === undefined ? 'No tickets found for this street' : 'No tickets found for this block',
       );
     }
 
-    const insights = await getStreetInsights(streetName, { timeZone });
-    if (!insights) {
+    return res.json(insights);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Chance of a ticket on the street in each of the next `hours` hours
+router.get('/street/:streetName/forecast', async (req, res, next) => {
+  try {
+    const { streetName } = req.params;
+    if (!streetName?.trim()) {
+      return res.status(400).json({ error: 'Street name is required' });
+    }
+
+    const { tz, hours } = parseQuery(ForecastQuerySchema, req.query);
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    const forecast = await forecastStreet(jurisdictionId, streetName, { timeZone: tz, hours });
+    if (!forecast) {
       throw new NotFoundError('No tickets found for this street');
     }
+    return res.json(forecast);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Time from issue to payment / dismissal / closure, from the status re-check history
+router.get('/street/:streetName/resolution', async (req, res, next) => {
+  try {
+    const { streetName } = req.params;
+    if (!streetName?.trim()) {
+      return res.status(400).json({ error: 'Street name is required' });
+    }
 
-    return res.json(insights);
+    const { lookbackDays } = parseQuery(ResolutionQuerySchema, req.query);
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    const stats = await getStreetResolutionStats(jurisdictionId, streetName, { lookbackDays });
+    if (!stats) {
+      throw new NotFoundError('No tickets found for this street');
+    }
+    return res.json(stats);
+  } catch (err) {
+    return next(err);
+  }
+});
+
+// Streets that meet this one in the street graph, with their recent ticket activity
+router.get('/street/:streetName/neighbors', async (req, res, next) => {
+  try {
+    const { streetName } = req.params;
+    if (!streetName?.trim()) {
+      return res.status(400).json({ error: 'Street name is required' });
+    }
+
+    const { lookbackHours } = parseQuery(NeighborsQuerySchema, req.query);
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    const street = await canonicalStreetName(jurisdictionId, streetName);
+    const neighbors = await getStreetNeighbors(jurisdictionId, street, { lookbackHours });
+    if (!neighbors) {
+      throw new NotFoundError('No stored geometry for this street');
+    }
+    return res.json(neighbors);
   } catch (err) {
     return next(err);
   }
@@ -54,35 +291,53 @@ router.get('/street/:streetName/geometry', async (req, res, next) => {
       return res.status(400).json({ error: 'Street name is required' });
     }
 
-    const geometry = await getStreetGeometryResponse(streetName);
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    const geometry = await getStreetGeometryResponse(jurisdictionId, streetName);
     return res.json(geometry);
   } catch (err) {
     return next(err);
   }
 });
 
-// Get all tickets
-router.get('/', async (_req, res, next) => {
+// Paginated ticket list, newest first. Filters: since/until (issue time), street (+ streetMatch),
+// minLat/maxLat/minLng/maxLng bounding box, plateState, hasCoordinates. Follow `nextCursor`.
+router.get('/', async (req, res, next) => {
   try {
-    const tickets = await prisma.ticket.findMany({
-      orderBy: {
-        timestamp: 'desc',
-      },
-    });
+    const { minLat, maxLat, minLng, maxLng, ...rest } = parseQuery(
+      TicketListQuerySchema,
+      req.query,
+    );
+    const bbox =
+      minLat !== undefined && maxLat !== undefined && minLng !== undefined && maxLng !== undefined
+        ? { minLat, maxLat, minLng, maxLng }
+        : undefined;
 
-    res.json(tickets);
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    // Exact matches go through the alias table; a prefix gets the normalizer's spelling
+    // ("Linden Avenue" → "LINDEN AVE"), or is just upper-cased when nothing street-like is left.
+    const street =
+      rest.street === undefined
+        ? undefined
+        : rest.streetMatch === 'exact'
+          ? await canonicalStreetName(jurisdictionId, rest.street)
+          : normalizeStreetName(rest.street) || rest.street.toUpperCase();
+    const page = await listTickets({ ...rest, street, jurisdictionId, bbox });
+    res.json(page);
   } catch (err) {
     next(err);
   }
 });
 
-// Get tickets from last 24 hours
-router.get('/recent', async (_req, res, next) => {
+// Get tickets from the last `hours` (default 24, max 168)
+router.get('/recent', async (req, res, next) => {
   try {
-    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const { hours } = parseQuery(RecentQuerySchema, req.query);
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
 
     const tickets = await prisma.ticket.findMany({
       where: {
+        jurisdictionId,
         timestamp: {
           gte: since,
         },
@@ -98,9 +353,142 @@ router.get('/recent', async (_req, res, next) => {
   }
 });
 
+// Tickets within `radiusM` meters of lat/lng over the last `hours`, plus per-street summaries
+router.get('/nearby', async (req, res, next) => {
+  try {
+    const { lat, lng, radiusM, hours, limit } = parseQuery(NearbyQuerySchema, req.query);
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    const nearby = await findTicketsNearby({
+      jurisdictionId,
+      center: { lat, lng },
+      radiusM,
+      since,
+      limit,
+    });
+    res.json(nearby);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Geohash-bucketed ticket counts for the map overlay
+router.get('/heatmap', async (req, res, next) => {
+  try {
+    const query = parseQuery(HeatmapQuerySchema, req.query);
+    const until = query.until ?? new Date();
+    const since = query.since ?? new Date(until.getTime() - query.hours * 60 * 60 * 1000);
+    if (since >= until) {
+      throw new BadRequestError('since must be before until');
+    }
+
+    const heatmap = await buildTicketHeatmap({
+      jurisdictionId: await jurisdictionFromQuery(req.query),
+      since,
+      until,
+      precision: query.precision,
+    });
+    res.json(heatmap);
+  } catch (err) {
+    next(err);
+  }
+});
+
+const SSE_HEARTBEAT_MS = 25_000;
+
+// Live ticket stream (SSE). Resume with the standard `Last-Event-ID` header (EventSource
+// sends it automatically on reconnect) or `?lastTicketId=`. Optional `?street=` narrows to
+// one canonical street (through aliases); repeat the param for several streets. Tickets
+// placed after they were sent (no OCR pin) follow as a `located` event with the updated row.
+// A resume that missed more than STREAM_REPLAY_LIMIT tickets replays the oldest ones, then
+// sends a `replay-truncated` event: re-sync the rest from `GET /tickets`.
+router.get('/stream', async (req, res, next) => {
+  let jurisdictionId: string;
+  let streets: Set<string>;
+  try {
+    jurisdictionId = await jurisdictionFromQuery(req.query);
+    const streetRaw = req.query['street'];
+    const requested = (Array.isArray(streetRaw) ? streetRaw : [streetRaw])
+      .filter((s): s is string => typeof s === 'string')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    streets = new Set(
+      await Promise.all(requested.map((s) => canonicalStreetName(jurisdictionId, s))),
+    );
+  } catch (err) {
+    return next(err);
+  }
+
+  const headerId = req.get('Last-Event-ID')?.trim();
+  const queryId = req.query['lastTicketId'];
+  const lastTicketId =
+    headerId || (typeof queryId === 'string' && queryId.trim() ? queryId.trim() : null);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Disable proxy buffering (nginx) so events flush immediately
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+  res.write(`data: ${JSON.stringify({ type: 'connected' })}\n\n`);
+
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+  const wanted = (ticket: Ticket) =>
+    ticket.jurisdictionId === jurisdictionId &&
+    (streets.size === 0 || streets.has(ticket.streetLocation ?? ''));
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+    stopLocated();
+    stopOnShutdown();
+  };
+  const stopOnShutdown = onTicketEventsShutdown(() => {
+    cleanup();
+    res.end();
+  });
+  // No `id:`, so a reconnect still resumes from the last new ticket.
+  const stopLocated = subscribeToLocatedTickets((ticket) => {
+    if (wanted(ticket)) res.write(`event: located\ndata: ${JSON.stringify(ticket)}\n\n`);
+  });
+  req.on('close', cleanup);
+
+  try {
+    const stop = await subscribeWithReplay(
+      lastTicketId,
+      { jurisdictionId, streets: [...streets] },
+      (ticket) => {
+        if (wanted(ticket)) res.write(`id: ${ticket.ticketId}\ndata: ${JSON.stringify(ticket)}\n\n`);
+      },
+      () => {
+        const data = { type: 'replay-truncated', limit: STREAM_REPLAY_LIMIT };
+        res.write(`event: replay-truncated\ndata: ${JSON.stringify(data)}\n\n`);
+      },
+    );
+    // The client may have gone away while the replay query ran.
+    if (closed) stop();
+    else unsubscribe = stop;
+  } catch (err) {
+    // Headers are already flushed, so the error handler can't send a JSON body.
+    console.error('[tickets/stream] Failed to start stream:', err);
+    cleanup();
+    res.end();
+  }
+});
+
 // Get all streets with latest ticket coordinates
-router.get('/streets', async (_req, res, next) => {
+router.get('/streets', async (req, res, next) => {
   try {
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+
     // Use a performant SQL query with window function to get the latest ticket per street
     // This query uses ROW_NUMBER() to rank tickets by timestamp for each street,
     // then filters to only the most recent ticket (rn = 1)
@@ -128,7 +516,8 @@ router.get('/streets', async (_req, res, next) => {
             ORDER BY timestamp DESC
           ) as rn
         FROM Ticket
-        WHERE streetLocation IS NOT NULL
+        WHERE jurisdictionId = ${jurisdictionId}
+          AND streetLocation IS NOT NULL
           AND streetLocation != ''
       ) ranked
       WHERE ranked.rn = 1
@@ -160,12 +549,13 @@ router.get('/street/:streetName', async (req, res, next) => {
       return res.status(400).json({ error: 'Street name is required' });
     }
 
-    // Find the most recent ticket for this street
-    const lastTicket = await prisma.ticket.findFirst({
+    // Find the most recent ticket for this street (resolved through the alias table)
+    const jurisdictionId = await jurisdictionFromQuery(req.query);
+    const street = await findStreet(jurisdictionId, streetName);
+    const lastTicket = street && await prisma.ticket.findFirst({
       where: {
-        streetLocation: {
-          contains: streetName,
-        },
+        jurisdictionId,
+        streetId: street.id,
       },
       orderBy: {
         timestamp: 'desc',
@@ -198,6 +588,46 @@ router.get('/street/:streetName', async (req, res, next) => {
   }
 });
 
+// Archived evidence photos — admins, users following the ticket's street, or users notified about it
+router.get('/:ticketId/photos', async (req, res, next) => {
+  try {
+    const { ticketId } = req.params;
+    await assertTicketPhotoAccess(ticketId, req.user!);
+    return res.json({ ticketId, photos: await listTicketPhotos(ticketId) });
+  } catch (err) {
+    return next(err);
+  }
+});
+
+const sendTicketPhoto =
+  (variant: 'original' | 'thumbnail'): express.RequestHandler =>
+  async (req, res, next) => {
+    try {
+      const { ticketId, position } = parseQuery(PhotoParamsSchema, req.params);
+      await assertTicketPhotoAccess(ticketId, req.user!);
+      const photo = await readTicketPhoto(ticketId, position, variant);
+      res.set('Cache-Control', 'private, max-age=86400');
+      res.type(photo.contentType).send(photo.data);
+    } catch (err) {
+      next(err);
+    }
+  };
+
+router.get('/:ticketId/photos/:position', sendTicketPhoto('original'));
+router.get('/:ticketId/photos/:position/thumbnail', sendTicketPhoto('thumbnail'));
+
+// One ticket with its block/lane, same-block neighbours, street geometry and notification status.
+// Registered last: `/:ticketId` would otherwise shadow the literal routes above.
+router.get('/:ticketId', async (req, res, next) => {
+  try {
+    const { windowMinutes } = parseQuery(TicketDetailQuerySchema, req.query);
+    const detail = await getTicketDetail(req.params.ticketId, req.user!.id, { windowMinutes });
+    return res.json(detail);
+  } catch (err) {
+    return next(err);
+  }
+});
+
 export default router;
 
 
@@ -2,20 +2,42 @@ import 'dotenv/config';
 
 import express from 'express';
 import type { Request, Response } from 'express';
+import type { ScheduledTask } from 'node-cron';
 
+import { shutdownTicketEvents } from './events/ticketEvents.js';
+import { attachTicketSocket, closeTicketSocket } from './events/ticketSocket.js';
 import { globalErrorHandler } from './middleware/errorHandler.js';
 import { requireAuth } from './middleware/auth.js';
+import { requestLogger } from './middleware/logger.js';
+import { httpMetrics } from './middleware/metrics.js';
 import { prisma } from './prisma.js';
 import adminRoutes from './routes/adminRoutes.js';
 import authRoutes from './routes/authRoutes.js';
+import enforcementRoutes from './routes/enforcementRoutes.js';
+import jurisdictionRoutes from './routes/jurisdictionRoutes.js';
 import ticketRoutes from './routes/ticketRoutes.js';
 import notificationRoutes from './routes/notificationRoutes.js';
+import sessionRoutes from './routes/sessionRoutes.js';
+import { listJurisdictions } from './services/jurisdictionService.js';
+import { buildMissingStreetGraphsOnStartup } from './services/streetAdjacencyService.js';
 import { backfillMissingStreetGeometriesOnStartup } from './services/streetGeometryService.js';
+import { backfillTicketStreets } from './services/streetService.js';
+import { backfillTicketCoordinates } from './services/ticketLocationService.js';
+import { METRICS_CONTENT_TYPE, renderMetrics } from './utils/metrics.js';
+import { startEnrollmentCleanup } from './worker/enrollmentCleanup.js';
+import { startParkingSessionSweep } from './worker/parkingSessionSweep.js';
+import { startScraperProbeRetention } from './worker/scraperProbeRetention.js';
 import { startTicketWatcher } from './worker/ticketScraper.js';
 
 const app = express();
 
-app.use(express.json({ limit: '10kb' }));
+app.use(requestLogger);
+app.use(httpMetrics);
+// Hand-drawn geometry overrides are larger than any other body; adminRoutes parses them with
+// their own limit once the caller is authenticated as an admin.
+const GEOMETRY_OVERRIDE_PATH = /^\/admin\/streets\/[^/]+\/geometry\/override\/?$/i;
+const jsonBody = express.json({ limit: '10kb' });
+app.use((req, res, next) => (GEOMETRY_OVERRIDE_PATH.test(req.path) ? next() : jsonBody(req, res, next)));
 
 // Health check endpoint
 app.get('/health', async (_: Request, res: Response) => {
@@ -38,6 +60,21 @@ app.get('/health', async (_: Request, res: Response) => {
   }
 });
 
+// Prometheus scrape endpoint. Disabled unless METRICS_TOKEN is set; the scraper must send
+// `Authorization: Bearer <METRICS_TOKEN>`.
+app.get('/metrics', (req: Request, res: Response) => {
+  const token = process.env.METRICS_TOKEN?.trim();
+  if (!token) {
+    res.status(404).json({ error: 'Metrics are disabled' });
+    return;
+  }
+  if (req.get('Authorization') !== `Bearer ${token}`) {
+    res.status(401).json({ error: 'Invalid metrics token' });
+    return;
+  }
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
 // Auth: /auth/authorize and /auth/me verify Bearer token inside the router
 app.use('/auth', authRoutes);
 
@@ -45,17 +82,25 @@ app.use('/auth', authRoutes);
 const protectedRoutes = express.Router();
 protectedRoutes.use(requireAuth);
 protectedRoutes.use('/admin', adminRoutes);
+protectedRoutes.use('/jurisdictions', jurisdictionRoutes);
 protectedRoutes.use('/tickets', ticketRoutes);
 protectedRoutes.use('/notifications', notificationRoutes);
+protectedRoutes.use('/sessions', sessionRoutes);
+protectedRoutes.use('/enforcement', enforcementRoutes);
 app.use(protectedRoutes);
 
 app.use(globalErrorHandler);
 
 const port = process.env.PORT || '8000';
 
+let scheduledJobs: ScheduledTask[] = [];
+
 const server = app.listen(port, async () => {
   console.log(`Ticket app listening at http://localhost:${port}`);
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  if (!process.env.METRICS_TOKEN?.trim()) {
+    console.warn('METRICS_TOKEN is not set; GET /metrics is disabled');
+  }
 
   try {
     await prisma.$connect();
@@ -65,22 +110,62 @@ const server = app.listen(port, async () => {
     process.exit(1);
   }
 
-  // Start the ticket watcher in the background (non-blocking)
-  void startTicketWatcher().catch((error) => {
-    console.error('Fatal error in ticket watcher:', error);
-    process.exit(1);
-  });
-  console.log('Ticket watcher started in background');
-
-  void backfillMissingStreetGeometriesOnStartup().catch((error) => {
-    console.error('Street geometry backfill failed:', error);
-  });
+  // Start one ticket watcher per enabled jurisdiction in the background (non-blocking)
+  const jurisdictions = await listJurisdictions({ enabledOnly: true });
+  for (const jurisdiction of jurisdictions) {
+    void startTicketWatcher(jurisdiction).catch((error) => {
+      console.error(`Fatal error in ticket watcher (${jurisdiction.id}):`, error);
+      process.exit(1);
+    });
+  }
+  console.log(
+    `Ticket watchers started in background: ${jurisdictions.map((j) => j.id).join(', ') || 'none'}`,
+  );
+
+  scheduledJobs = [
+    startEnrollmentCleanup(),
+    startParkingSessionSweep(),
+    startScraperProbeRetention(),
+  ];
+
+  // Link tickets saved before street normalization first, so geometry is fetched for canonical names.
+  void backfillTicketStreets()
+    .then(({ updated }) => {
+      if (updated > 0) console.log(`🛣️  Linked ${updated} ticket(s) to canonical streets`);
+    })
+    .catch((error) => console.error('Ticket street backfill failed:', error))
+    // From geometry already stored; the fetches below then keep their own streets' edges current.
+    .then(() => buildMissingStreetGraphsOnStartup())
+    .then((graphs) => {
+      for (const { jurisdictionId, streets, edges } of graphs) {
+        console.log(`🕸️  Built street graph for ${jurisdictionId}: ${edges} edge(s) between ${streets} street(s)`);
+      }
+    })
+    .catch((error) => console.error('Street graph build failed:', error))
+    .then(() => backfillMissingStreetGeometriesOnStartup())
+    .catch((error) => {
+      console.error('Street geometry backfill failed:', error);
+    })
+    // Needs the geometry above for street-centroid fallbacks.
+    .then(() => backfillTicketCoordinates())
+    .then(({ scanned, located }) => {
+      if (scanned > 0) console.log(`📍 Placed ${located}/${scanned} ticket(s) without OCR coordinates`);
+    })
+    .catch((error) => console.error('Ticket coordinate backfill failed:', error));
 });
 
+// Socket.IO `/tickets` namespace (authenticates in its own handshake middleware)
+attachTicketSocket(server);
+
 // Graceful shutdown
 const gracefulShutdown = async () => {
   console.log('Shutting down gracefully...');
 
+  // Long-lived SSE responses and sockets would otherwise hold server.close() open
+  shutdownTicketEvents();
+  closeTicketSocket();
+  scheduledJobs.forEach((job) => void job.stop());
+
   server.close(async () => {
     console.log('HTTP server closed');
 
@@ -0,0 +1,453 @@
+import type { Jurisdiction, Prisma } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import { addDaysToLocalDate, zonedTimeToUtc } from '../utils/timezone.js';
+import { getEnforcementCalendar, type EnforcementCalendar } from './enforcementScheduleService.js';
+import { requireJurisdiction } from './jurisdictionService.js';
+import { findStreet } from './streetService.js';
+
+const MS_HOUR = 60 * 60 * 1000;
+const MS_DAY = 24 * MS_HOUR;
+
+/** Days of history the model learns from. */
+const TRAINING_DAYS = 56;
+
+/** A day's history counts half as much every this many days back. */
+const RECENCY_HALF_LIFE_DAYS = 14;
+
+/** Pseudo-observations pulling a sparse weekday × hour slot toward the street's rate at that hour. */
+const PRIOR_STRENGTH = 2;
+
+export const FORECAST_DEFAULT_HOURS = 12;
+export const FORECAST_MAX_HOURS = 72;
+
+const AREA_STREET_LIMIT = 10;
+
+const CALIBRATION_BUCKETS = 10;
+
+/**
+ * Local calendar day as a day count since 1970-01-01, plus the hour. Day numbers make the
+ * training loop plain arithmetic; 1970-01-01 was a Thursday, so weekday = (day + 4) % 7.
+ */
+type LocalSlot = { day: number; hour: number };
+
+const weekdayOfDay = (day: number): number => (day + 4) % 7;
+
+const dayOfDate = (localDate: string): number => {
+  const [y, m, d] = localDate.split('-').map(Number);
+  return Date.UTC(y!, m! - 1, d!) / MS_DAY;
+};
+
+const dateOfDay = (day: number): string => new Date(day * MS_DAY).toISOString().slice(0, 10);
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const localSlotOf = (instant: Date, timeZone: string): LocalSlot => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map((p) => [p.type, p.value]));
+  return {
+    day: dayOfDate(`${parts.year}-${parts.month}-${parts.day}`),
+    hour: Number.parseInt(parts.hour ?? '0', 10),
+  };
+};
+
+const slotKey = (slot: LocalSlot): number => slot.day * 24 + slot.hour;
+
+/** A ticket as the model sees it: issue instant and local hour slot. */
+type HistoryTicket = { at: number; key: number };
+
+type ForecastContext = {
+  /** Zone for weekday / hour-of-day patterns. */
+  timeZone: string;
+  calendar: EnforcementCalendar;
+  /**
+   * Slot keys (local hours in `timeZone`) that fall on a holiday. Holidays are days in the
+   * jurisdiction's zone, which needn't line up with `timeZone`'s days.
+   */
+  closedSlots: Set<number>;
+};
+
+type SlotModel = {
+  /** Chance of at least one ticket in one hour at this local weekday and hour. */
+  rate: (weekday: number, hour: number) => number;
+  /** Same, ignoring weekday and hour — the naive baseline. */
+  baseRate: number;
+  trainingTickets: number;
+};
+
+/**
+ * Recency-weighted share of past local hours (before `asOf`) with at least one ticket, per
+ * weekday × hour, shrunk toward the rate at that hour of day and that toward the overall rate.
+ * Holidays are left out: a day without enforcement says nothing about a normal one.
+ */
+const trainModel = (history: HistoryTicket[], asOf: Date, context: ForecastContext): SlotModel => {
+  const from = asOf.getTime() - TRAINING_DAYS * MS_DAY;
+  const hitKeys = new Set<number>();
+  for (const ticket of history) {
+    if (ticket.at >= from && ticket.at < asOf.getTime()) hitKeys.add(ticket.key);
+  }
+
+  const slotHits = new Array<number>(7 * 24).fill(0);
+  const slotSeen = new Array<number>(7 * 24).fill(0);
+  const hourHits = new Array<number>(24).fill(0);
+  const hourSeen = new Array<number>(24).fill(0);
+  let hits = 0;
+  let seen = 0;
+
+  const now = localSlotOf(asOf, context.timeZone);
+  for (let back = 0; back <= TRAINING_DAYS; back++) {
+    const day = now.day - back;
+    const weight = 0.5 ** (back / RECENCY_HALF_LIFE_DAYS);
+    const weekday = weekdayOfDay(day);
+    // Today only counts the hours already over.
+    const hours = back === 0 ? now.hour : 24;
+    for (let hour = 0; hour < hours; hour++) {
+      if (context.closedSlots.has(day * 24 + hour)) continue;
+      const hit = hitKeys.has(day * 24 + hour) ? weight : 0;
+      const slot = weekday * 24 + hour;
+      slotHits[slot]! += hit;
+      slotSeen[slot]! += weight;
+      hourHits[hour]! += hit;
+      hourSeen[hour]! += weight;
+      hits += hit;
+      seen += weight;
+    }
+  }
+
+  const baseRate = (hits + 0.5) / (seen + 1);
+  const hourRates = hourHits.map((h, hour) => (h + PRIOR_STRENGTH * baseRate) / (hourSeen[hour]! + PRIOR_STRENGTH));
+  return {
+    rate: (weekday, hour) => {
+      const slot = weekday * 24 + hour;
+      return (slotHits[slot]! + PRIOR_STRENGTH * hourRates[hour]!) / (slotSeen[slot]! + PRIOR_STRENGTH);
+    },
+    baseRate,
+    trainingTickets: hitKeys.size,
+  };
+};
+
+export type ForecastSlot = {
+  startAt: Date;
+  endAt: Date;
+  weekday: number;
+  hour: number;
+  /** False outside the schedule's enforcement windows or on a holiday (probability 0). */
+  enforced: boolean;
+  /** Holiday name when the day has no enforcement. */
+  closedFor: string | null;
+  probability: number;
+};
+
+/** Hour-long slots from `asOf`, each placed by the local weekday and hour of its midpoint. */
+const forecastSlots = (
+  model: SlotModel,
+  asOf: Date,
+  hours: number,
+  context: ForecastContext,
+  jurisdictionTimeZone: string,
+): ForecastSlot[] =>
+  Array.from({ length: hours }, (_, i) => {
+    const startAt = new Date(asOf.getTime() + i * MS_HOUR);
+    const endAt = new Date(startAt.getTime() + MS_HOUR);
+    const midpoint = new Date(startAt.getTime() + MS_HOUR / 2);
+    const local = localSlotOf(midpoint, context.timeZone);
+    const weekday = weekdayOfDay(local.day);
+
+    // The schedule is kept in the jurisdiction's own zone.
+    const scheduleDay = localSlotOf(midpoint, jurisdictionTimeZone).day;
+    const day = context.calendar.days.get(dateOfDay(scheduleDay));
+    const closedFor = day?.closedFor ?? null;
+    const inWindow =
+      !context.calendar.weeklyConfigured ||
+      !day ||
+      day.windows.some((w) => w.startAt < endAt && w.endAt > startAt);
+    const enforced = closedFor === null && inWindow;
+
+    return {
+      startAt,
+      endAt,
+      weekday,
+      hour: local.hour,
+      enforced,
+      closedFor,
+      probability: enforced ? model.rate(weekday, local.hour) : 0,
+    };
+  });
+
+/** Chance of at least one ticket across the slots, treating hours as independent. */
+const anyTicketProbability = (probabilities: number[]): number =>
+  1 - probabilities.reduce((none, p) => none * (1 - p), 1);
+
+const round = (p: number) => Math.round(p * 1000) / 1000;
+
+const loadContext = async (
+  jurisdiction: Jurisdiction,
+  timeZone: string,
+  from: Date,
+  to: Date,
+): Promise<ForecastContext> => {
+  const fromDate = dateOfDay(localSlotOf(from, jurisdiction.timeZone).day);
+  const toDate = dateOfDay(localSlotOf(to, jurisdiction.timeZone).day);
+  const calendar = await getEnforcementCalendar(
+    jurisdiction,
+    addDaysToLocalDate(fromDate, -1),
+    addDaysToLocalDate(toDate, 1),
+  );
+  const closedSlots = new Set<number>();
+  for (const [date, day] of calendar.days) {
+    if (day.closedFor === null) continue;
+    const end = zonedTimeToUtc(date, 24 * 60, jurisdiction.timeZone).getTime();
+    for (let at = zonedTimeToUtc(date, 0, jurisdiction.timeZone).getTime(); at < end; at += MS_HOUR) {
+      closedSlots.add(slotKey(localSlotOf(new Date(at + MS_HOUR / 2), timeZone)));
+    }
+  }
+  return { timeZone, calendar, closedSlots };
+};
+
+const loadHistory = async (
+  where: Prisma.TicketWhereInput,
+  from: Date,
+  to: Date,
+  timeZone: string,
+): Promise<Array<HistoryTicket & { streetId: number | null; street: string | null }>> => {
+  const tickets = await prisma.ticket.findMany({
+    where: { ...where, timestamp: { gte: from, lt: to } },
+    select: { timestamp: true, streetId: true, streetLocation: true },
+  });
+  return tickets.map((t) => ({
+    at: t.timestamp.getTime(),
+    key: slotKey(localSlotOf(t.timestamp, timeZone)),
+    streetId: t.streetId,
+    street: t.streetLocation,
+  }));
+};
+
+export type ForecastOptions = {
+  /** IANA zone for weekday / hour patterns; defaults to the jurisdiction's. */
+  timeZone?: string;
+  hours?: number;
+  asOf?: Date;
+};
+
+const describeSlots = (slots: ForecastSlot[]) =>
+  slots.map((slot) => ({ ...slot, probability: round(slot.probability) }));
+
+const modelInfo = (model: SlotModel) => ({
+  trainingDays: TRAINING_DAYS,
+  recencyHalfLifeDays: RECENCY_HALF_LIFE_DAYS,
+  /** Distinct ticketed hours in the training window. */
+  trainingTicketHours: model.trainingTickets,
+});
+
+/**
+ * Chance of at least one ticket on the street in each of the next `hours` hours and across
+ * all of them, from its weekday × hour ticket history (recent weeks weighted more), the
+ * enforcement schedule and holidays. Null when the street is unknown.
+ */
+export async function forecastStreet(jurisdictionId: string, streetName: string, options: ForecastOptions = {}) {
+  const street = await findStreet(jurisdictionId, streetName);
+  if (!street) return null;
+
+  const jurisdiction = await requireJurisdiction(jurisdictionId);
+  const timeZone = options.timeZone ?? jurisdiction.timeZone;
+  const hours = options.hours ?? FORECAST_DEFAULT_HOURS;
+  const asOf = options.asOf ?? new Date();
+  const trainFrom = new Date(asOf.getTime() - TRAINING_DAYS * MS_DAY);
+  const until = new Date(asOf.getTime() + hours * MS_HOUR);
+
+  const [context, history] = await Promise.all([
+    loadContext(jurisdiction, timeZone, trainFrom, until),
+    loadHistory({ jurisdictionId, streetId: street.id }, trainFrom, asOf, timeZone),
+  ]);
+  const model = trainModel(history, asOf, context);
+  const slots = forecastSlots(model, asOf, hours, context, jurisdiction.timeZone);
+
+  return {
+    street: street.name,
+    timeZone,
+    asOf,
+    hours,
+    /** At least one ticket on the street in the next `hours`. */
+    probability: round(anyTicketProbability(slots.map((s) => s.probability))),
+    slots: describeSlots(slots),
+    model: modelInfo(model),
+  };
+}
+
+/**
+ * Area-wide version of `forecastStreet`: the chance of a ticket anywhere in the jurisdiction
+ * per hour, plus the streets most likely to see one in the next `hours`.
+ */
+export async function forecastArea(jurisdictionId: string, options: ForecastOptions & { limit?: number } = {}) {
+  const jurisdiction = await requireJurisdiction(jurisdictionId);
+  const timeZone = options.timeZone ?? jurisdiction.timeZone;
+  const hours = options.hours ?? FORECAST_DEFAULT_HOURS;
+  const asOf = options.asOf ?? new Date();
+  const trainFrom = new Date(asOf.getTime() - TRAINING_DAYS * MS_DAY);
+  const until = new Date(asOf.getTime() + hours * MS_HOUR);
+
+  const [context, history] = await Promise.all([
+    loadContext(jurisdiction, timeZone, trainFrom, until),
+    loadHistory({ jurisdictionId }, trainFrom, asOf, timeZone),
+  ]);
+  const areaModel = trainModel(history, asOf, context);
+  const slots = forecastSlots(areaModel, asOf, hours, context, jurisdiction.timeZone);
+
+  const byStreet = new Map<number, { name: string; history: HistoryTicket[] }>();
+  for (const ticket of history) {
+    if (ticket.streetId === null || !ticket.street) continue;
+    const entry = byStreet.get(ticket.streetId) ?? { name: ticket.street, history: [] };
+    entry.history.push(ticket);
+    byStreet.set(ticket.streetId, entry);
+  }
+  const streets = [...byStreet.values()]
+    .map(({ name, history: streetHistory }) => {
+      const model = trainModel(streetHistory, asOf, context);
+      const probability = anyTicketProbability(
+        slots.map((slot) => (slot.enforced ? model.rate(slot.weekday, slot.hour) : 0)),
+      );
+      return { street: name, probability: round(probability), trainingTicketHours: model.trainingTickets };
+    })
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, options.limit ?? AREA_STREET_LIMIT);
+
+  return {
+    jurisdictionId,
+    timeZone,
+    asOf,
+    hours,
+    /** At least one ticket anywhere in the jurisdiction in the next `hours`. */
+    probability: round(anyTicketProbability(slots.map((s) => s.probability))),
+    slots: describeSlots(slots),
+    streets,
+    model: modelInfo(areaModel),
+  };
+}
+
+export type BacktestOptions = {
+  /** Most recent days held out and forecast, window by window. */
+  testDays?: number;
+  /** Forecast window length, as in `?hours=`. */
+  hours?: number;
+  timeZone?: string;
+};
+
+/**
+ * Scores the street model against held-out history: the last `testDays` are cut into
+ * `hours`-long windows, and for every street with training history each window is forecast
+ * from only the tickets before it, then compared with whether a ticket actually came.
+ * Windows with no enforced hour (nights, holidays) are skipped — they are trivially right.
+ */
+export async function backtestForecast(jurisdictionId: string, options: BacktestOptions = {}) {
+  const jurisdiction = await requireJurisdiction(jurisdictionId);
+  const timeZone = options.timeZone ?? jurisdiction.timeZone;
+  const testDays = options.testDays ?? 14;
+  const hours = options.hours ?? 3;
+  const windowMs = hours * MS_HOUR;
+
+  const end = new Date(Math.floor(Date.now() / MS_HOUR) * MS_HOUR);
+  const testStart = new Date(end.getTime() - testDays * MS_DAY);
+  const trainFrom = new Date(testStart.getTime() - TRAINING_DAYS * MS_DAY);
+
+  const [context, history] = await Promise.all([
+    loadContext(jurisdiction, timeZone, trainFrom, end),
+    loadHistory({ jurisdictionId }, trainFrom, end, timeZone),
+  ]);
+
+  // Streets known before the test period; picking streets by test-period tickets would leak.
+  const byStreet = new Map<number, HistoryTicket[]>();
+  for (const ticket of history) {
+    if (ticket.streetId === null) continue;
+    const tickets = byStreet.get(ticket.streetId) ?? [];
+    tickets.push(ticket);
+    byStreet.set(ticket.streetId, tickets);
+  }
+  const streets = [...byStreet.values()].filter((tickets) => tickets.some((t) => t.at < testStart.getTime()));
+
+  const predictions: Array<{ p: number; baseline: number; outcome: 0 | 1 }> = [];
+  // Slot placement and schedule gating are the same for every street.
+  const placementOnly: SlotModel = { rate: () => 0, baseRate: 0, trainingTickets: 0 };
+  let windows = 0;
+  let skippedWindows = 0;
+  for (let start = testStart.getTime(); start + windowMs <= end.getTime(); start += windowMs) {
+    const asOf = new Date(start);
+    const slots = forecastSlots(placementOnly, asOf, hours, context, jurisdiction.timeZone);
+    const enforcedSlots = slots.filter((slot) => slot.enforced);
+    if (enforcedSlots.length === 0) {
+      skippedWindows += 1;
+      continue;
+    }
+    windows += 1;
+
+    for (const tickets of streets) {
+      const model = trainModel(tickets, asOf, context);
+      predictions.push({
+        p: anyTicketProbability(enforcedSlots.map((slot) => model.rate(slot.weekday, slot.hour))),
+        baseline: anyTicketProbability(enforcedSlots.map(() => model.baseRate)),
+        outcome: tickets.some((t) => t.at >= start && t.at < start + windowMs) ? 1 : 0,
+      });
+    }
+  }
+
+  const n = predictions.length;
+  const mean = (values: number[]) => (n > 0 ? values.reduce((a, b) => a + b, 0) / n : null);
+  const clamp = (p: number) => Math.min(1 - 1e-6, Math.max(1e-6, p));
+  const brier = mean(predictions.map(({ p, outcome }) => (p - outcome) ** 2));
+  const baselineBrier = mean(predictions.map(({ baseline, outcome }) => (baseline - outcome) ** 2));
+  const logLoss = mean(
+    predictions.map(({ p, outcome }) => -(outcome ? Math.log(clamp(p)) : Math.log(1 - clamp(p)))),
+  );
+
+  const buckets = Array.from({ length: CALIBRATION_BUCKETS }, (_, i) => ({
+    from: i / CALIBRATION_BUCKETS,
+    to: (i + 1) / CALIBRATION_BUCKETS,
+    count: 0,
+    predicted: 0,
+    observed: 0,
+  }));
+  for (const { p, outcome } of predictions) {
+    const bucket = buckets[Math.min(CALIBRATION_BUCKETS - 1, Math.floor(p * CALIBRATION_BUCKETS))]!;
+    bucket.count += 1;
+    bucket.predicted += p;
+    bucket.observed += outcome;
+  }
+
+  return {
+    jurisdictionId,
+    timeZone,
+    testStart,
+    testEnd: end,
+    hours,
+    streets: streets.length,
+    windows,
+    skippedWindows,
+    predictions: n,
+    positives: predictions.filter((p) => p.outcome === 1).length,
+    /** Mean squared error of the probabilities; lower is better. */
+    brier,
+    /** Brier of a flat per-street hourly rate (no weekday, hour or recency). */
+    baselineBrier,
+    /** 1 − brier / baselineBrier: share of the baseline's error the model removes. */
+    brierSkill: brier !== null && baselineBrier ? 1 - brier / baselineBrier : null,
+    logLoss,
+    calibration: buckets
+      .filter((b) => b.count > 0)
+      .map((b) => ({
+        range: `${b.from.toFixed(1)}–${b.to.toFixed(1)}`,
+        count: b.count,
+        meanPredicted: round(b.predicted / b.count),
+        observedRate: round(b.observed / b.count),
+      })),
+  };
+}
@@ -0,0 +1,309 @@
+import { prisma } from '../prisma.js';
+import {
+  type LatLng,
+  bearingDegrees,
+  bearingDifference,
+  compassPoint,
+  haversineMeters,
+} from '../utils/geo.js';
+import { addDaysToLocalDate, getLocalDateInTimeZone, zonedTimeToUtc } from '../utils/timezone.js';
+import { blockStartIdOf, offsetInBlock, parseTicketId } from '../worker/blockMath.js';
+import { requireJurisdiction } from './jurisdictionService.js';
+
+const MS_MINUTE = 60 * 1000;
+
+/**
+ * Each 500-ID block is one handheld's ticket roll, so a block's tickets in issue order are
+ * one officer's path. Consecutive tickets closer than this are treated as the same spot when
+ * working out a heading.
+ */
+const HEADING_MIN_DISTANCE_M = 50;
+
+/** Speed is averaged over the route's last this-many minutes. */
+const SPEED_WINDOW_MINUTES = 60;
+
+/** How far back `getActiveEnforcement` reads tickets to reconstruct recent paths. */
+const ACTIVE_HISTORY_MINUTES = 3 * 60;
+
+export const ACTIVE_DEFAULT_WINDOW_MINUTES = 45;
+export const ACTIVE_MAX_WINDOW_MINUTES = ACTIVE_HISTORY_MINUTES;
+
+/** Heading within this many degrees of the bearing to the user counts as "moving toward you". */
+const APPROACH_MAX_ANGLE_DEG = 45;
+
+type RouteTicket = {
+  ticketId: string;
+  timestamp: Date;
+  lat: number | null;
+  lng: number | null;
+  locationSource: string | null;
+  streetLocation: string | null;
+  blockNumber: number | null;
+  violationCode: string | null;
+};
+
+const ROUTE_TICKET_SELECT = {
+  ticketId: true,
+  timestamp: true,
+  lat: true,
+  lng: true,
+  locationSource: true,
+  streetLocation: true,
+  blockNumber: true,
+  violationCode: true,
+} as const;
+
+/**
+ * Where the officer stood for a stop. A street-centroid pin can be hundreds of meters from that,
+ * so those stops are left out of the located path (distance, heading, speed, last position).
+ */
+const positionOf = (ticket: RouteTicket): LatLng | null =>
+  ticket.lat !== null && ticket.lng !== null && ticket.locationSource !== 'street_centroid'
+    ? { lat: ticket.lat, lng: ticket.lng }
+    : null;
+
+const round = (value: number, digits = 0) => {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+};
+
+/**
+ * Direction of travel at the end of a path: bearing from the most recent located stop at
+ * least `HEADING_MIN_DISTANCE_M` back to the last located stop. Null when the path never
+ * moved that far.
+ */
+const headingOf = (located: Array<{ ticket: RouteTicket; position: LatLng }>) => {
+  const last = located[located.length - 1];
+  if (!last) return null;
+  for (let i = located.length - 2; i >= 0; i -= 1) {
+    const from = located[i]!;
+    if (haversineMeters(from.position, last.position) < HEADING_MIN_DISTANCE_M) continue;
+    const bearing = bearingDegrees(from.position, last.position);
+    return {
+      bearing: round(bearing),
+      compass: compassPoint(bearing),
+      fromTicketId: from.ticket.ticketId,
+      toTicketId: last.ticket.ticketId,
+    };
+  }
+  return null;
+};
+
+/** Meters per minute over the path's last `SPEED_WINDOW_MINUTES`; null without two located stops. */
+const speedOf = (located: Array<{ ticket: RouteTicket; position: LatLng }>) => {
+  const last = located[located.length - 1];
+  if (!last) return null;
+  const since = last.ticket.timestamp.getTime() - SPEED_WINDOW_MINUTES * MS_MINUTE;
+  const recent = located.filter(({ ticket }) => ticket.timestamp.getTime() >= since);
+  if (recent.length < 2) return null;
+  let meters = 0;
+  for (let i = 1; i < recent.length; i += 1) {
+    meters += haversineMeters(recent[i - 1]!.position, recent[i]!.position);
+  }
+  const minutes = (last.ticket.timestamp.getTime() - recent[0]!.ticket.timestamp.getTime()) / MS_MINUTE;
+  return minutes > 0 ? round(meters / minutes, 1) : null;
+};
+
+/** One block's tickets (already in issue order) as a patrol path. */
+const buildRoute = (blockStartId: string, tickets: RouteTicket[], laneStatus: string | null) => {
+  const located: Array<{ ticket: RouteTicket; position: LatLng }> = [];
+  let distanceMeters = 0;
+  let previous: RouteTicket | null = null;
+
+  const stops = tickets.map((ticket) => {
+    const position = positionOf(ticket);
+    const previousLocated = located[located.length - 1];
+    const metersFromPrevious =
+      position && previousLocated ? round(haversineMeters(previousLocated.position, position)) : null;
+    if (metersFromPrevious !== null) distanceMeters += metersFromPrevious;
+    if (position) located.push({ ticket, position });
+
+    const stop = {
+      ticketId: ticket.ticketId,
+      offset: offsetInBlock(ticket.ticketId),
+      timestamp: ticket.timestamp,
+      street: ticket.streetLocation,
+      blockNumber: ticket.blockNumber,
+      violationCode: ticket.violationCode,
+      lat: ticket.lat,
+      lng: ticket.lng,
+      locationSource: ticket.locationSource,
+      minutesSincePrevious: previous
+        ? round((ticket.timestamp.getTime() - previous.timestamp.getTime()) / MS_MINUTE, 1)
+        : null,
+      metersFromPrevious,
+    };
+    previous = ticket;
+    return stop;
+  });
+
+  // Consecutive stops on one street collapse into a leg: the order streets were worked in.
+  const legs: Array<{ street: string | null; startAt: Date; endAt: Date; ticketCount: number }> = [];
+  for (const ticket of tickets) {
+    const leg = legs[legs.length - 1];
+    if (leg && leg.street === ticket.streetLocation) {
+      leg.endAt = ticket.timestamp;
+      leg.ticketCount += 1;
+    } else {
+      legs.push({ street: ticket.streetLocation, startAt: ticket.timestamp, endAt: ticket.timestamp, ticketCount: 1 });
+    }
+  }
+
+  const first = tickets[0]!;
+  const last = tickets[tickets.length - 1]!;
+  const lastLocated = located[located.length - 1];
+  return {
+    blockStartId,
+    /** Scraper lane for the block; null when the block was found without a lane (seed / backfill). */
+    laneStatus,
+    ticketCount: tickets.length,
+    firstTicketAt: first.timestamp,
+    lastTicketAt: last.timestamp,
+    durationMinutes: round((last.timestamp.getTime() - first.timestamp.getTime()) / MS_MINUTE),
+    /** Straight-line sum between consecutive located stops; a lower bound on distance walked or driven. */
+    distanceMeters: round(distanceMeters),
+    lastPosition: lastLocated
+      ? {
+          ...lastLocated.position,
+          street: lastLocated.ticket.streetLocation,
+          ticketId: lastLocated.ticket.ticketId,
+          at: lastLocated.ticket.timestamp,
+        }
+      : null,
+    heading: headingOf(located),
+    speedMetersPerMinute: speedOf(located),
+    legs,
+    stops,
+  };
+};
+
+export type OfficerRoute = ReturnType<typeof buildRoute>;
+
+/**
+ * Groups tickets by their ID block (one device each) and orders every group by issue time,
+ * ticket ID breaking ties. Tickets whose ID does not parse are counted, not routed.
+ */
+const buildRoutes = async (jurisdictionId: string, tickets: RouteTicket[]) => {
+  const byBlock = new Map<string, RouteTicket[]>();
+  let unassigned = 0;
+  for (const ticket of tickets) {
+    if (!parseTicketId(ticket.ticketId)) {
+      unassigned += 1;
+      continue;
+    }
+    const blockStartId = blockStartIdOf(ticket.ticketId);
+    byBlock.set(blockStartId, [...(byBlock.get(blockStartId) ?? []), ticket]);
+  }
+
+  const lanes = await prisma.scraperLane.findMany({
+    where: { jurisdictionId, blockStartId: { in: [...byBlock.keys()] } },
+    select: { blockStartId: true, status: true },
+  });
+  const laneStatus = new Map(lanes.map((lane) => [lane.blockStartId, lane.status]));
+
+  const routes = [...byBlock.entries()].map(([blockStartId, blockTickets]) => {
+    blockTickets.sort(
+      (a, b) =>
+        a.timestamp.getTime() - b.timestamp.getTime() || offsetInBlock(a.ticketId) - offsetInBlock(b.ticketId),
+    );
+    return buildRoute(blockStartId, blockTickets, laneStatus.get(blockStartId) ?? null);
+  });
+  return { routes, unassigned };
+};
+
+/**
+ * Reconstructed patrol path of every device that wrote tickets on `date` (jurisdiction-local
+ * `YYYY-MM-DD`, default today), earliest-starting first.
+ */
+export async function getOfficerRoutes(jurisdictionId: string, options: { date?: string } = {}) {
+  const jurisdiction = await requireJurisdiction(jurisdictionId);
+  const date = options.date ?? getLocalDateInTimeZone(new Date(), jurisdiction.timeZone);
+  const from = zonedTimeToUtc(date, 0, jurisdiction.timeZone);
+  const to = zonedTimeToUtc(addDaysToLocalDate(date, 1), 0, jurisdiction.timeZone);
+
+  const tickets = await prisma.ticket.findMany({
+    where: { jurisdictionId, timestamp: { gte: from, lt: to } },
+    select: ROUTE_TICKET_SELECT,
+  });
+  const { routes, unassigned } = await buildRoutes(jurisdictionId, tickets);
+  routes.sort((a, b) => a.firstTicketAt.getTime() - b.firstTicketAt.getTime());
+
+  return {
+    jurisdictionId,
+    date,
+    timeZone: jurisdiction.timeZone,
+    ticketCount: tickets.length,
+    unassignedTicketCount: unassigned,
+    routes,
+  };
+}
+
+/**
+ * Devices that wrote a ticket in the last `withinMinutes`, with last position, heading and
+ * speed. Given the caller's position, each also gets a distance and whether its heading points
+ * at the caller (`approaching`, with a rough ETA at the recent speed); approaching devices sort
+ * first, nearest first. Without a position, most recent first.
+ */
+export async function getActiveEnforcement(
+  jurisdictionId: string,
+  options: { withinMinutes?: number; position?: LatLng } = {},
+) {
+  const withinMinutes = options.withinMinutes ?? ACTIVE_DEFAULT_WINDOW_MINUTES;
+  const now = new Date();
+  const activeSince = now.getTime() - withinMinutes * MS_MINUTE;
+
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      jurisdictionId,
+      timestamp: { gte: new Date(now.getTime() - ACTIVE_HISTORY_MINUTES * MS_MINUTE), lte: now },
+    },
+    select: ROUTE_TICKET_SELECT,
+  });
+  const { routes } = await buildRoutes(jurisdictionId, tickets);
+  const position = options.position;
+
+  const active = routes
+    .filter((route) => route.lastTicketAt.getTime() >= activeSince)
+    .map(({ stops, legs, ...route }) => {
+      const distanceMeters =
+        position && route.lastPosition ? round(haversineMeters(route.lastPosition, position)) : null;
+      const approaching =
+        position && route.lastPosition && route.heading
+          ? bearingDifference(route.heading.bearing, bearingDegrees(route.lastPosition, position)) <=
+            APPROACH_MAX_ANGLE_DEG
+          : null;
+      return {
+        ...route,
+        minutesSinceLastTicket: round((now.getTime() - route.lastTicketAt.getTime()) / MS_MINUTE),
+        recentStreets: legs.slice(-5).map((leg) => leg.street),
+        recentStops: stops.slice(-5),
+        distanceMeters,
+        approaching,
+        etaMinutes:
+          approaching && distanceMeters !== null && route.speedMetersPerMinute
+            ? round(distanceMeters / route.speedMetersPerMinute)
+            : null,
+      };
+    });
+
+  active.sort((a, b) => {
+    if (position) {
+      const rank = (r: typeof a) => (r.approaching ? 0 : 1);
+      return (
+        rank(a) - rank(b) ||
+        (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity) ||
+        b.lastTicketAt.getTime() - a.lastTicketAt.getTime()
+      );
+    }
+    return b.lastTicketAt.getTime() - a.lastTicketAt.getTime();
+  });
+
+  return {
+    jurisdictionId,
+    asOf: now,
+    withinMinutes,
+    activeCount: active.length,
+    approachingCount: active.filter((route) => route.approaching).length,
+    routes: active,
+  };
+}
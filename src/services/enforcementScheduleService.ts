@@ -0,0 +1,306 @@
+import type { EnforcementException, EnforcementWindow, Jurisdiction } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import { BadRequestError } from '../utils/AppError.js';
+import { parseICalEvents } from '../utils/ical.js';
+import {
+  addDaysToLocalDate,
+  getLocalDateInTimeZone,
+  getWeekdayIndexOfLocalDate,
+  zonedTimeToUtc,
+} from '../utils/timezone.js';
+
+/** How far ahead `nextEnforcementWindow` looks; covers long holiday stretches. */
+const LOOKAHEAD_DAYS = 14;
+
+/** Cap on days one calendar event may close (guards against a mis-dated multi-year event). */
+const MAX_EVENT_DAYS = 31;
+
+const UPCOMING_EXCEPTION_DAYS = 60;
+
+export type WeeklyWindowInput = { weekday: number; startMinute: number; endMinute: number };
+
+/** `startMinute`/`endMinute` both null means no enforcement that day. */
+export type ExceptionInput = { name: string; startMinute: number | null; endMinute: number | null };
+
+type MinuteWindow = { startMinute: number; endMinute: number };
+
+type Schedule = {
+  windows: EnforcementWindow[];
+  exceptions: Map<string, EnforcementException>;
+};
+
+/**
+ * Every window and exception per jurisdiction. The watcher reads the schedule on each loop
+ * iteration, and rows change only through the writers below, which drop the entry.
+ */
+const scheduleCache = new Map<string, Promise<Schedule>>();
+
+const invalidateSchedule = (jurisdictionId: string): void => {
+  scheduleCache.delete(jurisdictionId);
+};
+
+const fetchSchedule = async (jurisdictionId: string): Promise<Schedule> => {
+  const [windows, exceptions] = await Promise.all([
+    prisma.enforcementWindow.findMany({
+      where: { jurisdictionId },
+      orderBy: [{ weekday: 'asc' }, { startMinute: 'asc' }],
+    }),
+    prisma.enforcementException.findMany({ where: { jurisdictionId } }),
+  ]);
+  return { windows, exceptions: new Map(exceptions.map((e) => [e.date, e])) };
+};
+
+const loadSchedule = (jurisdictionId: string): Promise<Schedule> => {
+  const cached = scheduleCache.get(jurisdictionId);
+  if (cached) return cached;
+
+  const loading = fetchSchedule(jurisdictionId);
+  scheduleCache.set(jurisdictionId, loading);
+  // A failed read is retried on the next call rather than cached.
+  loading.catch(() => {
+    if (scheduleCache.get(jurisdictionId) === loading) scheduleCache.delete(jurisdictionId);
+  });
+  return loading;
+};
+
+/** The windows that apply on `date`: its exception's hours if it has one, else the weekday's. */
+const windowsOn = (schedule: Schedule, date: string): MinuteWindow[] => {
+  const exception = schedule.exceptions.get(date);
+  if (exception) {
+    return exception.startMinute !== null && exception.endMinute !== null
+      ? [{ startMinute: exception.startMinute, endMinute: exception.endMinute }]
+      : [];
+  }
+  const weekday = getWeekdayIndexOfLocalDate(date);
+  return schedule.windows
+    .filter((w) => w.weekday === weekday)
+    .map(({ startMinute, endMinute }) => ({ startMinute, endMinute }));
+};
+
+const toInstants = (date: string, window: MinuteWindow, timeZone: string) => ({
+  startAt: zonedTimeToUtc(date, window.startMinute, timeZone),
+  endAt: zonedTimeToUtc(date, window.endMinute, timeZone),
+});
+
+/** The window enforcement is in at `now`, else the next one to open; null if none within the lookahead. */
+const findWindow = (schedule: Schedule, jurisdiction: Jurisdiction, now: Date) => {
+  const today = getLocalDateInTimeZone(now, jurisdiction.timeZone);
+  for (let day = 0; day <= LOOKAHEAD_DAYS; day++) {
+    const date = addDaysToLocalDate(today, day);
+    for (const window of windowsOn(schedule, date)) {
+      const instants = toInstants(date, window, jurisdiction.timeZone);
+      if (now < instants.endAt) return { date, ...instants, active: now >= instants.startAt };
+    }
+  }
+  return null;
+};
+
+/**
+ * Ms until enforcement next starts, or 0 while it is active. Null when no window opens
+ * within the lookahead (no weekly hours configured, or a long closure).
+ */
+export async function msUntilEnforcement(
+  jurisdiction: Jurisdiction,
+  now: Date = new Date(),
+): Promise<number | null> {
+  const window = findWindow(await loadSchedule(jurisdiction.id), jurisdiction, now);
+  if (!window) return null;
+  return window.active ? 0 : window.startAt.getTime() - now.getTime();
+}
+
+export type EnforcementDay = {
+  /** Enforcement windows that day, as instants. */
+  windows: Array<{ startAt: Date; endAt: Date }>;
+  /** Name of the exception that cancels enforcement that day (a holiday), else null. */
+  closedFor: string | null;
+};
+
+export type EnforcementCalendar = {
+  /** False when the jurisdiction has no weekly hours, so `windows` says nothing about enforcement. */
+  weeklyConfigured: boolean;
+  days: Map<string, EnforcementDay>;
+};
+
+/** Day-by-day enforcement windows and holidays for local dates `from`..`to` (inclusive). */
+export async function getEnforcementCalendar(
+  jurisdiction: Jurisdiction,
+  from: string,
+  to: string,
+): Promise<EnforcementCalendar> {
+  const schedule = await loadSchedule(jurisdiction.id);
+  const days = new Map<string, EnforcementDay>();
+  for (let date = from; date <= to; date = addDaysToLocalDate(date, 1)) {
+    const exception = schedule.exceptions.get(date);
+    days.set(date, {
+      windows: windowsOn(schedule, date).map((w) => toInstants(date, w, jurisdiction.timeZone)),
+      closedFor: exception && exception.startMinute === null ? exception.name : null,
+    });
+  }
+  return { weeklyConfigured: schedule.windows.length > 0, days };
+}
+
+const describeException = (e: EnforcementException) => ({
+  date: e.date,
+  name: e.name,
+  startMinute: e.startMinute,
+  endMinute: e.endMinute,
+  source: e.source,
+});
+
+/** Read-only schedule + "is enforcement active today" for clients. */
+export async function getEnforcementStatus(jurisdiction: Jurisdiction, now: Date = new Date()) {
+  const { timeZone } = jurisdiction;
+  const today = getLocalDateInTimeZone(now, timeZone);
+  const schedule = await loadSchedule(jurisdiction.id);
+  const lastUpcoming = addDaysToLocalDate(today, UPCOMING_EXCEPTION_DAYS);
+  const upcoming = [...schedule.exceptions.values()]
+    .filter((e) => e.date >= today && e.date <= lastUpcoming)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const todayWindows = windowsOn(schedule, today).map((window) => {
+    const { startAt, endAt } = toInstants(today, window, timeZone);
+    return { ...window, startAt: startAt.toISOString(), endAt: endAt.toISOString() };
+  });
+  const current = findWindow(schedule, jurisdiction, now);
+  const exception = schedule.exceptions.get(today);
+
+  return {
+    jurisdictionId: jurisdiction.id,
+    timeZone,
+    date: today,
+    active: current?.active ?? false,
+    enforcedToday: todayWindows.length > 0,
+    today: {
+      windows: todayWindows,
+      exception: exception ? { name: exception.name, source: exception.source } : null,
+    },
+    nextWindow:
+      current && !current.active
+        ? { startAt: current.startAt.toISOString(), endAt: current.endAt.toISOString() }
+        : null,
+    weekly: schedule.windows.map(({ weekday, startMinute, endMinute }) => ({
+      weekday,
+      startMinute,
+      endMinute,
+    })),
+    upcomingExceptions: upcoming.map(describeException),
+  };
+}
+
+/**
+ * Replaces the jurisdiction's weekly windows. Each window lies within one local day (an
+ * overnight shift is two windows, one on each weekday) and windows on a weekday must not overlap.
+ */
+export async function replaceWeeklyWindows(
+  jurisdictionId: string,
+  windows: WeeklyWindowInput[],
+): Promise<WeeklyWindowInput[]> {
+  const sorted = [...windows].sort((a, b) => a.weekday - b.weekday || a.startMinute - b.startMinute);
+  for (const [i, window] of sorted.entries()) {
+    if (window.startMinute >= window.endMinute) {
+      throw new BadRequestError('startMinute must be before endMinute; split overnight windows at midnight', {
+        window,
+      });
+    }
+    const previous = sorted[i - 1];
+    if (previous && previous.weekday === window.weekday && window.startMinute < previous.endMinute) {
+      throw new BadRequestError('Windows on the same weekday must not overlap', {
+        windows: [previous, window],
+      });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.enforcementWindow.deleteMany({ where: { jurisdictionId } }),
+    prisma.enforcementWindow.createMany({
+      data: sorted.map((w) => ({ jurisdictionId, ...w })),
+    }),
+  ]);
+  invalidateSchedule(jurisdictionId);
+  return sorted;
+}
+
+export async function upsertScheduleException(
+  jurisdictionId: string,
+  date: string,
+  input: ExceptionInput,
+) {
+  const data = { ...input, source: 'manual' };
+  const row = await prisma.enforcementException.upsert({
+    where: { jurisdictionId_date: { jurisdictionId, date } },
+    create: { jurisdictionId, date, ...data },
+    update: data,
+  });
+  invalidateSchedule(jurisdictionId);
+  return describeException(row);
+}
+
+/** Returns false if there was no exception on that date. */
+export async function deleteScheduleException(jurisdictionId: string, date: string): Promise<boolean> {
+  const { count } = await prisma.enforcementException.deleteMany({ where: { jurisdictionId, date } });
+  invalidateSchedule(jurisdictionId);
+  return count > 0;
+}
+
+export type HolidayImportResult = {
+  /** Dates written as no-enforcement exceptions. */
+  imported: string[];
+  /** Dates left alone because an admin set a manual exception there. */
+  keptManual: string[];
+  /** Recurring events (RRULE/RDATE), which are not expanded. */
+  skippedRecurring: number;
+};
+
+/**
+ * Imports every (non-recurring) event of an iCal file as a no-enforcement day.
+ * With `replace`, previously imported holidays are removed first; manual exceptions always win.
+ */
+export async function importHolidayCalendar(
+  jurisdictionId: string,
+  ics: string,
+  options: { replace?: boolean } = {},
+): Promise<HolidayImportResult> {
+  if (!/BEGIN:VCALENDAR/i.test(ics)) {
+    throw new BadRequestError('Body must be an iCalendar (text/calendar) file');
+  }
+
+  const events = parseICalEvents(ics);
+  const holidays = new Map<string, string>();
+  let skippedRecurring = 0;
+  for (const event of events) {
+    if (event.recurring) {
+      skippedRecurring += 1;
+      continue;
+    }
+    let date = event.startDate;
+    for (let i = 0; i < MAX_EVENT_DAYS && date < event.endDate; i++) {
+      if (!holidays.has(date)) holidays.set(date, event.summary || 'Holiday');
+      date = addDaysToLocalDate(date, 1);
+    }
+  }
+
+  const manual = await prisma.enforcementException.findMany({
+    where: { jurisdictionId, source: 'manual', date: { in: [...holidays.keys()] } },
+    select: { date: true },
+  });
+  const keptManual = new Set(manual.map((row) => row.date));
+  const imported = [...holidays.keys()].filter((date) => !keptManual.has(date)).sort();
+
+  await prisma.$transaction([
+    ...(options.replace
+      ? [prisma.enforcementException.deleteMany({ where: { jurisdictionId, source: 'ical' } })]
+      : []),
+    ...imported.map((date) => {
+      const data = { name: holidays.get(date)!, startMinute: null, endMinute: null, source: 'ical' };
+      return prisma.enforcementException.upsert({
+        where: { jurisdictionId_date: { jurisdictionId, date } },
+        create: { jurisdictionId, date, ...data },
+        update: data,
+      });
+    }),
+  ]);
+  invalidateSchedule(jurisdictionId);
+
+  return { imported, keptManual: [...keptManual].sort(), skippedRecurring };
+}
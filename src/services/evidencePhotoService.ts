@@ -0,0 +1,165 @@
+import sharp from 'sharp';
+
+import type { AuthUser } from '../middleware/auth.js';
+import { prisma } from '../prisma.js';
+import { getEvidenceStore } from '../storage/createBlobStore.js';
+import { ForbiddenError, NotFoundError } from '../utils/AppError.js';
+import { loadImageBuffer } from '../utils/imageSource.js';
+
+/** Longest side of a stored thumbnail, in pixels. */
+const THUMBNAIL_SIZE = 320;
+
+const THUMBNAIL_CONTENT_TYPE = 'image/jpeg';
+
+const FALLBACK_CONTENT_TYPE = 'application/octet-stream';
+
+export type TicketPhotoVariant = 'original' | 'thumbnail';
+
+type DecodedImage = {
+  contentType: string;
+  extension: string;
+  width: number | null;
+  height: number | null;
+  thumbnail: Buffer | null;
+};
+
+/** Format, size and thumbnail of an image; null fields when sharp cannot decode it. */
+const decodeImage = async (data: Buffer): Promise<DecodedImage> => {
+  try {
+    const metadata = await sharp(data).metadata();
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 75 })
+      .toBuffer();
+    const format = metadata.format ?? 'bin';
+    return {
+      contentType: metadata.format ? `image/${format}` : FALLBACK_CONTENT_TYPE,
+      extension: format,
+      width: metadata.width ?? null,
+      height: metadata.height ?? null,
+      thumbnail,
+    };
+  } catch (error) {
+    console.warn('⚠️  Could not decode evidence photo:', error);
+    return { contentType: FALLBACK_CONTENT_TYPE, extension: 'bin', width: null, height: null, thumbnail: null };
+  }
+};
+
+const photoKey = (ticketId: string, position: number, suffix: string) =>
+  `tickets/${ticketId}/${position}${suffix}`;
+
+/**
+ * Stores every evidence carousel photo of a ticket (original plus JPEG thumbnail) and
+ * records it as a `TicketPhoto`. Positions already archived are skipped, so re-running
+ * for a ticket only fills gaps. A photo that fails to load is logged and skipped.
+ * Returns the number of photos stored.
+ */
+export async function archiveEvidencePhotos(ticketId: string, evidenceUrls: string[]): Promise<number> {
+  if (evidenceUrls.length === 0) return 0;
+
+  const store = getEvidenceStore();
+  const existing = await prisma.ticketPhoto.findMany({ where: { ticketId }, select: { position: true } });
+  const archived = new Set(existing.map((photo) => photo.position));
+  let stored = 0;
+
+  for (const [position, url] of evidenceUrls.entries()) {
+    if (archived.has(position)) continue;
+    try {
+      const data = await loadImageBuffer(url);
+      if (!data) continue;
+
+      const image = await decodeImage(data);
+      const storageKey = photoKey(ticketId, position, `.${image.extension}`);
+      await store.put(storageKey, data);
+      const thumbnailKey = image.thumbnail ? photoKey(ticketId, position, '-thumb.jpg') : null;
+      if (thumbnailKey && image.thumbnail) await store.put(thumbnailKey, image.thumbnail);
+
+      await prisma.ticketPhoto.create({
+        data: {
+          ticketId,
+          position,
+          contentType: image.contentType,
+          byteSize: data.length,
+          width: image.width,
+          height: image.height,
+          storageKey,
+          thumbnailKey,
+          sourceUrl: url.startsWith('data:') ? null : url,
+        },
+      });
+      stored += 1;
+    } catch (error) {
+      console.error(`❌ Failed to archive photo ${position} of ticket ${ticketId}:`, error);
+    }
+  }
+
+  if (stored > 0) {
+    console.log(`📸 Archived ${stored} evidence photo(s) for ticket ${ticketId} (${store.name} store)`);
+  }
+  return stored;
+}
+
+/**
+ * Evidence is visible to admins and to users who follow the ticket's street (an enrollment)
+ * or were notified about the ticket. Throws NotFound for an unknown ticket, Forbidden otherwise.
+ */
+export async function assertTicketPhotoAccess(ticketId: string, user: AuthUser): Promise<void> {
+  const ticket = await prisma.ticket.findUnique({
+    where: { ticketId },
+    select: { jurisdictionId: true, streetLocation: true },
+  });
+  if (!ticket) throw new NotFoundError(`Ticket ${ticketId} not found`, { ticketId });
+  if (user.role === 'ADMIN') return;
+
+  const [enrollment, notification] = await Promise.all([
+    ticket.streetLocation
+      ? prisma.fcmEnrollment.findFirst({
+          where: { userId: user.id, jurisdictionId: ticket.jurisdictionId, streetLocation: ticket.streetLocation },
+          select: { id: true },
+        })
+      : null,
+    prisma.notification.findFirst({ where: { userId: user.id, ticketId, kind: 'ticket' }, select: { id: true } }),
+  ]);
+  if (!enrollment && !notification) {
+    throw new ForbiddenError('Evidence photos are only available for tickets on your streets', { ticketId });
+  }
+}
+
+/** Photo metadata for a ticket, in carousel order, with the paths that serve the bytes. */
+export async function listTicketPhotos(ticketId: string) {
+  const photos = await prisma.ticketPhoto.findMany({
+    where: { ticketId },
+    orderBy: { position: 'asc' },
+  });
+  return photos.map((photo) => {
+    const path = `/tickets/${encodeURIComponent(ticketId)}/photos/${photo.position}`;
+    return {
+      position: photo.position,
+      contentType: photo.contentType,
+      byteSize: photo.byteSize,
+      width: photo.width,
+      height: photo.height,
+      url: path,
+      thumbnailUrl: photo.thumbnailKey ? `${path}/thumbnail` : null,
+      createdAt: photo.createdAt,
+    };
+  });
+}
+
+/** Bytes of one archived photo (or its thumbnail). */
+export async function readTicketPhoto(
+  ticketId: string,
+  position: number,
+  variant: TicketPhotoVariant,
+): Promise<{ contentType: string; data: Buffer }> {
+  const photo = await prisma.ticketPhoto.findUnique({
+    where: { ticketId_position: { ticketId, position } },
+  });
+  const key = variant === 'thumbnail' ? photo?.thumbnailKey : photo?.storageKey;
+  const data = key ? await getEvidenceStore().get(key) : null;
+  if (!photo || !data) {
+    throw new NotFoundError(`Photo ${position} of ticket ${ticketId} not found`, { ticketId, position, variant });
+  }
+  return { contentType: variant === 'thumbnail' ? THUMBNAIL_CONTENT_TYPE : photo.contentType, data };
+}
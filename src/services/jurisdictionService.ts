@@ -0,0 +1,97 @@
+import { Prisma } from '@prisma/client';
+import type { Jurisdiction } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import { NotFoundError } from '../utils/AppError.js';
+import type { BoundingBox } from '../utils/geo.js';
+
+/**
+ * Jurisdiction every pre-existing row was migrated into, and what requests without a
+ * `jurisdiction` parameter are scoped to. Column defaults in the schema match.
+ */
+export const DEFAULT_JURISDICTION_ID = 'ithaca';
+
+export type JurisdictionInput = {
+  name: string;
+  portalUrl: string;
+  timeZone: string;
+  geocodeCity: string;
+  geocodeState: string;
+  geocodeCountry: string;
+  ticketIdPattern: string;
+  seedTicketIds?: string[] | null;
+  /** Where tickets can be; OCR readings outside it are rejected. Null turns the check off. */
+  bounds?: BoundingBox | null;
+  enabled?: boolean;
+};
+
+/** Rows change only through `upsertJurisdiction`, so a process-local cache stays coherent. */
+const cache = new Map<string, Jurisdiction>();
+
+export async function listJurisdictions(options: { enabledOnly?: boolean } = {}): Promise<Jurisdiction[]> {
+  return prisma.jurisdiction.findMany({
+    where: options.enabledOnly ? { enabled: true } : {},
+    orderBy: { id: 'asc' },
+  });
+}
+
+export async function getJurisdiction(id: string): Promise<Jurisdiction | null> {
+  const cached = cache.get(id);
+  if (cached) return cached;
+
+  const row = await prisma.jurisdiction.findUnique({ where: { id } });
+  if (row) cache.set(id, row);
+  return row;
+}
+
+export async function requireJurisdiction(id: string): Promise<Jurisdiction> {
+  const jurisdiction = await getJurisdiction(id);
+  if (!jurisdiction) {
+    throw new NotFoundError(`Unknown jurisdiction "${id}"`, { jurisdiction: id });
+  }
+  return jurisdiction;
+}
+
+/** Validates an optional `jurisdiction` request parameter; omitted means the default. */
+export async function resolveJurisdictionId(id: string | undefined): Promise<string> {
+  if (id === undefined) return DEFAULT_JURISDICTION_ID;
+  return (await requireJurisdiction(id)).id;
+}
+
+/** Reads the optional `jurisdiction` query parameter (see `resolveJurisdictionId`). */
+export async function jurisdictionFromQuery(query: Record<string, unknown>): Promise<string> {
+  const raw = query.jurisdiction;
+  return resolveJurisdictionId(typeof raw === 'string' && raw.trim() ? raw.trim() : undefined);
+}
+
+export async function upsertJurisdiction(id: string, input: JurisdictionInput): Promise<Jurisdiction> {
+  const { bounds, ...rest } = input;
+  const data = {
+    ...rest,
+    seedTicketIds: input.seedTicketIds === null ? Prisma.DbNull : input.seedTicketIds,
+    ...(bounds !== undefined
+      ? {
+          minLat: bounds?.minLat ?? null,
+          maxLat: bounds?.maxLat ?? null,
+          minLng: bounds?.minLng ?? null,
+          maxLng: bounds?.maxLng ?? null,
+        }
+      : {}),
+  };
+  const row = await prisma.jurisdiction.upsert({
+    where: { id },
+    create: { id, ...data },
+    update: data,
+  });
+  cache.set(id, row);
+  return row;
+}
+
+export const seedTicketIdsOf = (jurisdiction: Jurisdiction): string[] =>
+  Array.isArray(jurisdiction.seedTicketIds)
+    ? jurisdiction.seedTicketIds.filter((id): id is string => typeof id === 'string')
+    : [];
+
+/** True when `ticketId` has this jurisdiction's ticket-ID format. */
+export const matchesTicketIdFormat = (jurisdiction: Jurisdiction, ticketId: string): boolean =>
+  new RegExp(jurisdiction.ticketIdPattern).test(ticketId);
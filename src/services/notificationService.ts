@@ -1,94 +1,332 @@
-import admin from 'firebase-admin';
-import { readFileSync } from 'fs';
-import type { Ticket } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type { FcmEnrollment, Ticket } from '@prisma/client';
 
 import { prisma } from '../prisma.js';
+import { BadRequestError } from '../utils/AppError.js';
+import {
+  type BoundingBox,
+  type LatLng,
+  boundingBoxAround,
+  distanceToPolylineMeters,
+  haversineMeters,
+} from '../utils/geo.js';
+import { getHourInTimeZone, getWeekdayIndexInTimeZone } from '../utils/timezone.js';
+import { blockEndIdOf, blockStartIdOf, parseTicketId } from '../worker/blockMath.js';
+import { alertParkingSessions } from './parkingSessionService.js';
+import { isPushEnabled, sendPush } from './pushService.js';
+import { listAdjacentStreets } from './streetAdjacencyService.js';
+import { loadStreetPolylines } from './streetGeometryService.js';
+import { canonicalStreetName } from './streetService.js';
+import { loadTicketFootprint } from './ticketGeoService.js';
+import type { TicketFootprint } from './ticketGeoService.js';
 
-const STREET_COOLDOWN_MS = 30 * 60 * 1000; // 30 minutes
-
-// Initialize Firebase Admin SDK once
-if (!admin.apps.length) {
-  const serviceAccountPath = process.env.FIREBASE_SERVICE_ACCOUNT;
-  if (!serviceAccountPath) {
-    console.warn('⚠️  FIREBASE_SERVICE_ACCOUNT env var not set — FCM notifications disabled');
-  } else {
-    console.log(`🔑 Loading Firebase service account from: ${serviceAccountPath}`);
-    const serviceAccount = JSON.parse(readFileSync(serviceAccountPath, 'utf-8'));
-    console.log(`🔑 Service account project: ${serviceAccount.project_id}, client: ${serviceAccount.client_email}`);
-    admin.initializeApp({
-      credential: admin.credential.cert(serviceAccount),
+export const GEOFENCE_MIN_RADIUS_M = 25;
+export const GEOFENCE_MAX_RADIUS_M = 2000;
+
+/** An officer's tickets from this far back count toward an early warning. */
+const APPROACH_LOOKBACK_MINUTES = 30;
+
+/**
+ * How close an officer's recent ticket must come to an enrolled street, or to a geofence's
+ * edge, for an early warning; env `APPROACH_ALERT_RADIUS_M`.
+ */
+const APPROACH_ALERT_RADIUS_M = (() => {
+  const raw = parseInt(process.env.APPROACH_ALERT_RADIUS_M ?? '300', 10);
+  return Number.isFinite(raw) && raw > 0 ? raw : 300;
+})();
+
+/**
+ * Per-enrollment delivery settings. Omitted fields are left unchanged on update;
+ * `null` clears a setting (no window / never expires).
+ */
+export type EnrollmentPreferences = {
+  cooldownMinutes?: number;
+  timeZone?: string | null;
+  /** Local weekdays, 0 = Sunday … 6 = Saturday. */
+  activeWeekdays?: number[] | null;
+  /** Local hour window [start, end), 0–24; wraps past midnight when start > end. */
+  activeStartHour?: number | null;
+  activeEndHour?: number | null;
+  expiresAt?: Date | null;
+  /** Opt in to "enforcement approaching" warnings, which have their own cooldown. */
+  approachAlerts?: boolean;
+  approachCooldownMinutes?: number;
+};
+
+const preferencesData = (prefs: EnrollmentPreferences) => ({
+  ...(prefs.cooldownMinutes !== undefined ? { cooldownMinutes: prefs.cooldownMinutes } : {}),
+  ...(prefs.timeZone !== undefined ? { timeZone: prefs.timeZone } : {}),
+  ...(prefs.activeWeekdays !== undefined
+    ? { activeWeekdays: prefs.activeWeekdays ?? Prisma.DbNull }
+    : {}),
+  ...(prefs.activeStartHour !== undefined ? { activeStartHour: prefs.activeStartHour } : {}),
+  ...(prefs.activeEndHour !== undefined ? { activeEndHour: prefs.activeEndHour } : {}),
+  ...(prefs.expiresAt !== undefined ? { expiresAt: prefs.expiresAt } : {}),
+  ...(prefs.approachAlerts !== undefined ? { approachAlerts: prefs.approachAlerts } : {}),
+  ...(prefs.approachCooldownMinutes !== undefined
+    ? { approachCooldownMinutes: prefs.approachCooldownMinutes }
+    : {}),
+});
+
+type ActiveWindow = Pick<
+  EnrollmentPreferences,
+  'timeZone' | 'activeWeekdays' | 'activeStartHour' | 'activeEndHour'
+>;
+
+/**
+ * Problems with a complete active window: hours must be set (or cleared) as a pair, and any
+ * weekday or hour restriction needs a time zone. Empty when the window is usable.
+ */
+export const activeWindowIssues = (window: ActiveWindow): Array<{ path: string; message: string }> => {
+  const issues: Array<{ path: string; message: string }> = [];
+  const hasStart = window.activeStartHour !== undefined && window.activeStartHour !== null;
+  const hasEnd = window.activeEndHour !== undefined && window.activeEndHour !== null;
+  if (hasStart !== hasEnd) {
+    issues.push({
+      path: hasStart ? 'activeEndHour' : 'activeStartHour',
+      message: 'activeStartHour and activeEndHour must be set together',
     });
-    console.log('✅ Firebase Admin initialized');
   }
-}
-
-const fcm = () => {
-  if (!admin.apps.length) return null;
-  return admin.messaging();
+  const setsWindow = hasStart || hasEnd || (window.activeWeekdays ?? null) !== null;
+  if (setsWindow && !window.timeZone) {
+    issues.push({
+      path: 'timeZone',
+      message: 'timeZone is required when setting activeWeekdays or active hours',
+    });
+  }
+  return issues;
 };
 
-// Enroll this device for a street (idempotent for the same user+street+token).
+// Enroll this device for a street (idempotent for the same user+jurisdiction+street+token).
+// The street is stored under its canonical name so it matches saved tickets.
 export const enrollForStreet = async (
   userId: number,
   fcmToken: string,
-  streetLocation: string,
+  jurisdictionId: string,
+  street: string,
+  prefs: EnrollmentPreferences = {},
 ): Promise<void> => {
+  const streetLocation = await canonicalStreetName(jurisdictionId, street);
   await prisma.fcmEnrollment.upsert({
     where: {
-      userId_streetLocation_fcmToken: { userId, streetLocation, fcmToken },
+      userId_jurisdictionId_streetLocation_fcmToken: { userId, jurisdictionId, streetLocation, fcmToken },
     },
-    update: {},
-    create: { userId, fcmToken, streetLocation },
+    update: preferencesData(prefs),
+    create: { userId, fcmToken, jurisdictionId, streetLocation, ...preferencesData(prefs) },
   });
 };
 
 /** Unenroll from a street on all devices, or only the device matching `fcmToken` when provided. */
 export const unenrollFromStreet = async (
   userId: number,
-  streetLocation: string,
+  jurisdictionId: string,
+  street: string,
   fcmToken?: string,
 ): Promise<void> => {
+  const streetLocation = await canonicalStreetName(jurisdictionId, street);
   await prisma.fcmEnrollment.deleteMany({
     where: fcmToken
-      ? { userId, streetLocation, fcmToken }
-      : { userId, streetLocation },
+      ? { userId, jurisdictionId, streetLocation, fcmToken }
+      : { userId, jurisdictionId, streetLocation },
   });
 };
 
-// Called by the scraper whenever a new ticket is saved.
-// Sends FCM notifications to all tokens enrolled for that street,
-// but only if the previous ticket on that street was more than 30 minutes ago.
-export const emitNewTicket = async (ticket: Ticket): Promise<void> => {
-  if (!ticket.streetLocation) return;
+export type GeofenceInput = {
+  jurisdictionId: string;
+  lat: number;
+  lng: number;
+  radiusM: number;
+  label?: string;
+};
 
-  const messaging = fcm();
-  if (!messaging) return;
+/** Enroll this device for tickets within `radiusM` of a point. Returns the enrollment id. */
+export const enrollForGeofence = async (
+  userId: number,
+  fcmToken: string,
+  geofence: GeofenceInput,
+  prefs: EnrollmentPreferences = {},
+): Promise<number> => {
+  const { jurisdictionId, lat, lng, radiusM, label } = geofence;
 
-  // Find the most recent previous ticket on the same street
-  const previousTicket = await prisma.ticket.findFirst({
-    where: {
-      streetLocation: ticket.streetLocation,
-      ticketId: { not: ticket.ticketId },
+  // Same point + radius on the same device is a re-submit, not a new geofence.
+  const existing = await prisma.fcmEnrollment.findFirst({
+    where: { userId, fcmToken, jurisdictionId, streetLocation: null, lat, lng, radiusM },
+    select: { id: true },
+  });
+  if (existing) {
+    await prisma.fcmEnrollment.update({
+      where: { id: existing.id },
+      data: { label: label ?? null, ...preferencesData(prefs) },
+    });
+    return existing.id;
+  }
+
+  const created = await prisma.fcmEnrollment.create({
+    data: {
+      userId,
+      fcmToken,
+      jurisdictionId,
+      lat,
+      lng,
+      radiusM,
+      label: label ?? null,
+      ...preferencesData(prefs),
     },
-    orderBy: { timestamp: 'desc' },
-    select: { timestamp: true },
+    select: { id: true },
   });
+  return created.id;
+};
 
-  const timeSinceLast = previousTicket
-    ? ticket.timestamp.getTime() - previousTicket.timestamp.getTime()
-    : Infinity;
+/** Deletes one of the user's enrollments (street or geofence). Returns false if it isn't theirs / doesn't exist. */
+export const deleteEnrollment = async (userId: number, enrollmentId: number): Promise<boolean> => {
+  const { count } = await prisma.fcmEnrollment.deleteMany({
+    where: { id: enrollmentId, userId },
+  });
+  return count > 0;
+};
 
-  if (timeSinceLast < STREET_COOLDOWN_MS) {
-    console.log(
-      `🔕 Skipping notification for "${ticket.streetLocation}" — last ticket was ${Math.round(timeSinceLast / 60000)}m ago (cooldown: 30m)`
-    );
-    return;
+/**
+ * Updates one of the user's enrollments. The active window is checked after merging `prefs`
+ * over the stored settings, so a partial update only has to make sense with what's already
+ * there. Returns false if it isn't theirs / doesn't exist.
+ */
+export const updateEnrollmentPreferences = async (
+  userId: number,
+  enrollmentId: number,
+  prefs: EnrollmentPreferences,
+): Promise<boolean> => {
+  const stored = await prisma.fcmEnrollment.findFirst({
+    where: { id: enrollmentId, userId },
+    select: { timeZone: true, activeWeekdays: true, activeStartHour: true, activeEndHour: true },
+  });
+  if (!stored) return false;
+
+  const issues = activeWindowIssues({
+    timeZone: prefs.timeZone !== undefined ? prefs.timeZone : stored.timeZone,
+    activeWeekdays:
+      prefs.activeWeekdays !== undefined
+        ? prefs.activeWeekdays
+        : Array.isArray(stored.activeWeekdays)
+          ? (stored.activeWeekdays as number[])
+          : null,
+    activeStartHour: prefs.activeStartHour !== undefined ? prefs.activeStartHour : stored.activeStartHour,
+    activeEndHour: prefs.activeEndHour !== undefined ? prefs.activeEndHour : stored.activeEndHour,
+  });
+  if (issues.length > 0) {
+    throw new BadRequestError('Invalid enrollment preferences', { issues });
   }
 
-  const enrollments = await prisma.fcmEnrollment.findMany({
-    where: { streetLocation: ticket.streetLocation },
-    select: { userId: true, fcmToken: true },
+  const { count } = await prisma.fcmEnrollment.updateMany({
+    where: { id: enrollmentId, userId },
+    data: preferencesData(prefs),
   });
+  return count > 0;
+};
+
+/** Removes enrollments whose `expiresAt` has passed. Returns the number deleted. */
+export const deleteExpiredEnrollments = async (now: Date = new Date()): Promise<number> => {
+  const { count } = await prisma.fcmEnrollment.deleteMany({
+    where: { expiresAt: { lte: now } },
+  });
+  return count;
+};
+
+const isInActiveWindow = (enrollment: FcmEnrollment, now: Date): boolean => {
+  const timeZone = enrollment.timeZone ?? 'UTC';
+
+  const weekdays = enrollment.activeWeekdays;
+  if (Array.isArray(weekdays) && !weekdays.includes(getWeekdayIndexInTimeZone(now, timeZone))) {
+    return false;
+  }
+
+  const { activeStartHour: start, activeEndHour: end } = enrollment;
+  if (start === null || end === null || start === end) return true;
+  const hour = getHourInTimeZone(now, timeZone);
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+};
+
+/** Not expired, inside its weekday/hour window, and past its own cooldown. */
+const isEnrollmentDue = (enrollment: FcmEnrollment, now: Date): boolean => {
+  if (enrollment.expiresAt && enrollment.expiresAt <= now) return false;
+  if (
+    enrollment.lastNotifiedAt &&
+    now.getTime() - enrollment.lastNotifiedAt.getTime() < enrollment.cooldownMinutes * 60_000
+  ) {
+    return false;
+  }
+  return isInActiveWindow(enrollment, now);
+};
+
+/**
+ * Geofence enrollments that contain the ticket: within their radius of the ticket's
+ * OCR point, or (without coordinates) of any stored segment of the ticket's street.
+ */
+const findMatchingGeofences = async (
+  ticket: Ticket,
+  footprint: TicketFootprint | null,
+): Promise<FcmEnrollment[]> => {
+  if (!footprint) return [];
+
+  // No geofence is larger than the max radius, so this box can't exclude a match.
+  const box = footprint.boundingBox(GEOFENCE_MAX_RADIUS_M);
+  const candidates = await prisma.fcmEnrollment.findMany({
+    where: {
+      jurisdictionId: ticket.jurisdictionId,
+      streetLocation: null,
+      radiusM: { not: null },
+      lat: { gte: box.minLat, lte: box.maxLat },
+      lng: { gte: box.minLng, lte: box.maxLng },
+    },
+  });
+
+  return candidates.filter(
+    (enrollment) =>
+      enrollment.lat !== null &&
+      enrollment.lng !== null &&
+      enrollment.radiusM !== null &&
+      footprint.isWithin({ lat: enrollment.lat, lng: enrollment.lng }, enrollment.radiusM),
+  );
+};
+
+/** Street + geofence enrollments for a ticket that are due now, one per device token. */
+const findMatchingEnrollments = async (
+  ticket: Ticket,
+  footprint: TicketFootprint | null,
+  now: Date,
+): Promise<FcmEnrollment[]> => {
+  const [streetEnrollments, geofenceEnrollments] = await Promise.all([
+    ticket.streetLocation
+      ? prisma.fcmEnrollment.findMany({
+          where: { jurisdictionId: ticket.jurisdictionId, streetLocation: ticket.streetLocation },
+        })
+      : Promise.resolve([]),
+    findMatchingGeofences(ticket, footprint),
+  ]);
+
+  const byToken = new Map<string, FcmEnrollment>();
+  for (const enrollment of [...streetEnrollments, ...geofenceEnrollments]) {
+    if (!isEnrollmentDue(enrollment, now)) continue;
+    if (!byToken.has(enrollment.fcmToken)) byToken.set(enrollment.fcmToken, enrollment);
+  }
+  return [...byToken.values()];
+};
+
+// Called by the scraper whenever a new ticket is saved.
+// Alerts open parking sessions near the ticket first, then sends FCM notifications to
+// the remaining tokens enrolled for that street or whose geofence contains the ticket.
+// Each enrollment is skipped while it is expired, outside its active window, or within
+// its own cooldown since it last fired.
+export const emitNewTicket = async (ticket: Ticket): Promise<void> => {
+  if (!ticket.streetLocation) return;
+  if (!isPushEnabled()) return;
+
+  const now = new Date();
+  const footprint = await loadTicketFootprint(ticket);
+  const sessionTokens = await alertParkingSessions(ticket, footprint, now);
+
+  const enrollments = (await findMatchingEnrollments(ticket, footprint, now)).filter(
+    (e) => !sessionTokens.has(e.fcmToken),
+  );
 
   if (enrollments.length === 0) return;
 
@@ -98,23 +336,29 @@ export const emitNewTicket = async (ticket: Ticket): Promise<void> => {
   const title = '🚨 Parking Enforcement Active';
   const body = `A ticket was just issued on ${ticket.streetLocation}.`;
 
-  const response = await messaging.sendEachForMulticast({
-    tokens,
-    notification: { title, body },
+  const results = await sendPush(tokens, {
+    title,
+    body,
     data: {
+      kind: 'ticket',
       ticketId: ticket.ticketId,
       streetLocation: ticket.streetLocation,
       timestamp: ticket.timestamp.toISOString(),
     },
   });
 
-  const successfulRows = response.responses
-    .map((r, i) => (r.success ? enrollments[i] : null))
-    .filter((row): row is (typeof enrollments)[number] => row !== null);
+  const successfulRows = enrollments.filter((_, i) => results[i]);
 
   // One history row per user per ticket (not per device)
   const notifiedUserIds = [...new Set(successfulRows.map((row) => row.userId))];
 
+  if (successfulRows.length > 0) {
+    await prisma.fcmEnrollment.updateMany({
+      where: { id: { in: successfulRows.map((row) => row.id) } },
+      data: { lastNotifiedAt: now },
+    });
+  }
+
   if (notifiedUserIds.length > 0) {
     await prisma.notification.createMany({
       data: notifiedUserIds.map((userId) => ({
@@ -123,38 +367,219 @@ export const emitNewTicket = async (ticket: Ticket): Promise<void> => {
         body,
         streetLocation: ticket.streetLocation!,
         ticketId: ticket.ticketId,
+        kind: 'ticket',
       })),
     });
   }
 
-  // Log result per token and collect failures
-  const staleTokens: string[] = [];
-  response.responses.forEach((r, i) => {
-    const token = tokens[i] ?? '(unknown)';
-    if (r.success) {
-      console.log(`  ✅ [${i}] Sent to token ...${token.slice(-8)}`);
-    } else {
-      const err = r.error;
-      console.error(`  ❌ [${i}] Failed for token ...${token.slice(-8)}`);
-      console.error(`       Code: ${err?.code ?? 'unknown'}`);
-      console.error(`       Message: ${err?.message ?? 'no message'}`);
-      if (err && 'toJSON' in err) {
-        console.error(`       Detail:`, err.toJSON());
-      }
-      // Only remove tokens that Firebase explicitly says are invalid/unregistered
-      const isStale =
-        err?.code === 'messaging/invalid-registration-token' ||
-        err?.code === 'messaging/registration-token-not-registered';
-      if (isStale && tokens[i]) staleTokens.push(tokens[i]!);
-    }
+  console.log(`✅ Sent ${successfulRows.length}/${tokens.length} notifications for "${ticket.streetLocation}"`);
+};
+
+/** Opted in to early warnings, not expired, inside its active window, and past its approach cooldown. */
+const isApproachDue = (enrollment: FcmEnrollment, now: Date): boolean => {
+  if (!enrollment.approachAlerts) return false;
+  if (enrollment.expiresAt && enrollment.expiresAt <= now) return false;
+  if (
+    enrollment.lastApproachNotifiedAt &&
+    now.getTime() - enrollment.lastApproachNotifiedAt.getTime() < enrollment.approachCooldownMinutes * 60_000
+  ) {
+    return false;
+  }
+  return isInActiveWindow(enrollment, now);
+};
+
+/**
+ * The officer's path up to `ticket`: tickets from the same 500-ID block (one device) issued in
+ * the last `APPROACH_LOOKBACK_MINUTES`, oldest first. Just the ticket when its ID doesn't parse.
+ */
+const loadRecentOfficerTickets = async (ticket: Ticket): Promise<Ticket[]> => {
+  if (!parseTicketId(ticket.ticketId)) return [ticket];
+  const blockStartId = blockStartIdOf(ticket.ticketId);
+  return prisma.ticket.findMany({
+    where: {
+      jurisdictionId: ticket.jurisdictionId,
+      ticketId: { gte: blockStartId, lte: blockEndIdOf(blockStartId) },
+      timestamp: {
+        gte: new Date(ticket.timestamp.getTime() - APPROACH_LOOKBACK_MINUTES * 60_000),
+        lte: ticket.timestamp,
+      },
+    },
+    orderBy: [{ timestamp: 'asc' }, { ticketId: 'asc' }],
   });
+};
+
+type ApproachMatch = { enrollment: FcmEnrollment; place: string };
+
+/** Smallest box holding a `radiusM` circle around every point; null without points. */
+const boundingBoxOfPoints = (points: LatLng[], radiusM: number): BoundingBox | null => {
+  if (points.length === 0) return null;
+  const boxes = points.map((point) => boundingBoxAround(point, radiusM));
+  return {
+    minLat: Math.min(...boxes.map((box) => box.minLat)),
+    maxLat: Math.max(...boxes.map((box) => box.maxLat)),
+    minLng: Math.min(...boxes.map((box) => box.minLng)),
+    maxLng: Math.max(...boxes.map((box) => box.maxLng)),
+  };
+};
+
+/**
+ * Opted-in enrollments the officer is closing in on, one per device token. A street enrollment
+ * matches when a recent ticket is on a neighbouring street in the street graph or within
+ * `APPROACH_ALERT_RADIUS_M` of it; a geofence when a recent ticket is within that distance of
+ * its edge. Streets the officer already ticketed, and geofences containing `ticket`, are left
+ * to the regular alert.
+ */
+const findApproachEnrollments = async (
+  ticket: Ticket,
+  recent: Ticket[],
+  now: Date,
+): Promise<ApproachMatch[]> => {
+  const { jurisdictionId } = ticket;
+  const workedStreets = new Set(recent.flatMap((t) => (t.streetLocation ? [t.streetLocation] : [])));
+  const adjacentStreets = await listAdjacentStreets(jurisdictionId, [...workedStreets]);
+  // Street-centroid pins (and tickets without one) say nothing about where on the street the
+  // officer was, so only real positions count toward nearness — for streets and geofences alike.
+  const workedPoints = recent.flatMap((t) =>
+    t.lat !== null && t.lng !== null && t.locationSource !== 'street_centroid' ? [{ lat: t.lat, lng: t.lng }] : [],
+  );
+
+  // Only streets whose stored bounding box comes within the radius can be near.
+  const streetBox = boundingBoxOfPoints(workedPoints, APPROACH_ALERT_RADIUS_M);
+  const nearbyStreets = streetBox
+    ? await prisma.streetGeometry.findMany({
+        where: {
+          jurisdictionId,
+          minLat: { lte: streetBox.maxLat },
+          maxLat: { gte: streetBox.minLat },
+          minLng: { lte: streetBox.maxLng },
+          maxLng: { gte: streetBox.minLng },
+        },
+        select: { streetLocation: true },
+      })
+    : [];
+  const streets = [...adjacentStreets, ...nearbyStreets.map((row) => row.streetLocation)].filter(
+    (street) => !workedStreets.has(street),
+  );
+  // No geofence is larger than the max radius, so this box can't exclude a match.
+  const geofenceBox = boundingBoxOfPoints(workedPoints, GEOFENCE_MAX_RADIUS_M + APPROACH_ALERT_RADIUS_M);
+  if (streets.length === 0 && !geofenceBox) return [];
 
-  if (staleTokens.length > 0) {
-    console.log(`🗑️  Removing ${staleTokens.length} stale FCM token(s)`);
-    await prisma.fcmEnrollment.deleteMany({
-      where: { fcmToken: { in: staleTokens } },
+  const candidates = (
+    await prisma.fcmEnrollment.findMany({
+      where: {
+        jurisdictionId,
+        approachAlerts: true,
+        OR: [
+          { streetLocation: { in: streets } },
+          ...(geofenceBox
+            ? [
+                {
+                  streetLocation: null,
+                  radiusM: { not: null },
+                  lat: { gte: geofenceBox.minLat, lte: geofenceBox.maxLat },
+                  lng: { gte: geofenceBox.minLng, lte: geofenceBox.maxLng },
+                },
+              ]
+            : []),
+        ],
+      },
+    })
+  ).filter((enrollment) => isApproachDue(enrollment, now));
+  if (candidates.length === 0) return [];
+
+  const polylineCache = new Map<string, Promise<LatLng[][] | null>>();
+  const polylinesOf = (street: string) => {
+    if (!polylineCache.has(street)) {
+      polylineCache.set(street, loadStreetPolylines(jurisdictionId, street));
+    }
+    return polylineCache.get(street)!;
+  };
+  const ticketFootprint = await loadTicketFootprint(ticket);
+
+  const byToken = new Map<string, ApproachMatch>();
+  for (const enrollment of candidates) {
+    if (byToken.has(enrollment.fcmToken)) continue;
+
+    if (enrollment.streetLocation !== null) {
+      const adjacent = adjacentStreets.has(enrollment.streetLocation);
+      const lines = adjacent || workedPoints.length === 0 ? null : await polylinesOf(enrollment.streetLocation);
+      const near = lines?.some((line) =>
+        workedPoints.some((point) => distanceToPolylineMeters(point, line) <= APPROACH_ALERT_RADIUS_M),
+      );
+      if (adjacent || near) byToken.set(enrollment.fcmToken, { enrollment, place: enrollment.streetLocation });
+      continue;
+    }
+
+    if (enrollment.lat === null || enrollment.lng === null || enrollment.radiusM === null) continue;
+    const center = { lat: enrollment.lat, lng: enrollment.lng };
+    if (ticketFootprint?.isWithin(center, enrollment.radiusM)) continue;
+    const reach = enrollment.radiusM + APPROACH_ALERT_RADIUS_M;
+    if (workedPoints.some((point) => haversineMeters(point, center) <= reach)) {
+      byToken.set(enrollment.fcmToken, { enrollment, place: enrollment.label ?? 'your area' });
+    }
+  }
+  return [...byToken.values()];
+};
+
+// Called by the scraper next to `emitNewTicket`.
+// Sends an early warning to opted-in enrollments that the officer who wrote `ticket` is working
+// nearby — on an adjacent street, or within `APPROACH_ALERT_RADIUS_M` — before a ticket lands on
+// their own street. Each enrollment has its own approach cooldown, separate from ticket alerts.
+export const emitApproachingEnforcement = async (ticket: Ticket): Promise<void> => {
+  if (!ticket.streetLocation) return;
+  if (!isPushEnabled()) return;
+
+  const now = new Date();
+  const recent = await loadRecentOfficerTickets(ticket);
+  const matches = await findApproachEnrollments(ticket, recent, now);
+  if (matches.length === 0) return;
+
+  const title = '👮 Enforcement Nearby';
+  const bodyFor = (place: string) =>
+    `Parking enforcement is ticketing on ${ticket.streetLocation}, close to ${place}.`;
+
+  console.log(`📲 Sending approach warning for "${ticket.streetLocation}" to ${matches.length} device(s)`);
+  // One multicast per place named in the body
+  const byPlace = new Map<string, ApproachMatch[]>();
+  for (const match of matches) byPlace.set(match.place, [...(byPlace.get(match.place) ?? []), match]);
+  const delivered: ApproachMatch[] = [];
+  for (const [place, group] of byPlace) {
+    const results = await sendPush(
+      group.map(({ enrollment }) => enrollment.fcmToken),
+      {
+        title,
+        body: bodyFor(place),
+        data: {
+          kind: 'approaching',
+          ticketId: ticket.ticketId,
+          streetLocation: ticket.streetLocation,
+          place,
+          timestamp: ticket.timestamp.toISOString(),
+        },
+      },
+    );
+    delivered.push(...group.filter((_, i) => results[i]));
+  }
+
+  if (delivered.length > 0) {
+    await prisma.fcmEnrollment.updateMany({
+      where: { id: { in: delivered.map(({ enrollment }) => enrollment.id) } },
+      data: { lastApproachNotifiedAt: now },
+    });
+
+    // One history row per user per ticket (not per device)
+    const byUser = new Map(delivered.map((match) => [match.enrollment.userId, match]));
+    await prisma.notification.createMany({
+      data: [...byUser.values()].map(({ enrollment, place }) => ({
+        userId: enrollment.userId,
+        title,
+        body: bodyFor(place),
+        streetLocation: ticket.streetLocation!,
+        ticketId: ticket.ticketId,
+        kind: 'approaching',
+      })),
     });
   }
 
-  console.log(`✅ Sent ${response.successCount}/${tokens.length} notifications for "${ticket.streetLocation}"`);
+  console.log(`✅ Sent ${delivered.length}/${matches.length} approach warnings for "${ticket.streetLocation}"`);
 };
@@ -1,12 +1,126 @@
-import axios from 'axios';
 import sharp from 'sharp';
 import { createWorker } from 'tesseract.js';
-import type { Worker } from 'tesseract.js';
+import type { Page, Worker } from 'tesseract.js';
+
+import type { LatLng } from '../utils/geo.js';
+import { loadImageBuffer } from '../utils/imageSource.js';
+import { ocrResultsTotal } from '../utils/metrics.js';
 
 export type OcrResult = {
   lat: number;
   lng: number;
   rawText: string;
+  /** 0–1: mean Tesseract confidence of the coordinate characters. */
+  confidence: number;
+  /**
+   * Readings one plausible misread away (a low-confidence digit swapped for a look-alike,
+   * or a dropped minus sign), least certain digit first. Tried when the reading fails validation.
+   */
+  alternates: LatLng[];
+};
+
+/** Digits Tesseract commonly confuses on the camera's GPS stamp font. */
+const LOOKALIKE_DIGITS: Record<string, string[]> = {
+  '0': ['8', '6', '9'],
+  '1': ['7', '4'],
+  '2': ['7'],
+  '3': ['8', '5'],
+  '4': ['1', '9'],
+  '5': ['6', '3', '8'],
+  '6': ['5', '8', '0'],
+  '7': ['1', '2'],
+  '8': ['0', '3', '6', '9'],
+  '9': ['8', '0', '4'],
+};
+
+/** Digits below this Tesseract confidence (0–100) get look-alike alternates. */
+const LOW_DIGIT_CONFIDENCE = 85;
+
+const MAX_ALTERNATES = 32;
+
+const COORDINATES = /Lat:\s*([-\d.]+)\s*Lng:\s*([-\d.]+)/i;
+
+type ReadChar = { char: string; confidence: number };
+
+/** Every recognized character with its symbol confidence, spaces dropped, in reading order. */
+const symbolChars = (page: Page): ReadChar[] =>
+  (page.blocks ?? []).flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) =>
+      paragraph.lines.flatMap((line) =>
+        line.words.flatMap((word) =>
+          word.symbols.flatMap((symbol) =>
+            [...symbol.text.replace(/\s/g, '')].map((char) => ({ char, confidence: symbol.confidence })),
+          ),
+        ),
+      ),
+    ),
+  );
+
+/** Single-character variants of a coordinate string, with the confidence of the replaced digit. */
+const digitVariants = (chars: ReadChar[]) =>
+  chars.flatMap(({ char, confidence }, i) =>
+    confidence < LOW_DIGIT_CONFIDENCE
+      ? (LOOKALIKE_DIGITS[char] ?? []).map((replacement) => ({
+          text: chars.map((c, j) => (j === i ? replacement : c.char)).join(''),
+          confidence,
+        }))
+      : [],
+  );
+
+const alternatesOf = (lat: ReadChar[], lng: ReadChar[], reading: LatLng): LatLng[] => {
+  const text = (chars: ReadChar[]) => chars.map((c) => c.char).join('');
+  const variants = [
+    ...digitVariants(lat).map((v) => ({ lat: parseFloat(v.text), lng: reading.lng, confidence: v.confidence })),
+    ...digitVariants(lng).map((v) => ({ lat: reading.lat, lng: parseFloat(v.text), confidence: v.confidence })),
+  ].sort((a, b) => a.confidence - b.confidence);
+
+  // A lost minus sign is the other classic misread.
+  const signFlips: LatLng[] = [];
+  if (!text(lng).startsWith('-')) signFlips.push({ lat: reading.lat, lng: -reading.lng });
+  if (!text(lat).startsWith('-')) signFlips.push({ lat: -reading.lat, lng: reading.lng });
+
+  return [...signFlips, ...variants.map(({ lat, lng }) => ({ lat, lng }))]
+    .filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lng))
+    .filter((p) => Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180)
+    .slice(0, MAX_ALTERNATES);
+};
+
+/**
+ * Finds the coordinates in the OCR output. Uses the per-symbol data when Tesseract returned it
+ * (confidence and alternates); otherwise the plain text with the page confidence.
+ */
+const parseCoordinates = (page: Page): OcrResult | null => {
+  const chars = symbolChars(page);
+  const stream = chars.map((c) => c.char).join('');
+  const detailed = COORDINATES.exec(stream);
+
+  if (detailed) {
+    // The stream has no spaces, so each number starts right after its label.
+    const latStart = detailed.index + 'Lat:'.length;
+    const lngStart = detailed.index + detailed[0].toUpperCase().indexOf('LNG:') + 'Lng:'.length;
+    const latChars = chars.slice(latStart, latStart + detailed[1]!.length);
+    const lngChars = chars.slice(lngStart, lngStart + detailed[2]!.length);
+    const lat = parseFloat(detailed[1]!);
+    const lng = parseFloat(detailed[2]!);
+    if (Number.isNaN(lat) || Number.isNaN(lng)) return null;
+
+    const numeric = [...latChars, ...lngChars];
+    const confidence = numeric.reduce((sum, c) => sum + c.confidence, 0) / numeric.length / 100;
+    return {
+      lat,
+      lng,
+      rawText: page.text,
+      confidence,
+      alternates: alternatesOf(latChars, lngChars, { lat, lng }),
+    };
+  }
+
+  const match = COORDINATES.exec(page.text);
+  if (!match) return null;
+  const lat = parseFloat(match[1]!);
+  const lng = parseFloat(match[2]!);
+  if (Number.isNaN(lat) || Number.isNaN(lng)) return null;
+  return { lat, lng, rawText: page.text, confidence: page.confidence / 100, alternates: [] };
 };
 
 let ocrWorker: Worker | null = null;
@@ -19,31 +133,9 @@ const getOcrWorker = async (): Promise<Worker> => {
   return worker;
 };
 
-export const extractGpsFromImageUrl = async (
-  imageUrl: string | null,
-): Promise<OcrResult | null> => {
-  if (!imageUrl) return null;
-
-  let inputBuffer: Buffer;
-
-  // Check if it's a base64 data URI
-  if (imageUrl.startsWith('data:')) {
-    // Extract the base64 data after the comma
-    const base64Data = imageUrl.split(',')[1];
-    if (!base64Data) {
-      console.error('Invalid data URI format');
-      return null;
-    }
-    inputBuffer = Buffer.from(base64Data, 'base64');
-    console.log('✅ Decoded base64 image');
-  } else {
-    // Download the image from URL
-    const response = await axios.get<ArrayBuffer>(imageUrl, {
-      responseType: 'arraybuffer',
-    });
-    inputBuffer = Buffer.from(response.data);
-    console.log('✅ Downloaded image from URL');
-  }
+const readGpsFromImageUrl = async (imageUrl: string): Promise<OcrResult | null> => {
+  const inputBuffer = await loadImageBuffer(imageUrl);
+  if (!inputBuffer) return null;
 
   // Crop the top 60 pixels and apply thresholding for better OCR
   const image = sharp(inputBuffer);
@@ -64,33 +156,27 @@ export const extractGpsFromImageUrl = async (
     .threshold()
     .toBuffer();
 
-  // Perform OCR
+  // Perform OCR; `blocks` carries the per-symbol confidences
   const worker = await getOcrWorker();
-  const {
-    data: { text },
-  } = await worker.recognize(processedBuffer);
+  const { data } = await worker.recognize(processedBuffer, {}, { text: true, blocks: true });
 
-  const rawText = text;
-
-  // Extract Lat / Lng with regex
-  const match = /Lat:\s*([-\d.]+)\s*Lng:\s*([-\d.]+)/i.exec(rawText);
-
-  if (!match) {
-    return null;
-  }
+  return parseCoordinates(data);
+};
 
-  const lat = parseFloat(match[1]);
-  const lng = parseFloat(match[2]);
+/** OCRs the GPS stamp on an evidence photo; null when there is no photo or no readable stamp. */
+export const extractGpsFromImageUrl = async (
+  imageUrl: string | null,
+): Promise<OcrResult | null> => {
+  if (!imageUrl) return null;
 
-  if (Number.isNaN(lat) || Number.isNaN(lng)) {
-    return null;
+  try {
+    const result = await readGpsFromImageUrl(imageUrl);
+    ocrResultsTotal.inc({ result: result ? 'success' : 'no_match' });
+    return result;
+  } catch (error) {
+    ocrResultsTotal.inc({ result: 'error' });
+    throw error;
   }
-
-  return {
-    lat,
-    lng,
-    rawText,
-  };
 };
 
 export const terminateOcrWorker = async (): Promise<void> => {
@@ -0,0 +1,269 @@
+import type { ParkingSession, Prisma, Ticket } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import { haversineMeters } from '../utils/geo.js';
+import { sendPush } from './pushService.js';
+import { canonicalStreetName } from './streetService.js';
+import type { TicketFootprint } from './ticketGeoService.js';
+
+export const SESSION_DEFAULT_RADIUS_M = 300;
+export const SESSION_MIN_RADIUS_M = 25;
+export const SESSION_MAX_RADIUS_M = 2000;
+export const SESSION_MAX_DURATION_MINUTES = 24 * 60;
+export const SESSION_HISTORY_DEFAULT_LIMIT = 50;
+export const SESSION_HISTORY_MAX_LIMIT = 200;
+
+/** Minimum gap between enforcement alerts for one session. */
+const SESSION_ALERT_COOLDOWN_MS = 10 * 60 * 1000;
+
+export type SessionEndReason = 'user' | 'expired' | 'replaced';
+
+export type StartSessionInput = {
+  fcmToken: string;
+  jurisdictionId: string;
+  streetLocation?: string;
+  lat?: number;
+  lng?: number;
+  radiusM?: number;
+  expectedEndAt: Date;
+  reminderMinutes?: number;
+};
+
+/** Open = not ended and not yet past its expected end (the sweep may not have closed it yet). */
+const openWhere = (now: Date): Prisma.ParkingSessionWhereInput => ({
+  endedAt: null,
+  expectedEndAt: { gt: now },
+});
+
+const describeLocation = (session: Pick<ParkingSession, 'streetLocation'>): string =>
+  session.streetLocation ?? 'your spot';
+
+/**
+ * Starts a session. Any session still open on the same device is ended as `replaced`,
+ * since one phone is with one car at a time.
+ */
+export async function startParkingSession(
+  userId: number,
+  input: StartSessionInput,
+): Promise<ParkingSession> {
+  const now = new Date();
+  const streetLocation =
+    input.streetLocation !== undefined
+      ? await canonicalStreetName(input.jurisdictionId, input.streetLocation)
+      : null;
+  return prisma.$transaction(async (tx) => {
+    await tx.parkingSession.updateMany({
+      where: { userId, fcmToken: input.fcmToken, endedAt: null },
+      data: { endedAt: now, endReason: 'replaced' satisfies SessionEndReason },
+    });
+
+    return tx.parkingSession.create({
+      data: {
+        userId,
+        fcmToken: input.fcmToken,
+        jurisdictionId: input.jurisdictionId,
+        streetLocation,
+        lat: input.lat ?? null,
+        lng: input.lng ?? null,
+        radiusM: input.radiusM ?? SESSION_DEFAULT_RADIUS_M,
+        startedAt: now,
+        expectedEndAt: input.expectedEndAt,
+        ...(input.reminderMinutes !== undefined ? { reminderMinutes: input.reminderMinutes } : {}),
+      },
+    });
+  });
+}
+
+export async function getParkingSession(
+  userId: number,
+  sessionId: number,
+): Promise<ParkingSession | null> {
+  return prisma.parkingSession.findFirst({ where: { id: sessionId, userId } });
+}
+
+export async function listOpenParkingSessions(userId: number): Promise<ParkingSession[]> {
+  return prisma.parkingSession.findMany({
+    where: { userId, ...openWhere(new Date()) },
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
+export type SessionHistoryOptions = {
+  limit: number;
+  /** Return sessions with an id lower than this (the previous page's `nextCursor`). */
+  beforeId?: number;
+};
+
+/** The user's sessions, newest first. */
+export async function listParkingSessions(userId: number, options: SessionHistoryOptions) {
+  const rows = await prisma.parkingSession.findMany({
+    where: { userId, ...(options.beforeId ? { id: { lt: options.beforeId } } : {}) },
+    orderBy: { id: 'desc' },
+    take: options.limit + 1,
+  });
+
+  const hasMore = rows.length > options.limit;
+  const sessions = hasMore ? rows.slice(0, options.limit) : rows;
+  return {
+    sessions,
+    nextCursor: hasMore ? (sessions[sessions.length - 1]?.id ?? null) : null,
+  };
+}
+
+export type UpdateSessionInput = {
+  expectedEndAt?: Date;
+  reminderMinutes?: number;
+};
+
+/** Extends / adjusts an open session and re-arms its reminder. Null if not found or already ended. */
+export async function updateParkingSession(
+  userId: number,
+  sessionId: number,
+  input: UpdateSessionInput,
+): Promise<ParkingSession | null> {
+  const { count } = await prisma.parkingSession.updateMany({
+    where: { id: sessionId, userId, endedAt: null },
+    data: { ...input, reminderSentAt: null },
+  });
+  return count > 0 ? getParkingSession(userId, sessionId) : null;
+}
+
+/** Ends an open session. Null if not found or already ended. */
+export async function endParkingSession(
+  userId: number,
+  sessionId: number,
+): Promise<ParkingSession | null> {
+  const { count } = await prisma.parkingSession.updateMany({
+    where: { id: sessionId, userId, endedAt: null },
+    data: { endedAt: new Date(), endReason: 'user' satisfies SessionEndReason },
+  });
+  return count > 0 ? getParkingSession(userId, sessionId) : null;
+}
+
+/**
+ * Alerts open sessions on the ticket's street, or whose point is within their radius
+ * of where the ticket was issued. Returns the device tokens that were alerted so the
+ * generic enrollment push can skip them.
+ */
+export async function alertParkingSessions(
+  ticket: Ticket,
+  footprint: TicketFootprint | null,
+  now: Date,
+): Promise<Set<string>> {
+  const nearby: Prisma.ParkingSessionWhereInput[] = [];
+  if (ticket.streetLocation) nearby.push({ streetLocation: ticket.streetLocation });
+  if (footprint) {
+    const box = footprint.boundingBox(SESSION_MAX_RADIUS_M);
+    nearby.push({
+      lat: { gte: box.minLat, lte: box.maxLat },
+      lng: { gte: box.minLng, lte: box.maxLng },
+    });
+  }
+  if (nearby.length === 0) return new Set();
+
+  const candidates = await prisma.parkingSession.findMany({
+    where: {
+      ...openWhere(now),
+      jurisdictionId: ticket.jurisdictionId,
+      startedAt: { lte: now },
+      OR: nearby,
+    },
+  });
+
+  const byToken = new Map<string, ParkingSession>();
+  for (const session of candidates) {
+    if (session.lastAlertAt && now.getTime() - session.lastAlertAt.getTime() < SESSION_ALERT_COOLDOWN_MS) {
+      continue;
+    }
+    const onStreet = ticket.streetLocation !== null && session.streetLocation === ticket.streetLocation;
+    const near =
+      footprint !== null &&
+      session.lat !== null &&
+      session.lng !== null &&
+      footprint.isWithin({ lat: session.lat, lng: session.lng }, session.radiusM);
+    if ((onStreet || near) && !byToken.has(session.fcmToken)) byToken.set(session.fcmToken, session);
+  }
+  const sessions = [...byToken.values()];
+  if (sessions.length === 0) return new Set();
+
+  const title = '🚨 Enforcement near your car';
+  const where = ticket.streetLocation ? `on ${ticket.streetLocation}` : 'near where you parked';
+  console.log(`📲 Alerting ${sessions.length} parking session(s) for ticket ${ticket.ticketId}`);
+
+  const ticketPoint =
+    ticket.lat !== null && ticket.lng !== null ? { lat: ticket.lat, lng: ticket.lng } : null;
+
+  const alerted = new Set<string>();
+  for (const session of sessions) {
+    const distanceM =
+      ticketPoint && session.lat !== null && session.lng !== null
+        ? Math.round(haversineMeters({ lat: session.lat, lng: session.lng }, ticketPoint))
+        : null;
+    const body = `A ticket was just issued ${where}${distanceM !== null ? ` about ${distanceM} m away` : ''}.`;
+    const [sent] = await sendPush([session.fcmToken], {
+      title,
+      body,
+      data: {
+        ticketId: ticket.ticketId,
+        sessionId: String(session.id),
+        timestamp: ticket.timestamp.toISOString(),
+      },
+    });
+    if (!sent) continue;
+
+    alerted.add(session.fcmToken);
+    await prisma.parkingSession.update({
+      where: { id: session.id },
+      data: { alertCount: { increment: 1 }, lastAlertAt: now },
+    });
+    if (ticket.streetLocation) {
+      await prisma.notification.create({
+        data: {
+          userId: session.userId,
+          title,
+          body,
+          streetLocation: ticket.streetLocation,
+          ticketId: ticket.ticketId,
+        },
+      });
+    }
+  }
+  return alerted;
+}
+
+/** Pushes "ending soon" for open sessions that have entered their reminder lead time. */
+export async function sendDueSessionReminders(now: Date = new Date()): Promise<number> {
+  const candidates = await prisma.parkingSession.findMany({
+    where: { ...openWhere(now), reminderSentAt: null, reminderMinutes: { gt: 0 } },
+  });
+  const due = candidates.filter(
+    (s) => s.expectedEndAt.getTime() - s.reminderMinutes * 60_000 <= now.getTime(),
+  );
+
+  for (const session of due) {
+    const minutesLeft = Math.max(1, Math.round((session.expectedEndAt.getTime() - now.getTime()) / 60_000));
+    await sendPush([session.fcmToken], {
+      title: '⏰ Parking ending soon',
+      body: `Your parking at ${describeLocation(session)} ends in ${minutesLeft} min.`,
+      data: {
+        sessionId: String(session.id),
+        expectedEndAt: session.expectedEndAt.toISOString(),
+      },
+    });
+    // Marked even if the push failed, so a dead token isn't retried every minute.
+    await prisma.parkingSession.update({
+      where: { id: session.id },
+      data: { reminderSentAt: now },
+    });
+  }
+  return due.length;
+}
+
+/** Ends sessions past their expected end. Returns the number closed. */
+export async function closeExpiredSessions(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.parkingSession.updateMany({
+    where: { endedAt: null, expectedEndAt: { lte: now } },
+    data: { endedAt: now, endReason: 'expired' satisfies SessionEndReason },
+  });
+  return count;
+}
@@ -0,0 +1,79 @@
+import admin from 'firebase-admin';
+import { readFileSync } from 'fs';
+
+import { prisma } from '../prisma.js';
+import { fcmMessagesTotal } from '../utils/metrics.js';
+
+// Initialize Firebase Admin SDK once
+if (!admin.apps.length) {
+  const serviceAccountPath = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (!serviceAccountPath) {
+    console.warn('⚠️  FIREBASE_SERVICE_ACCOUNT env var not set — FCM notifications disabled');
+  } else {
+    console.log(`🔑 Loading Firebase service account from: ${serviceAccountPath}`);
+    const serviceAccount = JSON.parse(readFileSync(serviceAccountPath, 'utf-8'));
+    console.log(`🔑 Service account project: ${serviceAccount.project_id}, client: ${serviceAccount.client_email}`);
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+    });
+    console.log('✅ Firebase Admin initialized');
+  }
+}
+
+/** False when `FIREBASE_SERVICE_ACCOUNT` is not configured. */
+export const isPushEnabled = (): boolean => admin.apps.length > 0;
+
+export type PushMessage = {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+};
+
+/**
+ * Sends `message` to every token and returns per-token success in the same order
+ * (all false when FCM is disabled). Tokens Firebase reports as invalid/unregistered
+ * are removed from `FcmEnrollment`.
+ */
+export const sendPush = async (tokens: string[], message: PushMessage): Promise<boolean[]> => {
+  if (!isPushEnabled() || tokens.length === 0) return tokens.map(() => false);
+
+  const response = await admin.messaging().sendEachForMulticast({
+    tokens,
+    notification: { title: message.title, body: message.body },
+    ...(message.data ? { data: message.data } : {}),
+  });
+
+  fcmMessagesTotal.inc({ result: 'success' }, response.successCount);
+  fcmMessagesTotal.inc({ result: 'failure' }, response.failureCount);
+
+  // Log result per token and collect failures
+  const staleTokens: string[] = [];
+  response.responses.forEach((r, i) => {
+    const token = tokens[i] ?? '(unknown)';
+    if (r.success) {
+      console.log(`  ✅ [${i}] Sent to token ...${token.slice(-8)}`);
+    } else {
+      const err = r.error;
+      console.error(`  ❌ [${i}] Failed for token ...${token.slice(-8)}`);
+      console.error(`       Code: ${err?.code ?? 'unknown'}`);
+      console.error(`       Message: ${err?.message ?? 'no message'}`);
+      if (err && 'toJSON' in err) {
+        console.error(`       Detail:`, err.toJSON());
+      }
+      // Only remove tokens that Firebase explicitly says are invalid/unregistered
+      const isStale =
+        err?.code === 'messaging/invalid-registration-token' ||
+        err?.code === 'messaging/registration-token-not-registered';
+      if (isStale && tokens[i]) staleTokens.push(tokens[i]!);
+    }
+  });
+
+  if (staleTokens.length > 0) {
+    console.log(`🗑️  Removing ${staleTokens.length} stale FCM token(s)`);
+    await prisma.fcmEnrollment.deleteMany({
+      where: { fcmToken: { in: staleTokens } },
+    });
+  }
+
+  return response.responses.map((r) => r.success);
+};
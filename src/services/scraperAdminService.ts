@@ -0,0 +1,188 @@
+import { prisma } from '../prisma.js';
+import { matchesTicketIdFormat, requireJurisdiction } from './jurisdictionService.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/AppError.js';
+import { blockStartIdOf, parseTicketId } from '../worker/blockMath.js';
+import {
+  cadenceForLevel,
+  createLane,
+  isAtTail,
+  loadLane,
+  loadLanes,
+  persistLane,
+  resetLaneCursor,
+  retireLane,
+} from '../worker/laneManager.js';
+import type { LaneState, LaneStatus } from '../worker/laneManager.js';
+import {
+  isDiscoveryRequested,
+  isScraperPaused,
+  isScraperRunning,
+  requestLaneReload,
+} from '../worker/scraperControl.js';
+
+/** Lane row plus derived scheduling fields for the admin UI. */
+const describeLane = (lane: LaneState, now: Date = new Date()) => ({
+  ...lane,
+  cadenceMs: cadenceForLevel(lane.cadenceLevel),
+  atTail: isAtTail(lane),
+  dueInMs: lane.status === 'active' ? Math.max(0, lane.nextDueAt.getTime() - now.getTime()) : null,
+});
+
+export type AdminLane = ReturnType<typeof describeLane>;
+
+export async function listScraperLanes(
+  jurisdictionId: string,
+  status?: LaneStatus,
+): Promise<AdminLane[]> {
+  const lanes = [...(await loadLanes(jurisdictionId)).values()]
+    .filter((lane) => !status || lane.status === status)
+    .sort((a, b) =>
+      a.status === b.status
+        ? a.nextDueAt.getTime() - b.nextDueAt.getTime()
+        : a.status === 'active'
+          ? -1
+          : 1,
+    );
+  const now = new Date();
+  return lanes.map((lane) => describeLane(lane, now));
+}
+
+export async function getScraperOverview(jurisdictionId: string) {
+  const [state, lanes] = await Promise.all([
+    prisma.scraperState.findUnique({ where: { jurisdictionId } }),
+    prisma.scraperLane.groupBy({ by: ['status'], where: { jurisdictionId }, _count: { _all: true } }),
+  ]);
+
+  return {
+    jurisdictionId,
+    running: isScraperRunning(jurisdictionId),
+    paused: isScraperPaused(jurisdictionId),
+    discoveryRequested: isDiscoveryRequested(jurisdictionId),
+    status: state?.status ?? null,
+    lastCheckedId: state?.lastCheckedId ?? null,
+    lastDiscoveryAt: state?.lastDiscoveryAt ?? null,
+    laneCounts: Object.fromEntries(lanes.map((row) => [row.status, row._count._all])),
+  };
+}
+
+const parseIdOrThrow = (ticketId: string, field: string) => {
+  const parsed = parseTicketId(ticketId);
+  if (!parsed) {
+    throw new BadRequestError(`${field} must be a ticket ID like 100000064501`, { [field]: ticketId });
+  }
+  return parsed;
+};
+
+const loadLaneOrThrow = async (jurisdictionId: string, blockStartId: string): Promise<LaneState> => {
+  const lane = await loadLane(jurisdictionId, blockStartId);
+  if (!lane) {
+    throw new NotFoundError('Lane not found', { jurisdictionId, blockStartId });
+  }
+  return lane;
+};
+
+/** Cursor must fall inside the lane's own 500-ID block (same prefix and width). */
+const assertCursorInLane = (lane: LaneState, cursorId: string): void => {
+  parseIdOrThrow(cursorId, 'cursorId');
+  if (blockStartIdOf(cursorId) !== lane.blockStartId) {
+    throw new BadRequestError('cursorId is outside this lane\'s block', {
+      cursorId,
+      blockStartId: lane.blockStartId,
+      blockEndId: lane.blockEndId,
+    });
+  }
+};
+
+const saveAndSignal = async (lane: LaneState): Promise<AdminLane> => {
+  await persistLane(lane);
+  requestLaneReload(lane.jurisdictionId);
+  return describeLane(lane);
+};
+
+/** Opens a lane for the block containing `cursorId`, polling from that ID. */
+export async function createScraperLane(jurisdictionId: string, cursorId: string): Promise<AdminLane> {
+  parseIdOrThrow(cursorId, 'cursorId');
+  const jurisdiction = await requireJurisdiction(jurisdictionId);
+  if (!matchesTicketIdFormat(jurisdiction, cursorId)) {
+    throw new BadRequestError(`cursorId is not a ${jurisdiction.name} ticket ID`, {
+      cursorId,
+      ticketIdPattern: jurisdiction.ticketIdPattern,
+    });
+  }
+  const blockStartId = blockStartIdOf(cursorId);
+  const existing = await loadLane(jurisdictionId, blockStartId);
+  if (existing) {
+    throw new ConflictError(`Lane ${blockStartId} already exists (status=${existing.status})`, {
+      blockStartId,
+    });
+  }
+
+  console.log(`🛠️  Admin created ${jurisdictionId} lane ${blockStartId} (cursor=${cursorId})`);
+  return saveAndSignal(createLane(jurisdictionId, blockStartId, cursorId));
+}
+
+export async function retireScraperLane(
+  jurisdictionId: string,
+  blockStartId: string,
+  reason: string,
+): Promise<AdminLane> {
+  const lane = await loadLaneOrThrow(jurisdictionId, blockStartId);
+  if (lane.status === 'retired') {
+    throw new ConflictError(`Lane ${blockStartId} is already retired`, { blockStartId });
+  }
+
+  retireLane(lane, reason);
+  console.log(`🛠️  Admin retired lane ${blockStartId} (reason=${reason})`);
+  return saveAndSignal(lane);
+}
+
+/** Un-retires a lane, resuming at `cursorId` or where it left off. */
+export async function reactivateScraperLane(
+  jurisdictionId: string,
+  blockStartId: string,
+  cursorId?: string,
+): Promise<AdminLane> {
+  const lane = await loadLaneOrThrow(jurisdictionId, blockStartId);
+  if (lane.status === 'active') {
+    throw new ConflictError(`Lane ${blockStartId} is already active`, { blockStartId });
+  }
+  if (cursorId) assertCursorInLane(lane, cursorId);
+
+  resetLaneCursor(lane, cursorId ?? lane.nextCursorId);
+  console.log(`🛠️  Admin reactivated lane ${blockStartId} (cursor=${lane.nextCursorId})`);
+  return saveAndSignal(lane);
+}
+
+/** Moves an active lane's cursor and makes it due immediately. */
+export async function resetScraperLaneCursor(
+  jurisdictionId: string,
+  blockStartId: string,
+  cursorId: string,
+): Promise<AdminLane> {
+  const lane = await loadLaneOrThrow(jurisdictionId, blockStartId);
+  if (lane.status !== 'active') {
+    throw new ConflictError(`Lane ${blockStartId} is retired — reactivate it instead`, {
+      blockStartId,
+    });
+  }
+  assertCursorInLane(lane, cursorId);
+
+  const previous = lane.nextCursorId;
+  resetLaneCursor(lane, cursorId);
+  console.log(`🛠️  Admin moved lane ${blockStartId} cursor ${previous} → ${cursorId}`);
+  return saveAndSignal(lane);
+}
+
+/** Makes an active lane due now without touching its cursor or decay. */
+export async function pollScraperLaneNow(
+  jurisdictionId: string,
+  blockStartId: string,
+): Promise<AdminLane> {
+  const lane = await loadLaneOrThrow(jurisdictionId, blockStartId);
+  if (lane.status !== 'active') {
+    throw new ConflictError(`Lane ${blockStartId} is retired`, { blockStartId });
+  }
+
+  lane.nextDueAt = new Date();
+  return saveAndSignal(lane);
+}
@@ -0,0 +1,199 @@
+import { prisma } from '../prisma.js';
+import { TicketSearchResult } from '../tickets/types.js';
+
+const MS_HOUR = 60 * 60 * 1000;
+const MS_DAY = 24 * MS_HOUR;
+
+export type ProbeKind = 'poll' | 'neighbor' | 'discovery' | 'status_check';
+export type ProbeOutcome = TicketSearchResult | 'captcha_exhausted' | 'error';
+
+export type ProbeRecord = {
+  jurisdictionId: string;
+  ticketId: string;
+  laneBlockStartId: string | null;
+  kind: ProbeKind;
+  outcome: ProbeOutcome;
+  latencyMs: number;
+  captchaAttempts: number;
+  captchaSolves: number;
+};
+
+/** Default 14 days; override with env `SCRAPER_PROBE_RETENTION_DAYS` (1–365). */
+function probeRetentionDays(): number {
+  const raw = process.env.SCRAPER_PROBE_RETENTION_DAYS;
+  const n = raw ? Number.parseInt(raw, 10) : 14;
+  if (!Number.isFinite(n)) return 14;
+  return Math.min(365, Math.max(1, Math.trunc(n)));
+}
+
+/** 2Captcha price per 1000 reCAPTCHA solves; override with env `TWOCAPTCHA_COST_PER_1000_USD`. */
+function captchaCostPer1000Usd(): number {
+  const raw = process.env.TWOCAPTCHA_COST_PER_1000_USD;
+  const n = raw ? Number.parseFloat(raw) : 2.99;
+  return Number.isFinite(n) && n >= 0 ? n : 2.99;
+}
+
+/**
+ * Persists one probe. Telemetry must never break the scraper loop, so failures are
+ * logged and swallowed. Returns the row id, or null if the write failed.
+ */
+export async function recordProbe(record: ProbeRecord): Promise<number | null> {
+  try {
+    const row = await prisma.scraperProbe.create({ data: record, select: { id: true } });
+    return row.id;
+  } catch (error) {
+    console.error('Failed to record scraper probe:', error);
+    return null;
+  }
+}
+
+/** Marks the probe that saved a new ticket with how long after issue it was detected. */
+export async function recordDetectLag(probeId: number, detectLagMs: number): Promise<void> {
+  try {
+    await prisma.scraperProbe.update({
+      where: { id: probeId },
+      data: { detectLagMs: Math.max(0, Math.round(detectLagMs)) },
+    });
+  } catch (error) {
+    console.error('Failed to record detect lag:', error);
+  }
+}
+
+/** Deletes probes older than the retention window. Returns the number deleted. */
+export async function pruneScraperProbes(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - probeRetentionDays() * MS_DAY);
+  const { count } = await prisma.scraperProbe.deleteMany({ where: { probedAt: { lt: cutoff } } });
+  return count;
+}
+
+const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[idx]!;
+};
+
+type LaneTelemetry = {
+  blockStartId: string | null;
+  probes: number;
+  hits: number;
+  closed: number;
+  noResults: number;
+  captchaExhausted: number;
+  errors: number;
+  /** `hits / probes`, where a hit is an ACCESSIBLE result. */
+  hitRate: number;
+  avgLatencyMs: number | null;
+};
+
+/** Admin dashboard aggregates over one jurisdiction's probes in [since, until). */
+export async function getScraperTelemetry(options: { jurisdictionId: string; since: Date; until: Date }) {
+  const { jurisdictionId, since, until } = options;
+  const where = { jurisdictionId, probedAt: { gte: since, lt: until } };
+
+  const [byLaneOutcome, latencyByLane, captchaRows, lagRows] = await Promise.all([
+    prisma.scraperProbe.groupBy({
+      by: ['laneBlockStartId', 'outcome'],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.scraperProbe.groupBy({
+      by: ['laneBlockStartId'],
+      where,
+      _avg: { latencyMs: true },
+    }),
+    prisma.scraperProbe.findMany({
+      where: { ...where, captchaAttempts: { gt: 0 } },
+      select: { probedAt: true, captchaAttempts: true, captchaSolves: true },
+    }),
+    prisma.scraperProbe.findMany({
+      where: { ...where, detectLagMs: { not: null } },
+      select: { detectLagMs: true },
+    }),
+  ]);
+
+  const lanes = new Map<string | null, LaneTelemetry>();
+  const outcomeTotals: Record<string, number> = {};
+  for (const row of byLaneOutcome) {
+    const count = row._count._all;
+    outcomeTotals[row.outcome] = (outcomeTotals[row.outcome] ?? 0) + count;
+
+    let lane = lanes.get(row.laneBlockStartId);
+    if (!lane) {
+      lane = {
+        blockStartId: row.laneBlockStartId,
+        probes: 0,
+        hits: 0,
+        closed: 0,
+        noResults: 0,
+        captchaExhausted: 0,
+        errors: 0,
+        hitRate: 0,
+        avgLatencyMs: null,
+      };
+      lanes.set(row.laneBlockStartId, lane);
+    }
+    lane.probes += count;
+    if (row.outcome === TicketSearchResult.ACCESSIBLE) lane.hits += count;
+    else if (row.outcome === TicketSearchResult.CLOSED) lane.closed += count;
+    else if (row.outcome === TicketSearchResult.NO_RESULTS) lane.noResults += count;
+    else if (row.outcome === 'captcha_exhausted') lane.captchaExhausted += count;
+    else if (row.outcome === 'error') lane.errors += count;
+  }
+  for (const row of latencyByLane) {
+    const lane = lanes.get(row.laneBlockStartId);
+    if (lane && row._avg.latencyMs !== null) lane.avgLatencyMs = Math.round(row._avg.latencyMs);
+  }
+  for (const lane of lanes.values()) {
+    lane.hitRate = lane.probes > 0 ? lane.hits / lane.probes : 0;
+  }
+
+  // Hourly CAPTCHA buckets (UTC hour starts); only hours with CAPTCHAs appear.
+  const hourly = new Map<number, { attempts: number; solves: number }>();
+  let captchaAttempts = 0;
+  let captchaSolves = 0;
+  for (const row of captchaRows) {
+    const hour = Math.floor(row.probedAt.getTime() / MS_HOUR) * MS_HOUR;
+    const bucket = hourly.get(hour) ?? { attempts: 0, solves: 0 };
+    bucket.attempts += row.captchaAttempts;
+    bucket.solves += row.captchaSolves;
+    hourly.set(hour, bucket);
+    captchaAttempts += row.captchaAttempts;
+    captchaSolves += row.captchaSolves;
+  }
+  const windowHours = Math.max(1, (until.getTime() - since.getTime()) / MS_HOUR);
+  const costPer1000Usd = captchaCostPer1000Usd();
+
+  const lags = lagRows
+    .map((row) => row.detectLagMs)
+    .filter((ms): ms is number => ms !== null)
+    .sort((a, b) => a - b);
+
+  return {
+    jurisdictionId,
+    windowStart: since.toISOString(),
+    windowEnd: until.toISOString(),
+    probes: Object.values(outcomeTotals).reduce((a, b) => a + b, 0),
+    outcomes: outcomeTotals,
+    lanes: [...lanes.values()].sort((a, b) => b.probes - a.probes),
+    captcha: {
+      attempts: captchaAttempts,
+      solves: captchaSolves,
+      solvesPerHour: captchaSolves / windowHours,
+      hourly: [...hourly.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([hour, bucket]) => ({ hour: new Date(hour).toISOString(), ...bucket })),
+    },
+    twoCaptchaSpend: {
+      costPer1000Usd,
+      /** Solver requests × list price, rounded to cents (an upper bound: unsolvable ones are refunded). */
+      estimatedUsd: Math.round((captchaSolves * costPer1000Usd) / 10) / 100,
+    },
+    timeToDetect: {
+      samples: lags.length,
+      avgMs: lags.length > 0 ? Math.round(lags.reduce((a, b) => a + b, 0) / lags.length) : null,
+      p50Ms: percentile(lags, 50),
+      p90Ms: percentile(lags, 90),
+      maxMs: lags.length > 0 ? lags[lags.length - 1]! : null,
+    },
+  };
+}
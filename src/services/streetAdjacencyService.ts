@@ -0,0 +1,288 @@
+import type { Prisma } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import {
+  type BoundingBox,
+  type LatLng,
+  boundingBoxAround,
+  closestApproach,
+  polylineLengthMeters,
+} from '../utils/geo.js';
+import {
+  STORED_GEOMETRY_SELECT,
+  type StoredStreetGeometry,
+  effectiveSegments,
+  segmentsToPolylines,
+} from './streetSegments.js';
+
+/**
+ * Streets whose polylines come this close without sharing a node still count as adjacent
+ * (a gap in the OSM data, a slip lane, the far side of a divided road).
+ */
+export const STREET_ADJACENCY_GAP_M = 20;
+
+/** Coordinates equal to this many decimals (~0.1 m) are one node. */
+const NODE_PRECISION = 6;
+
+/** Default window for neighbour activity in `getStreetNeighbors`. */
+export const NEIGHBOR_ACTIVITY_DEFAULT_HOURS = 24;
+export const NEIGHBOR_ACTIVITY_MAX_HOURS = 30 * 24;
+
+type StreetShape = {
+  street: string;
+  polylines: LatLng[][];
+  box: BoundingBox;
+  nodes: Set<string>;
+  lengthMeters: number;
+};
+
+type AdjacencyEdge = {
+  kind: 'intersection' | 'touch';
+  sharedNodeCount: number;
+  gapMeters: number;
+  lat: number;
+  lng: number;
+};
+
+const nodeKey = (point: LatLng) => `${point.lat.toFixed(NODE_PRECISION)},${point.lng.toFixed(NODE_PRECISION)}`;
+
+const shapeOf = (street: string, row: StoredStreetGeometry): StreetShape | null => {
+  const polylines = segmentsToPolylines(effectiveSegments(row));
+  const points = polylines.flat();
+  if (points.length === 0) return null;
+  return {
+    street,
+    polylines,
+    box: {
+      minLat: Math.min(...points.map((p) => p.lat)),
+      maxLat: Math.max(...points.map((p) => p.lat)),
+      minLng: Math.min(...points.map((p) => p.lng)),
+      maxLng: Math.max(...points.map((p) => p.lng)),
+    },
+    nodes: new Set(points.map(nodeKey)),
+    lengthMeters: polylines.reduce((sum, line) => sum + polylineLengthMeters(line), 0),
+  };
+};
+
+/** Every street of the jurisdiction with usable stored geometry. */
+const loadShapes = async (jurisdictionId: string): Promise<StreetShape[]> => {
+  const rows = await prisma.streetGeometry.findMany({
+    where: { jurisdictionId },
+    select: { streetLocation: true, ...STORED_GEOMETRY_SELECT },
+  });
+  return rows
+    .map((row) => shapeOf(row.streetLocation, row))
+    .filter((shape): shape is StreetShape => shape !== null);
+};
+
+/** Cheap reject: boxes more than `marginM` apart can't hold streets within `marginM`. */
+const boxesWithin = (a: BoundingBox, b: BoundingBox, marginM: number): boolean => {
+  const sw = boundingBoxAround({ lat: a.minLat, lng: a.minLng }, marginM);
+  const ne = boundingBoxAround({ lat: a.maxLat, lng: a.maxLng }, marginM);
+  return sw.minLat <= b.maxLat && ne.maxLat >= b.minLat && sw.minLng <= b.maxLng && ne.maxLng >= b.minLng;
+};
+
+const edgeBetween = (a: StreetShape, b: StreetShape): AdjacencyEdge | null => {
+  if (!boxesWithin(a.box, b.box, STREET_ADJACENCY_GAP_M)) return null;
+
+  const shared = [...a.nodes].filter((node) => b.nodes.has(node));
+  if (shared.length > 0) {
+    const [lat, lng] = shared[0]!.split(',').map(Number);
+    return { kind: 'intersection', sharedNodeCount: shared.length, gapMeters: 0, lat: lat!, lng: lng! };
+  }
+
+  const closest = closestApproach(a.polylines, b.polylines);
+  if (!closest || closest.distanceM > STREET_ADJACENCY_GAP_M) return null;
+  return {
+    kind: 'touch',
+    sharedNodeCount: 0,
+    gapMeters: Math.round(closest.distanceM * 10) / 10,
+    ...closest.at,
+  };
+};
+
+/** Both directions of an edge, as rows. */
+const edgeRows = (jurisdictionId: string, a: string, b: string, edge: AdjacencyEdge, builtAt: Date) => [
+  { jurisdictionId, streetLocation: a, neighborLocation: b, ...edge, builtAt },
+  { jurisdictionId, streetLocation: b, neighborLocation: a, ...edge, builtAt },
+];
+
+/**
+ * Rebuilds the jurisdiction's whole street graph from stored geometry, replacing every edge,
+ * and records each street's length and bounding box. Run after bulk geometry changes; single fetches update
+ * their own street through `rebuildStreetAdjacency`.
+ */
+export async function rebuildStreetGraph(jurisdictionId: string): Promise<{ streets: number; edges: number }> {
+  const shapes = await loadShapes(jurisdictionId);
+  const builtAt = new Date();
+  const rows: Prisma.StreetAdjacencyCreateManyInput[] = [];
+  for (let i = 0; i < shapes.length; i += 1) {
+    for (let j = i + 1; j < shapes.length; j += 1) {
+      const edge = edgeBetween(shapes[i]!, shapes[j]!);
+      if (edge) rows.push(...edgeRows(jurisdictionId, shapes[i]!.street, shapes[j]!.street, edge, builtAt));
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.streetAdjacency.deleteMany({ where: { jurisdictionId } }),
+    prisma.streetAdjacency.createMany({ data: rows }),
+    ...shapes.map((shape) =>
+      prisma.streetGeometry.update({
+        where: { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: shape.street } },
+        data: { lengthMeters: shape.lengthMeters, ...shape.box },
+      }),
+    ),
+  ]);
+  return { streets: shapes.length, edges: rows.length / 2 };
+}
+
+/**
+ * Re-derives one street's edges after its geometry changed (fetched, renamed or removed).
+ * A street without usable geometry just loses its edges. Returns the street's edge count.
+ */
+export async function rebuildStreetAdjacency(jurisdictionId: string, streetLocation: string): Promise<number> {
+  const shapes = await loadShapes(jurisdictionId);
+  const target = shapes.find((shape) => shape.street === streetLocation);
+  const builtAt = new Date();
+  const rows: Prisma.StreetAdjacencyCreateManyInput[] = [];
+  if (target) {
+    for (const other of shapes) {
+      if (other === target) continue;
+      const edge = edgeBetween(target, other);
+      if (edge) rows.push(...edgeRows(jurisdictionId, target.street, other.street, edge, builtAt));
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.streetAdjacency.deleteMany({
+      where: { jurisdictionId, OR: [{ streetLocation }, { neighborLocation: streetLocation }] },
+    }),
+    prisma.streetAdjacency.createMany({ data: rows }),
+    ...(target
+      ? [
+          prisma.streetGeometry.update({
+            where: { jurisdictionId_streetLocation: { jurisdictionId, streetLocation } },
+            data: { lengthMeters: target.lengthMeters, ...target.box },
+          }),
+        ]
+      : []),
+  ]);
+  return rows.length / 2;
+}
+
+/**
+ * Builds the graph for every jurisdiction that has stored geometry but no edges yet (geometry
+ * stored before the graph existed, or a fresh restore), or streets measured before bounding boxes
+ * were recorded. Run on startup; adjacent-street warnings read only the graph.
+ */
+export async function buildMissingStreetGraphsOnStartup(): Promise<
+  Array<{ jurisdictionId: string; streets: number; edges: number }>
+> {
+  const [withGeometry, withEdges, withoutBoxes] = await Promise.all([
+    prisma.streetGeometry.groupBy({ by: ['jurisdictionId'] }),
+    prisma.streetAdjacency.groupBy({ by: ['jurisdictionId'] }),
+    prisma.streetGeometry.groupBy({
+      by: ['jurisdictionId'],
+      where: { lengthMeters: { not: null }, minLat: null },
+    }),
+  ]);
+  const stale = new Set(withoutBoxes.map((row) => row.jurisdictionId));
+  const built = new Set(withEdges.map((row) => row.jurisdictionId).filter((id) => !stale.has(id)));
+
+  const results = [];
+  for (const { jurisdictionId } of withGeometry) {
+    if (built.has(jurisdictionId)) continue;
+    results.push({ jurisdictionId, ...(await rebuildStreetGraph(jurisdictionId)) });
+  }
+  return results;
+}
+
+/** Streets adjacent to any of `streets` in the stored graph (excluding `streets` themselves). */
+export async function listAdjacentStreets(jurisdictionId: string, streets: string[]): Promise<Set<string>> {
+  if (streets.length === 0) return new Set();
+  const edges = await prisma.streetAdjacency.findMany({
+    where: { jurisdictionId, streetLocation: { in: streets } },
+    select: { neighborLocation: true },
+  });
+  const given = new Set(streets);
+  return new Set(edges.map((edge) => edge.neighborLocation).filter((street) => !given.has(street)));
+}
+
+/**
+ * A street's neighbours in the graph — how they meet and their tickets in the last
+ * `lookbackHours` — with the street's own segment lengths. Most recently ticketed neighbour
+ * first. Null when the street has no stored geometry.
+ */
+export async function getStreetNeighbors(
+  jurisdictionId: string,
+  streetLocation: string,
+  options: { lookbackHours?: number } = {},
+) {
+  const geometry = await prisma.streetGeometry.findUnique({
+    where: { jurisdictionId_streetLocation: { jurisdictionId, streetLocation } },
+    select: { ...STORED_GEOMETRY_SELECT, lengthMeters: true, fetchedAt: true },
+  });
+  if (!geometry) return null;
+
+  const lookbackHours = options.lookbackHours ?? NEIGHBOR_ACTIVITY_DEFAULT_HOURS;
+  const since = new Date(Date.now() - lookbackHours * 60 * 60 * 1000);
+  const edges = await prisma.streetAdjacency.findMany({
+    where: { jurisdictionId, streetLocation },
+    orderBy: { neighborLocation: 'asc' },
+  });
+  const neighborNames = edges.map((edge) => edge.neighborLocation);
+
+  const [activity, lengths] = await Promise.all([
+    prisma.ticket.groupBy({
+      by: ['streetLocation'],
+      where: { jurisdictionId, streetLocation: { in: neighborNames }, timestamp: { gte: since } },
+      _count: { _all: true },
+      _max: { timestamp: true },
+    }),
+    prisma.streetGeometry.findMany({
+      where: { jurisdictionId, streetLocation: { in: neighborNames } },
+      select: { streetLocation: true, lengthMeters: true },
+    }),
+  ]);
+  const activityOf = new Map(activity.map((row) => [row.streetLocation, row]));
+  const lengthOf = new Map(lengths.map((row) => [row.streetLocation, row.lengthMeters]));
+
+  const neighbors = edges.map((edge) => {
+    const recent = activityOf.get(edge.neighborLocation);
+    return {
+      street: edge.neighborLocation,
+      kind: edge.kind,
+      sharedNodeCount: edge.sharedNodeCount,
+      gapMeters: edge.gapMeters,
+      junction: { lat: edge.lat, lng: edge.lng },
+      lengthMeters: lengthOf.get(edge.neighborLocation) ?? null,
+      recentTicketCount: recent?._count._all ?? 0,
+      lastTicketAt: recent?._max.timestamp ?? null,
+    };
+  });
+  neighbors.sort(
+    (a, b) =>
+      (b.lastTicketAt?.getTime() ?? 0) - (a.lastTicketAt?.getTime() ?? 0) || a.street.localeCompare(b.street),
+  );
+
+  const segments = effectiveSegments(geometry);
+  return {
+    jurisdictionId,
+    street: streetLocation,
+    osmNotFound: geometry.notFound,
+    overridden: geometry.override !== null,
+    /** Null until the street graph has been built for this geometry. */
+    lengthMeters: geometry.lengthMeters,
+    segments: segments.map((segment) => ({
+      wayId: segment.wayId,
+      lengthMeters: Math.round(
+        polylineLengthMeters(segment.geometry.map(({ lat, lon }) => ({ lat, lng: lon }))),
+      ),
+    })),
+    geometryFetchedAt: geometry.fetchedAt,
+    lookbackHours,
+    neighbors,
+    /** When these edges were derived; null when the street has none. */
+    builtAt: edges[0]?.builtAt ?? null,
+  };
+}
@@ -1,7 +1,22 @@
-import type { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { Jurisdiction } from '@prisma/client';
 
 import { prisma } from '../prisma.js';
-import { BadRequestError, ServiceUnavailableError } from '../utils/AppError.js';
+import { requireJurisdiction } from './jurisdictionService.js';
+import { rebuildStreetAdjacency } from './streetAdjacencyService.js';
+import {
+  STORED_GEOMETRY_SELECT,
+  type StreetGeometryPoint,
+  type StreetGeometrySegment,
+  effectiveSegments,
+  excludedWayIdsOf,
+  segmentsToPolylines,
+} from './streetSegments.js';
+import { canonicalStreetName } from './streetService.js';
+import { BadRequestError, NotFoundError, ServiceUnavailableError } from '../utils/AppError.js';
+import type { LatLng } from '../utils/geo.js';
+import { locationIqRequestsTotal } from '../utils/metrics.js';
 
 /** LocationIQ Nominatim-compatible search (US region default; set LOCATIONIQ_BASE_URL for eu1). */
 const DEFAULT_LOCATIONIQ_SEARCH_URL = 'https://us1.locationiq.com/v1/search';
@@ -16,29 +31,49 @@ const MIN_INTERVAL_MS = (() => {
   return Number.isFinite(n) && n >= 0 ? n : 3000;
 })();
 
-/** Default free-text context for `q=` (tickets are City of Ithaca, NY). */
-const DEFAULT_GEOCODE_CITY = 'Ithaca';
-const DEFAULT_GEOCODE_STATE = 'New York';
-const DEFAULT_GEOCODE_COUNTRY = 'USA';
+export type { StreetGeometryPoint, StreetGeometrySegment } from './streetSegments.js';
 
-export type StreetGeometryPoint = { lat: number; lon: number };
+const MS_DAY = 24 * 60 * 60 * 1000;
 
-/** One polyline segment (OSM may split a road into multiple ways). */
-export type StreetGeometrySegment = {
-  /** OSM object id when present; otherwise synthetic. */
-  wayId: number;
-  tags: Record<string, string>;
-  geometry: StreetGeometryPoint[];
+/**
+ * Days before stored geometry is fetched again (env `STREET_GEOMETRY_TTL_DAYS`), and the
+ * shorter wait before retrying a street LocationIQ found nothing for
+ * (env `STREET_GEOMETRY_NOT_FOUND_TTL_DAYS`). Streets with an override are never re-fetched.
+ */
+const envDays = (name: string, fallback: number): number => {
+  const n = Number.parseFloat(process.env[name] ?? '');
+  return Number.isFinite(n) && n > 0 ? n : fallback;
 };
+const GEOMETRY_TTL_MS = envDays('STREET_GEOMETRY_TTL_DAYS', 90) * MS_DAY;
+const NOT_FOUND_TTL_MS = envDays('STREET_GEOMETRY_NOT_FOUND_TTL_DAYS', 7) * MS_DAY;
+
+/** Upper bound on points in an uploaded override. */
+const OVERRIDE_MAX_POINTS = 5000;
 
 export type StreetGeometryResponse = {
+  jurisdictionId: string;
   street: string;
+  /** The override when one is set, else the fetched segments minus excluded ways. */
   segments: StreetGeometrySegment[];
   /** True when no line geometry was returned for this street search. */
   osmNotFound: boolean;
+  /** locationiq, or override when an admin uploaded the geometry. */
+  source: 'locationiq' | 'override';
+  excludedWayIds: number[];
   fetchedAt: string;
+  refreshAfter: string | null;
 };
 
+/** When stored geometry is next due for a re-fetch; null for an override. */
+export const geometryRefreshDueAt = (row: {
+  fetchedAt: Date;
+  notFound: boolean;
+  override: Prisma.JsonValue | null;
+}): Date | null =>
+  row.override !== null
+    ? null
+    : new Date(row.fetchedAt.getTime() + (row.notFound ? NOT_FOUND_TTL_MS : GEOMETRY_TTL_MS));
+
 type LonLat = [number, number];
 
 type GeoJsonGeometry = {
@@ -89,27 +124,34 @@ function getLocationIqAccessToken(): string {
   return key;
 }
 
-function buildSearchQuery(streetName: string): string {
-  const city =
-    process.env.LOCATIONIQ_GEOCODE_CITY?.trim() ?? DEFAULT_GEOCODE_CITY;
-  const state =
-    process.env.LOCATIONIQ_STATE?.trim() ?? DEFAULT_GEOCODE_STATE;
-  const country =
-    process.env.LOCATIONIQ_COUNTRY?.trim() ?? DEFAULT_GEOCODE_COUNTRY;
-  return `${streetName.trim()}, ${city}, ${state}, ${country}`;
+/** Free-text `q=` with the jurisdiction's geocode context (city, state, country). */
+function buildSearchQuery(jurisdiction: Jurisdiction, streetName: string): string {
+  const { geocodeCity, geocodeState, geocodeCountry } = jurisdiction;
+  return `${streetName.trim()}, ${geocodeCity}, ${geocodeState}, ${geocodeCountry}`;
 }
 
-function buildLocationIqSearchUrlForStreet(streetName: string): string {
+/** True when a LocationIQ key is set (geometry fetches and address geocoding are possible). */
+export function isLocationIqConfigured(): boolean {
+  return Boolean(
+    process.env.LOCATIONIQ_ACCESS_TOKEN?.trim() || process.env.LOCATIONIQ_API_KEY?.trim(),
+  );
+}
+
+function buildLocationIqSearchUrl(
+  jurisdiction: Jurisdiction,
+  query: string,
+  options: { polygons: boolean; limit: string },
+): string {
   const key = getLocationIqAccessToken();
   const base =
     process.env.LOCATIONIQ_BASE_URL?.trim() ?? DEFAULT_LOCATIONIQ_SEARCH_URL;
   const params = new URLSearchParams({
     key,
-    q: buildSearchQuery(streetName),
+    q: buildSearchQuery(jurisdiction, query),
     format: 'json',
     addressdetails: '1',
-    polygon_geojson: '1',
-    limit: process.env.LOCATIONIQ_LIMIT?.trim() ?? '8',
+    ...(options.polygons ? { polygon_geojson: '1' } : {}),
+    limit: options.limit,
   });
   const countrycodes = process.env.LOCATIONIQ_COUNTRYCODES?.trim();
   if (countrycodes) {
@@ -146,10 +188,23 @@ function coordinatesToPoints(coords: LonLat[]): StreetGeometryPoint[] {
   return coords.map(([lon, lat]) => ({ lat, lon }));
 }
 
+/**
+ * Way id for a line with no OSM id of its own (extra parts of a multi-line, features without
+ * one): negative, so it can't clash with an OSM id, and derived from the coordinates, so a
+ * re-fetch gives the same line the same id whatever order the results come back in and stored
+ * exclusions keep pointing at it.
+ */
+function syntheticWayId(geometry: StreetGeometryPoint[]): number {
+  const digest = createHash('sha1')
+    .update(geometry.map(({ lat, lon }) => `${lat.toFixed(7)},${lon.toFixed(7)}`).join(';'))
+    .digest();
+  return -(digest.readUIntBE(0, 6) + 1);
+}
+
 function geometryToSegments(
   geom: GeoJsonGeometry | undefined,
   props: Record<string, string>,
-  allocateWayId: () => number,
+  wayIdFor: (geometry: StreetGeometryPoint[], part: number) => number,
 ): StreetGeometrySegment[] {
   const segments: StreetGeometrySegment[] = [];
   if (!geom?.type) return segments;
@@ -157,11 +212,8 @@ function geometryToSegments(
   if (geom.type === 'LineString') {
     const coords = geom.coordinates as LonLat[] | undefined;
     if (!coords?.length) return segments;
-    segments.push({
-      wayId: allocateWayId(),
-      tags: props,
-      geometry: coordinatesToPoints(coords),
-    });
+    const geometry = coordinatesToPoints(coords);
+    segments.push({ wayId: wayIdFor(geometry, 0), tags: props, geometry });
     return segments;
   }
 
@@ -170,11 +222,8 @@ function geometryToSegments(
     if (!multi?.length) return segments;
     for (const line of multi) {
       if (!line?.length) continue;
-      segments.push({
-        wayId: allocateWayId(),
-        tags: props,
-        geometry: coordinatesToPoints(line),
-      });
+      const geometry = coordinatesToPoints(line);
+      segments.push({ wayId: wayIdFor(geometry, segments.length), tags: props, geometry });
     }
     return segments;
   }
@@ -185,7 +234,6 @@ function geometryToSegments(
 /** Nominatim JSON: array of places, each may include `geojson` when polygon_geojson=1. */
 function nominatimJsonToSegments(results: unknown[]): StreetGeometrySegment[] {
   const segments: StreetGeometrySegment[] = [];
-  let synthetic = 0;
 
   for (const item of results) {
     if (typeof item !== 'object' || item === null) continue;
@@ -201,28 +249,21 @@ function nominatimJsonToSegments(results: unknown[]): StreetGeometrySegment[] {
       if (Number.isFinite(n)) baseWayId = n;
     }
 
-    let part = 0;
-    const allocateWayId = (): number => {
-      if (baseWayId !== undefined && part === 0) {
-        part++;
-        return baseWayId;
-      }
-      return synthetic++;
-    };
+    // The OSM id names the first line; further parts get ids from their coordinates.
+    const wayIdFor = (geometry: StreetGeometryPoint[], part: number): number =>
+      baseWayId !== undefined && part === 0 ? baseWayId : syntheticWayId(geometry);
 
-    segments.push(...geometryToSegments(geojson, props, allocateWayId));
+    segments.push(...geometryToSegments(geojson, props, wayIdFor));
   }
   return segments;
 }
 
 function featureCollectionToSegments(fc: GeoJsonFeatureCollection): StreetGeometrySegment[] {
   const segments: StreetGeometrySegment[] = [];
-  let synthetic = 0;
   for (const feature of fc.features ?? []) {
     const geom = feature.geometry;
     const props = propsToStringRecord(feature.properties);
-    const allocateWayId = (): number => synthetic++;
-    segments.push(...geometryToSegments(geom, props, allocateWayId));
+    segments.push(...geometryToSegments(geom, props, syntheticWayId));
   }
   return segments;
 }
@@ -253,10 +294,11 @@ function normalizeLocationIqResponse(data: unknown): StreetGeometrySegment[] {
   );
 }
 
-async function fetchSegmentsFromLocationIq(
-  streetName: string,
-): Promise<StreetGeometrySegment[]> {
-  const url = buildLocationIqSearchUrlForStreet(streetName);
+/**
+ * GET a LocationIQ URL and parse its JSON body; every failure becomes a 503.
+ * With `notFoundAsEmpty`, a 404 ("Unable to geocode") yields `[]` instead.
+ */
+async function requestLocationIq(url: string, notFoundAsEmpty = false): Promise<unknown> {
   let res: Response;
   try {
     res = await fetch(url, {
@@ -267,10 +309,16 @@ async function fetchSegmentsFromLocationIq(
       },
     });
   } catch (e) {
+    locationIqRequestsTotal.inc({ result: 'error' });
     const message = e instanceof Error ? e.message : String(e);
     throw new ServiceUnavailableError(`LocationIQ request failed: ${message}`);
   }
 
+  const missed = notFoundAsEmpty && res.status === 404;
+  locationIqRequestsTotal.inc({
+    result: res.status === 429 ? 'rate_limited' : res.ok || missed ? 'ok' : 'error',
+  });
+  if (missed) return [];
   if (res.status === 429) {
     throw new ServiceUnavailableError('LocationIQ rate-limited; try again later.');
   }
@@ -285,26 +333,86 @@ async function fetchSegmentsFromLocationIq(
     );
   }
 
-  let data: unknown;
   try {
-    data = JSON.parse(text) as unknown;
+    return JSON.parse(text) as unknown;
   } catch {
     throw new ServiceUnavailableError('LocationIQ returned invalid JSON');
   }
+}
 
-  return normalizeLocationIqResponse(data);
+async function fetchSegmentsFromLocationIq(
+  jurisdiction: Jurisdiction,
+  streetName: string,
+): Promise<StreetGeometrySegment[]> {
+  const url = buildLocationIqSearchUrl(jurisdiction, streetName, {
+    polygons: true,
+    limit: process.env.LOCATIONIQ_LIMIT?.trim() ?? '8',
+  });
+  return normalizeLocationIqResponse(await requestLocationIq(url));
 }
 
+export type GeocodeMatch = LatLng & {
+  /** LocationIQ matched a building / house number, not just the road or area. */
+  addressLevel: boolean;
+};
+
+/**
+ * Geocodes free-text address (e.g. "215 LINDEN AVE") within the jurisdiction's city.
+ * Shares the LocationIQ throttle with geometry fetches. Null when nothing matched.
+ */
+export async function geocodeAddress(
+  jurisdictionId: string,
+  address: string,
+): Promise<GeocodeMatch | null> {
+  const jurisdiction = await requireJurisdiction(jurisdictionId);
+  const url = buildLocationIqSearchUrl(jurisdiction, address, { polygons: false, limit: '1' });
+  const data = await enqueueLocationIq(() => requestLocationIq(url, true));
+  if (!Array.isArray(data) || data.length === 0) return null;
+
+  const top = data[0] as { lat?: unknown; lon?: unknown; address?: { house_number?: unknown } };
+  const lat = Number(top.lat);
+  const lng = Number(top.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return { lat, lng, addressLevel: top.address?.house_number !== undefined };
+}
+
+/**
+ * Fetches a street's line geometry from LocationIQ and stores it. With `keepOnMiss` (TTL
+ * refreshes of a street that has geometry), an empty answer only bumps `fetchedAt` instead of
+ * replacing good segments with a "not found".
+ */
 export async function fetchAndStoreStreetGeometry(
+  jurisdictionId: string,
   canonicalStreet: string,
+  options: { keepOnMiss?: boolean } = {},
 ): Promise<StreetGeometrySegment[]> {
-  const segments = await fetchSegmentsFromLocationIq(canonicalStreet);
+  const jurisdiction = await requireJurisdiction(jurisdictionId);
+  const segments = await fetchSegmentsFromLocationIq(jurisdiction, canonicalStreet);
   const notFound = segments.length === 0;
   const jsonSegments = segments as unknown as Prisma.InputJsonValue;
+  const key = { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: canonicalStreet } };
+
+  if (notFound && options.keepOnMiss) {
+    await prisma.streetGeometry.update({ where: key, data: { fetchedAt: new Date() } });
+    console.warn(`[streetGeometry] Refresh of "${canonicalStreet}" found nothing; keeping stored geometry`);
+    return segments;
+  }
+
+  // Exclusions naming a way the new answer no longer has would otherwise linger unseen.
+  const stored = await prisma.streetGeometry.findUnique({ where: key, select: { excludedWayIds: true } });
+  const fetchedIds = new Set(segments.map((segment) => segment.wayId));
+  const excluded = stored ? excludedWayIdsOf(stored) : [];
+  const kept = excluded.filter((id) => fetchedIds.has(id));
+  if (kept.length < excluded.length) {
+    console.warn(
+      `[streetGeometry] Dropped ${excluded.length - kept.length} excluded way(s) of "${canonicalStreet}" missing from the refresh`,
+    );
+  }
 
   await prisma.streetGeometry.upsert({
-    where: { streetLocation: canonicalStreet },
+    where: key,
     create: {
+      jurisdictionId,
       streetLocation: canonicalStreet,
       segments: jsonSegments,
       notFound,
@@ -312,27 +420,35 @@ export async function fetchAndStoreStreetGeometry(
     update: {
       segments: jsonSegments,
       notFound,
+      excludedWayIds: kept.length > 0 ? kept : Prisma.DbNull,
+      fetchedAt: new Date(),
     },
   });
+  await rebuildStreetAdjacency(jurisdictionId, canonicalStreet).catch((e) =>
+    console.error(`[streetGeometry] Failed to update street graph for "${canonicalStreet}":`, e),
+  );
 
   return segments;
 }
 
 /**
- * If `streetLocation` is missing or already stored (including “no line” result), no-ops.
- * Otherwise fetches from LocationIQ (throttled) and upserts `StreetGeometry`.
+ * If `streetLocation` is missing, overridden, or stored and not yet due for a refresh
+ * (including a recent “no line” result), no-ops. Otherwise fetches from LocationIQ and
+ * upserts `StreetGeometry`; a refresh that finds nothing keeps the stored segments.
  */
 export async function ensureStreetGeometryStored(
+  jurisdictionId: string,
   streetLocation: string | null | undefined,
 ): Promise<void> {
   const key = streetLocation?.trim();
   if (!key) return;
 
   const existing = await prisma.streetGeometry.findUnique({
-    where: { streetLocation: key },
-    select: { streetLocation: true },
+    where: { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: key } },
+    select: { fetchedAt: true, notFound: true, override: true },
   });
-  if (existing) return;
+  const dueAt = existing ? geometryRefreshDueAt(existing) : null;
+  if (existing && (!dueAt || dueAt > new Date())) return;
 
   try {
     getLocationIqAccessToken();
@@ -345,79 +461,98 @@ export async function ensureStreetGeometryStored(
   }
 
   try {
-    await fetchAndStoreStreetGeometry(key);
+    await fetchAndStoreStreetGeometry(jurisdictionId, key, {
+      keepOnMiss: existing !== null && !existing.notFound,
+    });
   } catch (e) {
-    console.error(`[streetGeometry] Failed to fetch geometry for "${key}":`, e);
+    console.error(`[streetGeometry] Failed to fetch geometry for "${key}" (${jurisdictionId}):`, e);
   }
 }
 
-/** Distinct ticket streets that do not yet have a `StreetGeometry` row. */
-export async function listTicketStreetsMissingGeometry(): Promise<string[]> {
-  const rows = await prisma.$queryRaw<Array<{ streetLocation: string }>>`
-    SELECT DISTINCT t.streetLocation AS streetLocation
+/**
+ * Stored polylines for an exact street name, as `{ lat, lng }` points (the override when one
+ * is set, excluded ways dropped). Returns null when nothing usable is stored.
+ * Never fetches — callers on hot paths must not wait on LocationIQ.
+ */
+export async function loadStreetPolylines(
+  jurisdictionId: string,
+  streetLocation: string,
+): Promise<LatLng[][] | null> {
+  const row = await prisma.streetGeometry.findUnique({
+    where: {
+      jurisdictionId_streetLocation: { jurisdictionId, streetLocation: streetLocation.trim() },
+    },
+    select: STORED_GEOMETRY_SELECT,
+  });
+  if (!row) return null;
+
+  const polylines = segmentsToPolylines(effectiveSegments(row));
+  return polylines.length > 0 ? polylines : null;
+}
+
+/** Distinct (jurisdiction, street) pairs on tickets that do not yet have a `StreetGeometry` row. */
+export async function listTicketStreetsMissingGeometry(): Promise<
+  Array<{ jurisdictionId: string; streetLocation: string }>
+> {
+  return prisma.$queryRaw<Array<{ jurisdictionId: string; streetLocation: string }>>`
+    SELECT DISTINCT t.jurisdictionId AS jurisdictionId, t.streetLocation AS streetLocation
     FROM Ticket t
     WHERE t.streetLocation IS NOT NULL
       AND TRIM(t.streetLocation) != ''
       AND NOT EXISTS (
-        SELECT 1 FROM StreetGeometry s WHERE s.streetLocation = t.streetLocation
+        SELECT 1 FROM StreetGeometry s
+        WHERE s.jurisdictionId = t.jurisdictionId AND s.streetLocation = t.streetLocation
       )
   `;
-  return rows.map((r) => r.streetLocation);
+}
+
+/** Stored geometries (without an override) past their refresh TTL. */
+export async function listStaleStreetGeometries(
+  now: Date = new Date(),
+): Promise<Array<{ jurisdictionId: string; streetLocation: string }>> {
+  return prisma.streetGeometry.findMany({
+    where: {
+      override: { equals: Prisma.DbNull },
+      OR: [
+        { notFound: true, fetchedAt: { lt: new Date(now.getTime() - NOT_FOUND_TTL_MS) } },
+        { notFound: false, fetchedAt: { lt: new Date(now.getTime() - GEOMETRY_TTL_MS) } },
+      ],
+    },
+    select: { jurisdictionId: true, streetLocation: true },
+    orderBy: { fetchedAt: 'asc' },
+  });
 }
 
 /**
- * Sequentially fills missing geometries with pauses between LocationIQ calls.
- * Safe to call on startup; failures are logged and skipped.
+ * Sequentially fills missing geometries, then refreshes stale ones, with pauses between
+ * LocationIQ calls. Safe to call on startup; failures are logged and skipped. While running,
+ * streets are also refreshed as new tickets land on them.
  */
 export async function backfillMissingStreetGeometriesOnStartup(): Promise<void> {
-  const hasKey =
-    process.env.LOCATIONIQ_ACCESS_TOKEN?.trim() ||
-    process.env.LOCATIONIQ_API_KEY?.trim();
-  if (!hasKey) {
+  if (!isLocationIqConfigured()) {
     console.warn(
       '[streetGeometry] Backfill skipped — set LOCATIONIQ_ACCESS_TOKEN to fetch street geometry (Nominatim via LocationIQ).',
     );
     return;
   }
 
-  const streets = await listTicketStreetsMissingGeometry();
-  if (streets.length === 0) {
+  const [missing, stale] = await Promise.all([
+    listTicketStreetsMissingGeometry(),
+    listStaleStreetGeometries(),
+  ]);
+  if (missing.length === 0 && stale.length === 0) {
     console.log('[streetGeometry] No ticket streets need geometry backfill');
     return;
   }
   console.log(
-    `[streetGeometry] Backfilling geometry for ${streets.length} street(s) (${MIN_INTERVAL_MS}ms min interval)`,
+    `[streetGeometry] Backfilling geometry for ${missing.length} street(s), refreshing ${stale.length} stale (${MIN_INTERVAL_MS}ms min interval)`,
   );
-  for (const street of streets) {
-    await ensureStreetGeometryStored(street);
+  for (const { jurisdictionId, streetLocation } of [...missing, ...stale]) {
+    await ensureStreetGeometryStored(jurisdictionId, streetLocation);
   }
   console.log('[streetGeometry] Backfill pass finished');
 }
 
-/**
- * Match ticket `streetLocation` the same way as street insights: exact, else latest `contains`.
- * Expects an already URL-decoded string.
- */
-export async function resolveCanonicalStreetFromTickets(
-  streetName: string,
-): Promise<string | null> {
-  const q = streetName.trim();
-  if (!q) return null;
-
-  const exact = await prisma.ticket.findFirst({
-    where: { streetLocation: q },
-    select: { streetLocation: true },
-  });
-  if (exact?.streetLocation) return exact.streetLocation;
-
-  const fuzzy = await prisma.ticket.findFirst({
-    where: { streetLocation: { contains: q } },
-    orderBy: { timestamp: 'desc' },
-    select: { streetLocation: true },
-  });
-  return fuzzy?.streetLocation ?? null;
-}
-
 function safeDecodeURIComponent(s: string): string {
   try {
     return decodeURIComponent(s);
@@ -426,38 +561,223 @@ function safeDecodeURIComponent(s: string): string {
   }
 }
 
-export async function getStreetGeometryResponse(
-  streetParam: string,
-): Promise<StreetGeometryResponse> {
+/** Canonical street for a URL parameter; 400 when it is blank. */
+async function canonicalStreetParam(jurisdictionId: string, streetParam: string): Promise<string> {
   const decoded = safeDecodeURIComponent(streetParam).trim();
   if (!decoded) {
     throw new BadRequestError('Street name is required');
   }
+  return canonicalStreetName(jurisdictionId, decoded);
+}
 
-  const canonical =
-    (await resolveCanonicalStreetFromTickets(decoded)) ?? decoded;
-
-  let row = await prisma.streetGeometry.findUnique({
-    where: { streetLocation: canonical },
+const loadGeometryResponse = async (
+  jurisdictionId: string,
+  street: string,
+): Promise<StreetGeometryResponse | null> => {
+  const row = await prisma.streetGeometry.findUnique({
+    where: { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: street } },
   });
+  if (!row) return null;
 
-  if (!row) {
-    await enqueueLocationIq(() => fetchAndStoreStreetGeometry(canonical));
-    row = await prisma.streetGeometry.findUnique({
-      where: { streetLocation: canonical },
-    });
+  const refreshAfter = geometryRefreshDueAt(row);
+  return {
+    jurisdictionId,
+    street,
+    segments: effectiveSegments(row),
+    osmNotFound: row.notFound,
+    source: row.override !== null ? 'override' : 'locationiq',
+    excludedWayIds: excludedWayIdsOf(row),
+    fetchedAt: row.fetchedAt.toISOString(),
+    refreshAfter: refreshAfter?.toISOString() ?? null,
+  };
+};
+
+export async function getStreetGeometryResponse(
+  jurisdictionId: string,
+  streetParam: string,
+): Promise<StreetGeometryResponse> {
+  const canonical = await canonicalStreetParam(jurisdictionId, streetParam);
+
+  let response = await loadGeometryResponse(jurisdictionId, canonical);
+
+  if (!response) {
+    await enqueueLocationIq(() => fetchAndStoreStreetGeometry(jurisdictionId, canonical));
+    response = await loadGeometryResponse(jurisdictionId, canonical);
   }
 
-  if (!row) {
+  if (!response) {
     throw new ServiceUnavailableError('Could not persist street geometry');
   }
 
-  const segments = row.segments as unknown as StreetGeometrySegment[];
+  return response;
+}
 
-  return {
-    street: canonical,
-    segments,
-    osmNotFound: row.notFound,
-    fetchedAt: row.fetchedAt.toISOString(),
+/**
+ * Re-fetches a street from LocationIQ now, whatever its TTL, replacing the stored segments
+ * (a "not found" answer is stored as such). An override stays in effect.
+ */
+export async function refreshStreetGeometry(
+  jurisdictionId: string,
+  streetParam: string,
+): Promise<StreetGeometryResponse> {
+  const canonical = await canonicalStreetParam(jurisdictionId, streetParam);
+  getLocationIqAccessToken();
+  await enqueueLocationIq(() => fetchAndStoreStreetGeometry(jurisdictionId, canonical));
+  console.log(`🗺️  Re-fetched geometry for "${canonical}" (${jurisdictionId})`);
+  return (await loadGeometryResponse(jurisdictionId, canonical))!;
+}
+
+const isLonLat = (value: unknown): value is LonLat =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === 'number' &&
+  typeof value[1] === 'number' &&
+  Math.abs(value[0]) <= 180 &&
+  Math.abs(value[1]) <= 90;
+
+/**
+ * Segments from an uploaded GeoJSON FeatureCollection, Feature, LineString or MultiLineString.
+ * Throws BadRequest when it holds no usable line or has malformed coordinates.
+ */
+function parseGeometryOverride(geojson: unknown): StreetGeometrySegment[] {
+  const value = geojson as {
+    type?: unknown;
+    geometry?: GeoJsonGeometry;
+    properties?: Record<string, unknown>;
   };
+  const collection: GeoJsonFeatureCollection =
+    value?.type === 'FeatureCollection'
+      ? (geojson as GeoJsonFeatureCollection)
+      : value?.type === 'Feature'
+        ? { type: 'FeatureCollection', features: [{ geometry: value.geometry, properties: value.properties }] }
+        : { type: 'FeatureCollection', features: [{ geometry: geojson as GeoJsonGeometry }] };
+
+  for (const feature of collection.features ?? []) {
+    const geometry = feature?.geometry;
+    if (geometry?.type !== 'LineString' && geometry?.type !== 'MultiLineString') {
+      throw new BadRequestError('Override features must be LineString or MultiLineString geometries');
+    }
+    const lines = (geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates) as unknown[];
+    const valid =
+      Array.isArray(lines) &&
+      lines.every((line) => Array.isArray(line) && line.length >= 2 && line.every(isLonLat));
+    if (!valid) {
+      throw new BadRequestError('Override lines need at least two [lon, lat] positions each');
+    }
+  }
+
+  const segments = featureCollectionToSegments(collection).map((segment) => ({
+    ...segment,
+    tags: { ...segment.tags, source: 'override' },
+  }));
+  if (segments.length === 0) {
+    throw new BadRequestError('Override must contain at least one line');
+  }
+  if (segments.reduce((sum, segment) => sum + segment.geometry.length, 0) > OVERRIDE_MAX_POINTS) {
+    throw new BadRequestError(`Override may have at most ${OVERRIDE_MAX_POINTS} points`);
+  }
+  return segments;
+}
+
+/**
+ * Stores hand-drawn geometry for a street; it is served and matched against instead of the
+ * LocationIQ segments, and the street is no longer re-fetched, until the override is removed.
+ */
+export async function setStreetGeometryOverride(
+  jurisdictionId: string,
+  streetParam: string,
+  geojson: unknown,
+): Promise<StreetGeometryResponse> {
+  const canonical = await canonicalStreetParam(jurisdictionId, streetParam);
+  const override = parseGeometryOverride(geojson) as unknown as Prisma.InputJsonValue;
+  const now = new Date();
+
+  // A street never fetched gets an empty "not found" row underneath, so removing the
+  // override later leaves it due for a fetch.
+  await prisma.streetGeometry.upsert({
+    where: { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: canonical } },
+    create: {
+      jurisdictionId,
+      streetLocation: canonical,
+      segments: [],
+      notFound: true,
+      fetchedAt: new Date(0),
+      override,
+      overrideAt: now,
+    },
+    update: { override, overrideAt: now },
+  });
+  await rebuildStreetAdjacency(jurisdictionId, canonical);
+  console.log(`🗺️  Geometry override set for "${canonical}" (${jurisdictionId})`);
+  return (await loadGeometryResponse(jurisdictionId, canonical))!;
+}
+
+/** Drops a street's override, returning to the fetched segments. False when none was set. */
+export async function clearStreetGeometryOverride(jurisdictionId: string, streetParam: string): Promise<boolean> {
+  const canonical = await canonicalStreetParam(jurisdictionId, streetParam);
+  const { count } = await prisma.streetGeometry.updateMany({
+    where: { jurisdictionId, streetLocation: canonical, override: { not: Prisma.DbNull } },
+    data: { override: Prisma.DbNull, overrideAt: null },
+  });
+  if (count > 0) await rebuildStreetAdjacency(jurisdictionId, canonical);
+  return count > 0;
+}
+
+/**
+ * Replaces the list of fetched way ids to ignore for a street (a wrong LocationIQ match).
+ * Every id must belong to the stored segments; an empty list clears the exclusions.
+ */
+export async function setExcludedWays(
+  jurisdictionId: string,
+  streetParam: string,
+  wayIds: number[],
+): Promise<StreetGeometryResponse> {
+  const canonical = await canonicalStreetParam(jurisdictionId, streetParam);
+  const key = { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: canonical } };
+  const row = await prisma.streetGeometry.findUnique({ where: key, select: { segments: true } });
+  if (!row) {
+    throw new NotFoundError(`No stored geometry for "${canonical}"`, { street: canonical });
+  }
+
+  const known = new Set((row.segments as unknown as StreetGeometrySegment[]).map((segment) => segment.wayId));
+  const unknown = wayIds.filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    throw new BadRequestError('wayIds must belong to the stored segments', { unknownWayIds: unknown });
+  }
+
+  const excluded = [...new Set(wayIds)].sort((a, b) => a - b);
+  await prisma.streetGeometry.update({
+    where: key,
+    data: { excludedWayIds: excluded.length > 0 ? excluded : Prisma.DbNull },
+  });
+  await rebuildStreetAdjacency(jurisdictionId, canonical);
+  return (await loadGeometryResponse(jurisdictionId, canonical))!;
+}
+
+/**
+ * Streets LocationIQ found no line for and nobody has overridden, with how many tickets they
+ * hold and when the next automatic retry is due. Most-ticketed first.
+ */
+export async function listNotFoundStreetGeometries(jurisdictionId: string) {
+  const rows = await prisma.streetGeometry.findMany({
+    where: { jurisdictionId, notFound: true, override: { equals: Prisma.DbNull } },
+    select: { streetLocation: true, fetchedAt: true, notFound: true, override: true },
+  });
+  const counts = await prisma.ticket.groupBy({
+    by: ['streetLocation'],
+    where: { jurisdictionId, streetLocation: { in: rows.map((row) => row.streetLocation) } },
+    _count: { _all: true },
+    _max: { timestamp: true },
+  });
+  const countOf = new Map(counts.map((row) => [row.streetLocation, row]));
+
+  const streets = rows.map((row) => ({
+    street: row.streetLocation,
+    ticketCount: countOf.get(row.streetLocation)?._count._all ?? 0,
+    lastTicketAt: countOf.get(row.streetLocation)?._max.timestamp ?? null,
+    fetchedAt: row.fetchedAt,
+    refreshAfter: geometryRefreshDueAt(row),
+  }));
+  streets.sort((a, b) => b.ticketCount - a.ticketCount || a.street.localeCompare(b.street));
+  return { jurisdictionId, count: streets.length, streets };
 }
@@ -0,0 +1,48 @@
+import type { Prisma } from '@prisma/client';
+
+import type { LatLng } from '../utils/geo.js';
+
+export type StreetGeometryPoint = { lat: number; lon: number };
+
+/** One polyline segment (OSM may split a road into multiple ways). */
+export type StreetGeometrySegment = {
+  /** OSM object id when present; otherwise synthetic. */
+  wayId: number;
+  tags: Record<string, string>;
+  geometry: StreetGeometryPoint[];
+};
+
+/** The `StreetGeometry` columns that decide which segments a street actually uses. */
+export type StoredStreetGeometry = {
+  segments: Prisma.JsonValue;
+  notFound: boolean;
+  override: Prisma.JsonValue | null;
+  excludedWayIds: Prisma.JsonValue | null;
+};
+
+export const STORED_GEOMETRY_SELECT = {
+  segments: true,
+  notFound: true,
+  override: true,
+  excludedWayIds: true,
+} as const;
+
+/** Way ids an admin excluded; [] when none. */
+export const excludedWayIdsOf = (row: Pick<StoredStreetGeometry, 'excludedWayIds'>): number[] =>
+  Array.isArray(row.excludedWayIds) ? (row.excludedWayIds as number[]) : [];
+
+/**
+ * Segments to draw and match against: the admin override when one is set, otherwise the
+ * fetched segments minus excluded ways ([] when LocationIQ found nothing).
+ */
+export const effectiveSegments = (row: StoredStreetGeometry): StreetGeometrySegment[] => {
+  if (row.override !== null) return row.override as unknown as StreetGeometrySegment[];
+  if (row.notFound) return [];
+  const excluded = new Set(excludedWayIdsOf(row));
+  return (row.segments as unknown as StreetGeometrySegment[]).filter((segment) => !excluded.has(segment.wayId));
+};
+
+export const segmentsToPolylines = (segments: StreetGeometrySegment[]): LatLng[][] =>
+  segments
+    .map((segment) => segment.geometry.map(({ lat, lon }) => ({ lat, lng: lon })))
+    .filter((line) => line.length > 0);
@@ -0,0 +1,278 @@
+import { prisma } from '../prisma.js';
+import { BadRequestError, ConflictError } from '../utils/AppError.js';
+import { normalizeStreetName, parseViolationLocation } from '../utils/streetName.js';
+import { rebuildStreetAdjacency } from './streetAdjacencyService.js';
+
+const BACKFILL_BATCH_SIZE = 500;
+
+export type ResolvedStreet = { id: number; name: string };
+
+/** Known street for a name or location text, through the alias table. Null when unknown. */
+export async function findStreet(jurisdictionId: string, input: string): Promise<ResolvedStreet | null> {
+  const name = normalizeStreetName(input);
+  if (!name) return null;
+
+  const alias = await prisma.streetAlias.findUnique({
+    where: { jurisdictionId_alias: { jurisdictionId, alias: name } },
+    select: { street: { select: { id: true, name: true } } },
+  });
+  if (alias) return alias.street;
+
+  return prisma.street.findUnique({
+    where: { jurisdictionId_name: { jurisdictionId, name } },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * Canonical name for user-supplied street text: the known street's name, else the normalized
+ * input (a street with no tickets yet still matches once its first ticket is normalized).
+ */
+export async function canonicalStreetName(jurisdictionId: string, input: string): Promise<string> {
+  const name = (await findStreet(jurisdictionId, input))?.name ?? normalizeStreetName(input);
+  if (!name) {
+    throw new BadRequestError('Street name is required', { street: input });
+  }
+  return name;
+}
+
+export type TicketLocationFields = {
+  streetId: number | null;
+  streetLocation: string | null;
+  houseNumber: number | null;
+  blockNumber: number | null;
+  crossStreet: string | null;
+};
+
+/**
+ * Location columns for a scraped `#ViolationLocation`: the canonical street (created on first
+ * sight), house number / hundred block, and the cross street (through aliases, never created).
+ */
+export async function resolveTicketLocation(
+  jurisdictionId: string,
+  rawLocation: string | null,
+): Promise<TicketLocationFields> {
+  const parsed = parseViolationLocation(rawLocation ?? '');
+  const crossStreet = parsed.crossStreet
+    ? ((await findStreet(jurisdictionId, parsed.crossStreet))?.name ?? parsed.crossStreet)
+    : null;
+  const location = { houseNumber: parsed.houseNumber, blockNumber: parsed.blockNumber, crossStreet };
+  if (!parsed.street) return { streetId: null, streetLocation: null, ...location };
+
+  const street =
+    (await findStreet(jurisdictionId, parsed.street)) ??
+    (await prisma.street.upsert({
+      where: { jurisdictionId_name: { jurisdictionId, name: parsed.street } },
+      create: { jurisdictionId, name: parsed.street },
+      update: {},
+      select: { id: true, name: true },
+    }));
+  return { streetId: street.id, streetLocation: street.name, ...location };
+}
+
+/**
+ * Points enrollments, open parking sessions and stored geometry at `to` instead of `from`.
+ * Enrollments that would duplicate an existing one for `to` are dropped.
+ */
+const renameStreetReferences = async (jurisdictionId: string, from: string, to: string) => {
+  const enrollments = await prisma.fcmEnrollment.findMany({
+    where: { jurisdictionId, streetLocation: from },
+    select: { id: true, userId: true, fcmToken: true },
+  });
+  for (const enrollment of enrollments) {
+    const duplicate = await prisma.fcmEnrollment.findUnique({
+      where: {
+        userId_jurisdictionId_streetLocation_fcmToken: {
+          userId: enrollment.userId,
+          jurisdictionId,
+          streetLocation: to,
+          fcmToken: enrollment.fcmToken,
+        },
+      },
+      select: { id: true },
+    });
+    if (duplicate) await prisma.fcmEnrollment.delete({ where: { id: enrollment.id } });
+    else await prisma.fcmEnrollment.update({ where: { id: enrollment.id }, data: { streetLocation: to } });
+  }
+
+  await prisma.parkingSession.updateMany({
+    where: { jurisdictionId, streetLocation: from, endedAt: null },
+    data: { streetLocation: to },
+  });
+
+  // Keep fetched geometry under the new name unless that name already has its own.
+  const [oldGeometry, newGeometry] = await Promise.all([
+    prisma.streetGeometry.findUnique({
+      where: { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: from } },
+      select: { streetLocation: true },
+    }),
+    prisma.streetGeometry.findUnique({
+      where: { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: to } },
+      select: { streetLocation: true },
+    }),
+  ]);
+  if (oldGeometry) {
+    const key = { jurisdictionId_streetLocation: { jurisdictionId, streetLocation: from } };
+    if (newGeometry) await prisma.streetGeometry.delete({ where: key });
+    else await prisma.streetGeometry.update({ where: key, data: { streetLocation: to } });
+    await rebuildStreetAdjacency(jurisdictionId, from);
+    await rebuildStreetAdjacency(jurisdictionId, to);
+  }
+};
+
+/**
+ * Re-derives the location columns from each ticket's raw location text and moves
+ * enrollments, sessions and geometry onto the canonical names. By default only tickets not yet
+ * linked to a `Street`; `all` re-resolves every ticket (after alias or normalizer changes).
+ */
+export async function backfillTicketStreets(
+  options: { all?: boolean } = {},
+): Promise<{ scanned: number; updated: number }> {
+  const resolved = new Map<string, TicketLocationFields>();
+  const renames = new Map<string, { jurisdictionId: string; from: string; to: string }>();
+  let scanned = 0;
+  let updated = 0;
+  let after: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.ticket.findMany({
+      where: {
+        ...(options.all ? {} : { streetId: null }),
+        ...(after ? { ticketId: { gt: after } } : {}),
+        OR: [{ rawLocation: { not: null } }, { streetLocation: { not: null } }],
+      },
+      orderBy: { ticketId: 'asc' },
+      take: BACKFILL_BATCH_SIZE,
+      select: {
+        ticketId: true,
+        jurisdictionId: true,
+        rawLocation: true,
+        streetLocation: true,
+        streetId: true,
+        houseNumber: true,
+        blockNumber: true,
+        crossStreet: true,
+      },
+    });
+    if (batch.length === 0) break;
+    after = batch[batch.length - 1]!.ticketId;
+    scanned += batch.length;
+
+    for (const ticket of batch) {
+      const raw = ticket.rawLocation ?? ticket.streetLocation;
+      const cacheKey = `${ticket.jurisdictionId}\u0000${raw}`;
+      let location = resolved.get(cacheKey);
+      if (!location) {
+        location = await resolveTicketLocation(ticket.jurisdictionId, raw);
+        resolved.set(cacheKey, location);
+      }
+      const fields = Object.keys(location) as Array<keyof TicketLocationFields>;
+      if (fields.every((field) => location[field] === ticket[field])) continue;
+
+      await prisma.ticket.update({
+        where: { ticketId: ticket.ticketId },
+        data: { ...location, rawLocation: raw },
+      });
+      updated += 1;
+      const to = location.streetLocation;
+      if (ticket.streetLocation && to && ticket.streetLocation !== to) {
+        const from = ticket.streetLocation;
+        renames.set(`${ticket.jurisdictionId}\u0000${from}`, { jurisdictionId: ticket.jurisdictionId, from, to });
+      }
+    }
+  }
+
+  for (const { jurisdictionId, from, to } of renames.values()) {
+    await renameStreetReferences(jurisdictionId, from, to);
+  }
+
+  return { scanned, updated };
+}
+
+/** Streets with their aliases and ticket counts, for the admin UI. */
+export async function listStreets(jurisdictionId: string) {
+  const streets = await prisma.street.findMany({
+    where: { jurisdictionId },
+    orderBy: { name: 'asc' },
+    select: {
+      id: true,
+      name: true,
+      aliases: { select: { id: true, alias: true }, orderBy: { alias: 'asc' } },
+      _count: { select: { tickets: true } },
+    },
+  });
+  return streets.map(({ _count, ...street }) => ({ ...street, ticketCount: _count.tickets }));
+}
+
+/**
+ * Makes `aliasInput` resolve to `streetInput`. If the alias was a street of its own, its
+ * tickets (and enrollments, sessions, geometry) are merged into the target.
+ */
+export async function addStreetAlias(jurisdictionId: string, aliasInput: string, streetInput: string) {
+  const alias = normalizeStreetName(aliasInput);
+  const targetName = normalizeStreetName(streetInput);
+  if (!alias || !targetName) {
+    throw new BadRequestError('alias and street must both contain a street name');
+  }
+  if (alias === targetName) {
+    throw new BadRequestError(`"${alias}" cannot be an alias of itself`);
+  }
+
+  const targetAlias = await prisma.streetAlias.findUnique({
+    where: { jurisdictionId_alias: { jurisdictionId, alias: targetName } },
+    select: { street: { select: { name: true } } },
+  });
+  if (targetAlias) {
+    throw new BadRequestError(`"${targetName}" is itself an alias of "${targetAlias.street.name}"`);
+  }
+
+  const existing = await prisma.streetAlias.findUnique({
+    where: { jurisdictionId_alias: { jurisdictionId, alias } },
+    select: { id: true, street: { select: { name: true } } },
+  });
+  if (existing && existing.street.name !== targetName) {
+    throw new ConflictError(`"${alias}" is already an alias of "${existing.street.name}"`, { alias });
+  }
+
+  const target = await prisma.street.upsert({
+    where: { jurisdictionId_name: { jurisdictionId, name: targetName } },
+    create: { jurisdictionId, name: targetName },
+    update: {},
+    select: { id: true, name: true },
+  });
+  const merged = await prisma.street.findUnique({
+    where: { jurisdictionId_name: { jurisdictionId, name: alias } },
+    select: { id: true },
+  });
+
+  const [created, moved] = await prisma.$transaction(async (tx) => {
+    const row = await tx.streetAlias.upsert({
+      where: { jurisdictionId_alias: { jurisdictionId, alias } },
+      create: { jurisdictionId, alias, streetId: target.id },
+      update: {},
+      select: { id: true, alias: true },
+    });
+    if (!merged) return [row, 0] as const;
+
+    const { count } = await tx.ticket.updateMany({
+      where: { streetId: merged.id },
+      data: { streetId: target.id, streetLocation: target.name },
+    });
+    await tx.streetAlias.updateMany({ where: { streetId: merged.id }, data: { streetId: target.id } });
+    await tx.street.delete({ where: { id: merged.id } });
+    return [row, count] as const;
+  });
+
+  await renameStreetReferences(jurisdictionId, alias, target.name);
+  console.log(`🛣️  Alias "${alias}" → "${target.name}" (${jurisdictionId}, ${moved} ticket(s) merged)`);
+  return { id: created.id, alias: created.alias, street: target, mergedTickets: moved };
+}
+
+/**
+ * Removes an alias. Tickets already merged stay on the target street until
+ * `backfillTicketStreets({ all: true })` re-resolves them. Returns false if not found.
+ */
+export async function removeStreetAlias(jurisdictionId: string, aliasId: number): Promise<boolean> {
+  const { count } = await prisma.streetAlias.deleteMany({ where: { id: aliasId, jurisdictionId } });
+  return count > 0;
+}
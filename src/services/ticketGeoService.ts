@@ -0,0 +1,197 @@
+import type { Ticket } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import {
+  boundingBoxAround,
+  distanceToPolylineMeters,
+  encodeGeohash,
+  geohashBounds,
+  haversineMeters,
+} from '../utils/geo.js';
+import type { BoundingBox, LatLng } from '../utils/geo.js';
+import { loadStreetPolylines } from './streetGeometryService.js';
+
+export type NearbyTicketsOptions = {
+  jurisdictionId: string;
+  center: LatLng;
+  radiusM: number;
+  since: Date;
+  /** Max tickets returned (closest-in-time first); street summaries always cover all matches. */
+  limit: number;
+};
+
+export type NearbyStreetSummary = {
+  street: string;
+  ticketCount: number;
+  lastTicketAt: Date;
+  /** Distance from the query point to the closest ticket on this street. */
+  nearestDistanceM: number;
+};
+
+/**
+ * Tickets with coordinates within `radiusM` of `center` since `since`.
+ * The lat/lng bounding box narrows rows in SQLite; haversine makes the exact cut.
+ */
+export async function findTicketsNearby(options: NearbyTicketsOptions) {
+  const { jurisdictionId, center, radiusM, since, limit } = options;
+  const box = boundingBoxAround(center, radiusM);
+
+  const candidates = await prisma.ticket.findMany({
+    where: {
+      jurisdictionId,
+      timestamp: { gte: since },
+      lat: { gte: box.minLat, lte: box.maxLat },
+      lng: { gte: box.minLng, lte: box.maxLng },
+    },
+    orderBy: [{ timestamp: 'desc' }, { ticketId: 'desc' }],
+  });
+
+  const within: Array<Ticket & { distanceM: number }> = [];
+  for (const ticket of candidates) {
+    if (ticket.lat === null || ticket.lng === null) continue;
+    const distanceM = haversineMeters(center, { lat: ticket.lat, lng: ticket.lng });
+    if (distanceM <= radiusM) within.push({ ...ticket, distanceM: Math.round(distanceM) });
+  }
+
+  const byStreet = new Map<string, NearbyStreetSummary>();
+  for (const ticket of within) {
+    const street = ticket.streetLocation?.trim();
+    if (!street) continue;
+    const summary = byStreet.get(street);
+    if (!summary) {
+      byStreet.set(street, {
+        street,
+        ticketCount: 1,
+        lastTicketAt: ticket.timestamp,
+        nearestDistanceM: ticket.distanceM,
+      });
+      continue;
+    }
+    summary.ticketCount += 1;
+    if (ticket.timestamp > summary.lastTicketAt) summary.lastTicketAt = ticket.timestamp;
+    if (ticket.distanceM < summary.nearestDistanceM) summary.nearestDistanceM = ticket.distanceM;
+  }
+
+  return {
+    center,
+    radiusM,
+    since: since.toISOString(),
+    ticketCount: within.length,
+    tickets: within.slice(0, limit),
+    streets: [...byStreet.values()].sort((a, b) => a.nearestDistanceM - b.nearestDistanceM),
+  };
+}
+
+export type TicketHeatmapOptions = {
+  jurisdictionId: string;
+  since: Date;
+  until: Date;
+  /** Geohash length: 5 ≈ 4.9 km, 6 ≈ 1.2 km, 7 ≈ 153 m, 8 ≈ 38 m cells. */
+  precision: number;
+};
+
+/** Counts `points` per geohash cell of `precision` characters, busiest cell first. */
+export const geohashCells = (points: LatLng[], precision: number) => {
+  const counts = new Map<string, number>();
+  for (const point of points) {
+    const hash = encodeGeohash(point, precision);
+    counts.set(hash, (counts.get(hash) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .map(([geohash, count]) => {
+      const bounds = geohashBounds(geohash);
+      return {
+        geohash,
+        count,
+        center: {
+          lat: (bounds.minLat + bounds.maxLat) / 2,
+          lng: (bounds.minLng + bounds.maxLng) / 2,
+        },
+        bounds,
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+};
+
+/** Buckets located tickets in [since, until) into geohash cells for the map overlay. */
+export async function buildTicketHeatmap(options: TicketHeatmapOptions) {
+  const { jurisdictionId, since, until, precision } = options;
+
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      jurisdictionId,
+      timestamp: { gte: since, lt: until },
+      lat: { not: null },
+      lng: { not: null },
+    },
+    select: { lat: true, lng: true },
+  });
+
+  const cells = geohashCells(
+    tickets.flatMap(({ lat, lng }) => (lat !== null && lng !== null ? [{ lat, lng }] : [])),
+    precision,
+  );
+
+  return {
+    windowStart: since.toISOString(),
+    windowEnd: until.toISOString(),
+    precision,
+    ticketCount: tickets.length,
+    maxCount: cells[0]?.count ?? 0,
+    cells,
+  };
+}
+
+/**
+ * Where a ticket was issued, for "is it near X?" checks: the OCR point when the ticket
+ * has coordinates, otherwise the stored `StreetGeometry` polylines of its street.
+ */
+export type TicketFootprint = {
+  /** Lat/lng box that contains every point within `marginM` of the footprint (DB prefilter). */
+  boundingBox(marginM: number): BoundingBox;
+  /** True if the footprint comes within `radiusM` of `center`. */
+  isWithin(center: LatLng, radiusM: number): boolean;
+};
+
+const polylinesBox = (polylines: LatLng[][]): BoundingBox => {
+  const points = polylines.flat();
+  return {
+    minLat: Math.min(...points.map((p) => p.lat)),
+    maxLat: Math.max(...points.map((p) => p.lat)),
+    minLng: Math.min(...points.map((p) => p.lng)),
+    maxLng: Math.max(...points.map((p) => p.lng)),
+  };
+};
+
+const pointFootprint = (point: LatLng): TicketFootprint => ({
+  boundingBox: (marginM) => boundingBoxAround(point, marginM),
+  isWithin: (center, radiusM) => haversineMeters(center, point) <= radiusM,
+});
+
+/**
+ * Null when the ticket has neither coordinates nor a street with known geometry.
+ * A street-centroid pin only says which street, so the whole street is used when known.
+ */
+export async function loadTicketFootprint(
+  ticket: Pick<Ticket, 'jurisdictionId' | 'lat' | 'lng' | 'locationSource' | 'streetLocation'>,
+): Promise<TicketFootprint | null> {
+  const point = ticket.lat !== null && ticket.lng !== null ? { lat: ticket.lat, lng: ticket.lng } : null;
+  if (point && ticket.locationSource !== 'street_centroid') return pointFootprint(point);
+
+  const polylines = ticket.streetLocation
+    ? await loadStreetPolylines(ticket.jurisdictionId, ticket.streetLocation)
+    : null;
+  if (!polylines) return point ? pointFootprint(point) : null;
+
+  const box = polylinesBox(polylines);
+  return {
+    boundingBox: (marginM) => {
+      const sw = boundingBoxAround({ lat: box.minLat, lng: box.minLng }, marginM);
+      const ne = boundingBoxAround({ lat: box.maxLat, lng: box.maxLng }, marginM);
+      return { minLat: sw.minLat, maxLat: ne.maxLat, minLng: sw.minLng, maxLng: ne.maxLng };
+    },
+    isWithin: (center, radiusM) =>
+      polylines.some((line) => distanceToPolylineMeters(center, line) <= radiusM),
+  };
+}
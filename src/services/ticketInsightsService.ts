@@ -1,8 +1,15 @@
+import type { Prisma } from '@prisma/client';
+
 import { prisma } from '../prisma.js';
 import { getHourInTimeZone, getWeekdayIndexInTimeZone } from '../utils/timezone.js';
+import { requireJurisdiction } from './jurisdictionService.js';
+import { findStreet } from './streetService.js';
 
 const MS_DAY = 24 * 60 * 60 * 1000;
 
+/** How many violation types `topViolations` lists. */
+const TOP_VIOLATION_LIMIT = 5;
+
 /** Default ~2 months; override with env `TICKET_INSIGHTS_LOOKBACK_DAYS` (1–365). */
 function insightLookbackDays(): number {
   const raw = process.env.TICKET_INSIGHTS_LOOKBACK_DAYS;
@@ -17,22 +24,62 @@ function enforcementLevelFromCount(count24h: number): 'low' | 'medium' | 'high'
   return 'low';
 }
 
+const centsToUsd = (cents: number | null): number | null =>
+  cents === null ? null : Math.round(cents) / 100;
+
+/** Average fine and most common violation types among tickets matching `where` since `since`. */
+async function fineAndViolationStats(where: Prisma.TicketWhereInput, since: Date) {
+  const scoped = { ...where, timestamp: { gte: since } };
+  const [fines, groups] = await Promise.all([
+    prisma.ticket.aggregate({
+      where: { ...scoped, fineCents: { not: null } },
+      _avg: { fineCents: true },
+    }),
+    prisma.ticket.groupBy({
+      by: ['violationCode', 'violationDescription'],
+      where: { ...scoped, OR: [{ violationCode: { not: null } }, { violationDescription: { not: null } }] },
+      _count: { _all: true },
+      _avg: { fineCents: true },
+    }),
+  ]);
+
+  const classified = groups.reduce((sum, g) => sum + g._count._all, 0);
+  const topViolations = groups
+    .sort((a, b) => b._count._all - a._count._all)
+    .slice(0, TOP_VIOLATION_LIMIT)
+    .map((g) => ({
+      code: g.violationCode,
+      description: g.violationDescription,
+      ticketCount: g._count._all,
+      /** Fraction of tickets with a known violation type. */
+      share: g._count._all / classified,
+      averageFineUsd: centsToUsd(g._avg.fineCents),
+    }));
+
+  return { averageFineUsd: centsToUsd(fines._avg.fineCents), topViolations };
+}
+
 /** Map + Area Insights card (Stitch: Active Enforcement, ticket volume). */
-export async function getAreaOverview() {
+export async function getAreaOverview(jurisdictionId: string) {
   const now = new Date();
   const since24h = new Date(now.getTime() - MS_DAY);
   const since7d = new Date(now.getTime() - 7 * MS_DAY);
 
-  const [count24h, count7d, distinctStreets24h] = await Promise.all([
-    prisma.ticket.count({ where: { timestamp: { gte: since24h } } }),
-    prisma.ticket.count({ where: { timestamp: { gte: since7d } } }),
+  const lookbackDays = insightLookbackDays();
+  const sinceLookback = new Date(now.getTime() - lookbackDays * MS_DAY);
+
+  const [count24h, count7d, distinctStreets24h, fines] = await Promise.all([
+    prisma.ticket.count({ where: { jurisdictionId, timestamp: { gte: since24h } } }),
+    prisma.ticket.count({ where: { jurisdictionId, timestamp: { gte: since7d } } }),
     prisma.ticket.groupBy({
       by: ['streetLocation'],
       where: {
+        jurisdictionId,
         timestamp: { gte: since24h },
         AND: [{ streetLocation: { not: null } }, { NOT: { streetLocation: '' } }],
       },
     }),
+    fineAndViolationStats({ jurisdictionId }, sinceLookback),
   ]);
 
   return {
@@ -40,51 +87,92 @@ export async function getAreaOverview() {
     ticketCount7d: count7d,
     activeStreets24h: distinctStreets24h.length,
     enforcementLevel: enforcementLevelFromCount(count24h),
-    /** Not tracked in DB yet; null until fines exist on Ticket. */
-    averageFineUsd: null as number | null,
+    /** Over the last `lookbackDays`; null when no ticket in that window had a fine. */
+    averageFineUsd: fines.averageFineUsd,
+    topViolations: fines.topViolations,
+    lookbackDays,
   };
 }
 
-function streetFilter(streetName: string) {
-  const decoded = decodeURIComponent(streetName);
-  return {
-    streetLocation: { contains: decoded },
-  };
+/** Tickets on the street `streetName` resolves to (through aliases); null if it is unknown. */
+async function streetFilter(jurisdictionId: string, streetName: string) {
+  const street = await findStreet(jurisdictionId, streetName);
+  return street ? { jurisdictionId, streetId: street.id } : null;
 }
 
 export type StreetInsightsOptions = {
-  /** IANA time zone for hour-of-day and weekday bucketing (e.g. `America/New_York`). */
-  timeZone: string;
+  /** IANA time zone for hour-of-day and weekday bucketing; defaults to the jurisdiction's. */
+  timeZone?: string;
+  /** Hundred block (e.g. 200) to narrow every count to; the `blocks` breakdown stays street-wide. */
+  blockNumber?: number;
 };
 
+/** Lookback ticket counts per hundred block of the street, lowest block first. */
+async function blockBreakdown(where: { jurisdictionId: string; streetId: number }, since: Date) {
+  const groups = await prisma.ticket.groupBy({
+    by: ['blockNumber'],
+    where: { ...where, timestamp: { gte: since } },
+    _count: { _all: true },
+    _max: { timestamp: true },
+  });
+
+  const blocks = groups
+    .filter((g): g is typeof g & { blockNumber: number } => g.blockNumber !== null)
+    .sort((a, b) => a.blockNumber - b.blockNumber)
+    .map((g) => ({
+      blockNumber: g.blockNumber,
+      /** House-number range the block covers, e.g. "200–299". */
+      range: `${g.blockNumber}–${g.blockNumber + 99}`,
+      ticketCount: g._count._all,
+      lastTicketAt: g._max.timestamp,
+    }));
+  const unknown = groups.find((g) => g.blockNumber === null)?._count._all ?? 0;
+  return { blocks, ticketsWithoutBlock: unknown };
+}
+
 /** Street Insights screen: history + simple distributions from ticket timestamps. */
-export async function getStreetInsights(streetName: string, options: StreetInsightsOptions) {
-  const { timeZone } = options;
-  const where = streetFilter(streetName);
+export async function getStreetInsights(
+  jurisdictionId: string,
+  streetName: string,
+  options: StreetInsightsOptions = {},
+) {
+  const { blockNumber } = options;
+  const timeZone = options.timeZone ?? (await requireJurisdiction(jurisdictionId)).timeZone;
+  const streetWhere = await streetFilter(jurisdictionId, streetName);
+  if (!streetWhere) return null;
+  const where = blockNumber === undefined ? streetWhere : { ...streetWhere, blockNumber };
   const now = new Date();
   const since24h = new Date(now.getTime() - MS_DAY);
   const since30d = new Date(now.getTime() - 30 * MS_DAY);
   const lookbackDays = insightLookbackDays();
   const sinceLookback = new Date(now.getTime() - lookbackDays * MS_DAY);
 
-  const [lastTicket, count24h, count7d, count30d, countLookback] = await Promise.all([
+  const [lastTicket, count24h, count7d, count30d, countLookback, byBlock, fines] = await Promise.all([
     prisma.ticket.findFirst({
       where,
       orderBy: { timestamp: 'desc' },
       select: {
         ticketId: true,
         streetLocation: true,
+        houseNumber: true,
+        blockNumber: true,
+        crossStreet: true,
         timestamp: true,
         lat: true,
         lng: true,
         licensePlateNumber: true,
         licensePlateState: true,
+        violationCode: true,
+        violationDescription: true,
+        fineCents: true,
       },
     }),
     prisma.ticket.count({ where: { ...where, timestamp: { gte: since24h } } }),
     prisma.ticket.count({ where: { ...where, timestamp: { gte: new Date(now.getTime() - 7 * MS_DAY) } } }),
     prisma.ticket.count({ where: { ...where, timestamp: { gte: since30d } } }),
     prisma.ticket.count({ where: { ...where, timestamp: { gte: sinceLookback } } }),
+    blockBreakdown(streetWhere, sinceLookback),
+    fineAndViolationStats(where, sinceLookback),
   ]);
 
   if (!lastTicket) {
@@ -123,12 +211,20 @@ export async function getStreetInsights(streetName: string, options: StreetInsig
 
   return {
     street: lastTicket.streetLocation,
+    /** Echoes the `block` filter; null when counts cover the whole street. */
+    blockNumber: blockNumber ?? null,
     lastTicket: {
       ticketId: lastTicket.ticketId,
       timestamp: lastTicket.timestamp,
+      houseNumber: lastTicket.houseNumber,
+      blockNumber: lastTicket.blockNumber,
+      crossStreet: lastTicket.crossStreet,
       coordinates: { lat: lastTicket.lat, lng: lastTicket.lng },
       licensePlateNumber: lastTicket.licensePlateNumber,
       licensePlateState: lastTicket.licensePlateState,
+      violationCode: lastTicket.violationCode,
+      violationDescription: lastTicket.violationDescription,
+      fineUsd: centsToUsd(lastTicket.fineCents),
     },
     ticketCount24h: count24h,
     ticketCount7d: count7d,
@@ -136,7 +232,9 @@ export async function getStreetInsights(streetName: string, options: StreetInsig
     ticketCountLookback: countLookback,
     lookbackDays,
     enforcementLevel: enforcementLevelFromCount(count24h),
-    averageFineUsd: null as number | null,
+    /** Lookback average and most common violations (narrowed to `blockNumber` when set). */
+    averageFineUsd: fines.averageFineUsd,
+    topViolations: fines.topViolations,
     distribution24h: {
       aggregation: 'hourOfDay' as const,
       /** IANA zone used for `bucketsByHour` and `activityByDay` (same as request `tz`). */
@@ -151,6 +249,9 @@ export async function getStreetInsights(streetName: string, options: StreetInsig
       bucketsByHour,
     },
     activityByDay,
+    /** Street-wide lookback counts per hundred block, so long streets can be read block by block. */
+    blocks: byBlock.blocks,
+    ticketsWithoutBlock: byBlock.ticketsWithoutBlock,
     /** Placeholder for future community-sourced data (Stitch UI). */
     communityReports: [] as Array<{ id: string; summary: string; reportedAt: string }>,
   };
@@ -0,0 +1,331 @@
+import type { Jurisdiction, Ticket } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import { distanceToPolylineMeters, polylinesCentroid } from '../utils/geo.js';
+import type { LatLng } from '../utils/geo.js';
+import { requireJurisdiction } from './jurisdictionService.js';
+import type { OcrResult } from './ocrService.js';
+import {
+  ensureStreetGeometryStored,
+  geocodeAddress,
+  isLocationIqConfigured,
+  loadStreetPolylines,
+} from './streetGeometryService.js';
+import { findStreet } from './streetService.js';
+
+/**
+ * Where a ticket's coordinates came from, best first:
+ * - `ocr` — GPS stamp read off the evidence photo
+ * - `geocode` — the parsed violation address (house number, block or intersection) geocoded
+ * - `street_centroid` — the middle of the street's stored geometry; the street is right,
+ *   the spot on it is not
+ */
+export type LocationSource = 'ocr' | 'geocode' | 'street_centroid';
+
+/** 0–1 confidence recorded with each source; clients can fade or enlarge approximate pins. */
+const CONFIDENCE = {
+  ocr: 1,
+  ocrCorrected: 0.7,
+  geocodeHouse: 0.8,
+  geocodeBlock: 0.6,
+  geocodeIntersection: 0.6,
+  streetCentroid: 0.3,
+} as const;
+
+/** A geocoded point this far from the street's own geometry is a wrong match and dropped. */
+const MAX_GEOCODE_OFFSET_M = 100;
+
+/** An OCR reading this far from the ticket's street is a misread (GPS error is tens of meters). */
+const MAX_OCR_OFFSET_M = 150;
+
+/** Caps each LocationIQ wait so a backed-up queue can't stall the scraper loop. */
+const LOOKUP_TIMEOUT_MS = 15_000;
+
+/** Startup backfill only retries tickets issued this recently. */
+const BACKFILL_DAYS = 30;
+
+export type TicketCoordinates = {
+  lat: number | null;
+  lng: number | null;
+  locationSource: LocationSource | null;
+  locationConfidence: number | null;
+};
+
+type LocatableTicket = Pick<
+  Ticket,
+  | 'jurisdictionId'
+  | 'lat'
+  | 'lng'
+  | 'ocrStatus'
+  | 'ocrConfidence'
+  | 'streetLocation'
+  | 'houseNumber'
+  | 'blockNumber'
+  | 'crossStreet'
+>;
+
+const NO_COORDINATES: TicketCoordinates = {
+  lat: null,
+  lng: null,
+  locationSource: null,
+  locationConfidence: null,
+};
+
+/** Resolves to null if `promise` takes longer than `ms` (the work itself is not cancelled). */
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T | null> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/** Address text to geocode and the confidence a hit earns; null when the location has no address part. */
+const geocodeQuery = (
+  ticket: LocatableTicket,
+): { address: string; confidence: number } | null => {
+  const street = ticket.streetLocation;
+  if (!street) return null;
+  if (ticket.houseNumber !== null) {
+    return {
+      address: `${ticket.houseNumber} ${street}`,
+      confidence: CONFIDENCE.geocodeHouse,
+    };
+  }
+  if (ticket.blockNumber !== null) {
+    // Middle of the hundred block.
+    return {
+      address: `${ticket.blockNumber + 50} ${street}`,
+      confidence: CONFIDENCE.geocodeBlock,
+    };
+  }
+  if (ticket.crossStreet) {
+    return {
+      address: `${street} & ${ticket.crossStreet}`,
+      confidence: CONFIDENCE.geocodeIntersection,
+    };
+  }
+  return null;
+};
+
+const geocodeTicket = async (
+  ticket: LocatableTicket,
+  polylines: LatLng[][] | null,
+): Promise<TicketCoordinates | null> => {
+  const query = geocodeQuery(ticket);
+  if (!query) return null;
+
+  let match;
+  try {
+    match = await withTimeout(
+      geocodeAddress(ticket.jurisdictionId, query.address),
+      LOOKUP_TIMEOUT_MS,
+    );
+  } catch (err) {
+    console.warn(
+      `[ticketLocation] Geocoding "${query.address}" failed:`,
+      err instanceof Error ? err.message : err,
+    );
+    return null;
+  }
+  if (!match) return null;
+  // A house-number query that only matched the road (or the town) is no better than the centroid.
+  if (ticket.crossStreet === null && !match.addressLevel) return null;
+  if (
+    polylines &&
+    !polylines.some(
+      (line) => distanceToPolylineMeters(match, line) <= MAX_GEOCODE_OFFSET_M,
+    )
+  ) {
+    return null;
+  }
+
+  return {
+    lat: match.lat,
+    lng: match.lng,
+    locationSource: 'geocode',
+    locationConfidence: query.confidence,
+  };
+};
+
+const streetPolylines = async (
+  ticket: LocatableTicket,
+): Promise<LatLng[][] | null> => {
+  if (!ticket.streetLocation) return null;
+  const stored = await loadStreetPolylines(
+    ticket.jurisdictionId,
+    ticket.streetLocation,
+  );
+  if (stored || !isLocationIqConfigured()) return stored;
+
+  // First ticket on this street: fetch its geometry now instead of after the save.
+  await withTimeout(
+    ensureStreetGeometryStored(ticket.jurisdictionId, ticket.streetLocation),
+    LOOKUP_TIMEOUT_MS,
+  );
+  return loadStreetPolylines(ticket.jurisdictionId, ticket.streetLocation);
+};
+
+export type OcrStatus = 'valid' | 'corrected' | 'rejected' | 'unverified';
+
+export type OcrCheck = {
+  /** The point to use: the reading, a corrected alternate, or null when rejected. */
+  lat: number | null;
+  lng: number | null;
+  ocrLat: number;
+  ocrLng: number;
+  ocrConfidence: number;
+  ocrStatus: OcrStatus;
+};
+
+const inBounds = (jurisdiction: Jurisdiction, p: LatLng): boolean => {
+  const { minLat, maxLat, minLng, maxLng } = jurisdiction;
+  if (minLat === null || maxLat === null || minLng === null || maxLng === null) return true;
+  return p.lat >= minLat && p.lat <= maxLat && p.lng >= minLng && p.lng <= maxLng;
+};
+
+/**
+ * Validates an OCR reading against the jurisdiction's bounding box and the distance to the
+ * street's stored geometry. A reading that fails is replaced by the first of its look-alike
+ * alternates that passes (`corrected`), else dropped (`rejected`) so the geocoding fallback runs.
+ * `unverified` when the jurisdiction has no box and the street no geometry yet.
+ */
+export async function checkOcrReading(
+  jurisdictionId: string,
+  rawLocation: string | null,
+  reading: OcrResult,
+): Promise<OcrCheck> {
+  const jurisdiction = await requireJurisdiction(jurisdictionId);
+  const street = rawLocation ? await findStreet(jurisdictionId, rawLocation) : null;
+  const polylines = street ? await loadStreetPolylines(jurisdictionId, street.name) : null;
+
+  const base = {
+    ocrLat: reading.lat,
+    ocrLng: reading.lng,
+    ocrConfidence: reading.confidence,
+  };
+  const hasBounds = jurisdiction.minLat !== null;
+  if (!hasBounds && !polylines) {
+    return { lat: reading.lat, lng: reading.lng, ...base, ocrStatus: 'unverified' };
+  }
+
+  const plausible = (p: LatLng) =>
+    inBounds(jurisdiction, p) &&
+    (!polylines ||
+      polylines.some((line) => distanceToPolylineMeters(p, line) <= MAX_OCR_OFFSET_M));
+
+  if (plausible(reading)) {
+    return { lat: reading.lat, lng: reading.lng, ...base, ocrStatus: 'valid' };
+  }
+  const corrected = reading.alternates.find(plausible);
+  if (corrected) {
+    console.log(
+      `🔧 OCR reading ${reading.lat},${reading.lng} corrected to ${corrected.lat},${corrected.lng}`,
+    );
+    return { lat: corrected.lat, lng: corrected.lng, ...base, ocrStatus: 'corrected' };
+  }
+  console.warn(`⚠️  OCR reading ${reading.lat},${reading.lng} rejected as an outlier`);
+  return { lat: null, lng: null, ...base, ocrStatus: 'rejected' };
+}
+
+/** Confidence of a pin taken from the OCR stamp. */
+const ocrLocationConfidence = (ticket: LocatableTicket): number => {
+  if (ticket.ocrStatus === 'corrected') return CONFIDENCE.ocrCorrected;
+  if (ticket.ocrStatus === 'unverified' && ticket.ocrConfidence !== null) {
+    return ticket.ocrConfidence;
+  }
+  return CONFIDENCE.ocr;
+};
+
+/** The (validated) OCR reading as the ticket's pin; null when there is none. No lookups. */
+export function ocrCoordinates(ticket: LocatableTicket): TicketCoordinates | null {
+  if (ticket.lat === null || ticket.lng === null) return null;
+  return {
+    lat: ticket.lat,
+    lng: ticket.lng,
+    locationSource: 'ocr',
+    locationConfidence: ocrLocationConfidence(ticket),
+  };
+}
+
+/**
+ * Coordinates for a ticket: the (validated) OCR reading if there is one, else the geocoded
+ * violation address, else the centroid of the street's geometry, else none.
+ */
+export async function locateTicket(
+  ticket: LocatableTicket,
+): Promise<TicketCoordinates> {
+  const ocr = ocrCoordinates(ticket);
+  if (ocr) return ocr;
+
+  const polylines = await streetPolylines(ticket);
+  if (isLocationIqConfigured()) {
+    const geocoded = await geocodeTicket(ticket, polylines);
+    if (geocoded) return geocoded;
+  }
+
+  const centroid = polylines ? polylinesCentroid(polylines) : null;
+  if (centroid) {
+    return {
+      ...centroid,
+      locationSource: 'street_centroid',
+      locationConfidence: CONFIDENCE.streetCentroid,
+    };
+  }
+  return NO_COORDINATES;
+}
+
+/**
+ * Runs `locateTicket` for a saved ticket and stores the result with `locationCheckedAt`, so a
+ * ticket nothing could place isn't looked up again on every start. Returns the updated row.
+ */
+export async function placeTicket(
+  ticketId: string,
+  ticket: LocatableTicket,
+): Promise<Ticket> {
+  const coordinates = await locateTicket(ticket);
+  return prisma.ticket.update({
+    where: { ticketId },
+    data: { ...coordinates, locationCheckedAt: new Date() },
+  });
+}
+
+/**
+ * Places recent tickets saved without coordinates whose fallback never ran (saved before it
+ * existed, or the process stopped before the lookup finished). Sequential; LocationIQ calls
+ * are throttled.
+ */
+export async function backfillTicketCoordinates(): Promise<{
+  scanned: number;
+  located: number;
+}> {
+  const since = new Date(Date.now() - BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      lat: null,
+      locationCheckedAt: null,
+      streetLocation: { not: null },
+      timestamp: { gte: since },
+    },
+    orderBy: { timestamp: 'desc' },
+    select: {
+      ticketId: true,
+      jurisdictionId: true,
+      lat: true,
+      lng: true,
+      ocrStatus: true,
+      ocrConfidence: true,
+      streetLocation: true,
+      houseNumber: true,
+      blockNumber: true,
+      crossStreet: true,
+    },
+  });
+
+  let located = 0;
+  for (const { ticketId, ...ticket } of tickets) {
+    const placed = await placeTicket(ticketId, ticket);
+    if (placed.locationSource !== null) located += 1;
+  }
+  return { scanned: tickets.length, located };
+}
@@ -0,0 +1,312 @@
+import type { Prisma, Ticket } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import { BadRequestError, NotFoundError } from '../utils/AppError.js';
+import {
+  blockEndIdOf,
+  blockStartIdOf,
+  isWithinBlock,
+  offsetInBlock,
+  parseTicketId,
+} from '../worker/blockMath.js';
+import { loadLane } from '../worker/laneManager.js';
+import { listStatusChanges } from './ticketStatusService.js';
+
+/** Upper bound on tickets replayed to a reconnecting stream client. */
+export const STREAM_REPLAY_LIMIT = 500;
+
+/** What a stream client receives: one jurisdiction, optionally narrowed to canonical streets. */
+export type StreamScope = {
+  jurisdictionId: string;
+  /** Empty or omitted: every street. */
+  streets?: string[];
+};
+
+export type StreamReplay = {
+  tickets: Ticket[];
+  /** More tickets matched than `limit`; the client should re-sync from the list endpoint. */
+  hasMore: boolean;
+};
+
+/**
+ * The scope's tickets saved after `lastTicketId`, oldest first (save order, not issue order —
+ * lanes discover tickets out of timestamp order), at most `limit` of them. No tickets when the
+ * anchor ticket is unknown.
+ */
+export async function listTicketsSavedAfter(
+  lastTicketId: string,
+  scope: StreamScope,
+  limit: number = STREAM_REPLAY_LIMIT,
+): Promise<StreamReplay> {
+  const anchor = await prisma.ticket.findUnique({
+    where: { ticketId: lastTicketId },
+    select: { createdAt: true },
+  });
+  if (!anchor) return { tickets: [], hasMore: false };
+
+  const streets = scope.streets ?? [];
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      jurisdictionId: scope.jurisdictionId,
+      ...(streets.length > 0 && { streetLocation: { in: streets } }),
+      OR: [
+        { createdAt: { gt: anchor.createdAt } },
+        { createdAt: anchor.createdAt, ticketId: { gt: lastTicketId } },
+      ],
+    },
+    orderBy: [{ createdAt: 'asc' }, { ticketId: 'asc' }],
+    take: limit + 1,
+  });
+  return { tickets: tickets.slice(0, limit), hasMore: tickets.length > limit };
+}
+
+export const TICKET_PAGE_DEFAULT_LIMIT = 100;
+export const TICKET_PAGE_MAX_LIMIT = 500;
+
+export type TicketBoundingBox = {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+};
+
+export type TicketListFilters = {
+  jurisdictionId: string;
+  limit: number;
+  /** Opaque cursor from a previous page's `nextCursor`. */
+  cursor?: string;
+  since?: Date;
+  until?: Date;
+  street?: string;
+  streetMatch: 'exact' | 'prefix';
+  bbox?: TicketBoundingBox;
+  plateState?: string;
+  hasCoordinates?: boolean;
+};
+
+export type TicketPage = {
+  tickets: Ticket[];
+  /** Pass back as `cursor` for the next page; null on the last page. */
+  nextCursor: string | null;
+};
+
+type CursorPosition = { timestamp: Date; ticketId: string };
+
+/** Opaque `nextCursor` for the page ending at `ticket`. */
+export const encodeCursor = (ticket: Pick<Ticket, 'timestamp' | 'ticketId'>): string =>
+  Buffer.from(
+    JSON.stringify({ t: ticket.timestamp.toISOString(), id: ticket.ticketId }),
+  ).toString('base64url');
+
+/** Returns null for anything that isn't a cursor we issued. */
+export const decodeCursor = (cursor: string): CursorPosition | null => {
+  try {
+    const raw = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as {
+      t?: unknown;
+      id?: unknown;
+    };
+    if (typeof raw.t !== 'string' || typeof raw.id !== 'string') return null;
+    const timestamp = new Date(raw.t);
+    if (Number.isNaN(timestamp.getTime())) return null;
+    return { timestamp, ticketId: raw.id };
+  } catch {
+    return null;
+  }
+};
+
+/** Prisma `where` for every filter except the cursor. */
+export const ticketFilterWhere = (
+  filters: Omit<TicketListFilters, 'limit' | 'cursor'>,
+): Prisma.TicketWhereInput => {
+  const and: Prisma.TicketWhereInput[] = [{ jurisdictionId: filters.jurisdictionId }];
+
+  if (filters.since || filters.until) {
+    and.push({
+      timestamp: {
+        ...(filters.since ? { gte: filters.since } : {}),
+        ...(filters.until ? { lt: filters.until } : {}),
+      },
+    });
+  }
+  if (filters.street) {
+    and.push({
+      streetLocation:
+        filters.streetMatch === 'prefix' ? { startsWith: filters.street } : filters.street,
+    });
+  }
+  if (filters.bbox) {
+    const { minLat, maxLat, minLng, maxLng } = filters.bbox;
+    and.push({ lat: { gte: minLat, lte: maxLat }, lng: { gte: minLng, lte: maxLng } });
+  }
+  if (filters.plateState) {
+    and.push({ licensePlateState: filters.plateState });
+  }
+  if (filters.hasCoordinates === true) {
+    and.push({ lat: { not: null }, lng: { not: null } });
+  } else if (filters.hasCoordinates === false) {
+    and.push({ OR: [{ lat: null }, { lng: null }] });
+  }
+
+  return { AND: and };
+};
+
+/**
+ * One page of tickets, newest first. Ordering is `timestamp DESC, ticketId DESC`
+ * so pages are stable even when several tickets share a timestamp (minute precision).
+ */
+export async function listTickets(filters: TicketListFilters): Promise<TicketPage> {
+  let where = ticketFilterWhere(filters);
+
+  if (filters.cursor) {
+    const position = decodeCursor(filters.cursor);
+    if (!position) {
+      throw new BadRequestError('Invalid cursor');
+    }
+    where = {
+      AND: [
+        where,
+        {
+          OR: [
+            { timestamp: { lt: position.timestamp } },
+            { timestamp: position.timestamp, ticketId: { lt: position.ticketId } },
+          ],
+        },
+      ],
+    };
+  }
+
+  const rows = await prisma.ticket.findMany({
+    where,
+    orderBy: [{ timestamp: 'desc' }, { ticketId: 'desc' }],
+    take: filters.limit + 1,
+  });
+
+  const hasMore = rows.length > filters.limit;
+  const tickets = hasMore ? rows.slice(0, filters.limit) : rows;
+  const last = tickets[tickets.length - 1];
+
+  return {
+    tickets,
+    nextCursor: hasMore && last ? encodeCursor(last) : null,
+  };
+}
+
+export const TICKET_NEIGHBOR_DEFAULT_WINDOW_MINUTES = 120;
+export const TICKET_NEIGHBOR_MAX_WINDOW_MINUTES = 24 * 60;
+
+/** Cap on neighbouring tickets returned by `getTicketDetail`. */
+const NEIGHBOR_LIMIT = 100;
+
+const NEIGHBOR_SELECT = {
+  ticketId: true,
+  timestamp: true,
+  streetLocation: true,
+  houseNumber: true,
+  blockNumber: true,
+  crossStreet: true,
+  lat: true,
+  lng: true,
+  locationSource: true,
+} satisfies Prisma.TicketSelect;
+
+/**
+ * One ticket with its enrichment: the 500-ID block (and scraper lane) it was issued from,
+ * the other tickets of that block issued within `windowMinutes` of it — one device, so
+ * roughly the officer's route, in issue order — a reference to its street's geometry, its
+ * payment status history, and whether `userId` was notified about it.
+ */
+export async function getTicketDetail(
+  ticketId: string,
+  userId: number,
+  options: { windowMinutes?: number } = {},
+) {
+  const ticket = await prisma.ticket.findUnique({ where: { ticketId } });
+  if (!ticket) {
+    throw new NotFoundError(`Ticket ${ticketId} not found`, { ticketId });
+  }
+  const windowMinutes = options.windowMinutes ?? TICKET_NEIGHBOR_DEFAULT_WINDOW_MINUTES;
+  const windowMs = windowMinutes * 60 * 1000;
+
+  const blockStartId = parseTicketId(ticketId) ? blockStartIdOf(ticketId) : null;
+  const blockEndId = blockStartId ? blockEndIdOf(blockStartId) : null;
+
+  const [lane, neighbors, geometry, notification, statusHistory] = await Promise.all([
+    blockStartId ? loadLane(ticket.jurisdictionId, blockStartId) : null,
+    blockStartId && blockEndId
+      ? prisma.ticket.findMany({
+          where: {
+            jurisdictionId: ticket.jurisdictionId,
+            ticketId: { gte: blockStartId, lte: blockEndId, not: ticketId },
+            timestamp: {
+              gte: new Date(ticket.timestamp.getTime() - windowMs),
+              lte: new Date(ticket.timestamp.getTime() + windowMs),
+            },
+          },
+          orderBy: [{ timestamp: 'asc' }, { ticketId: 'asc' }],
+          take: NEIGHBOR_LIMIT,
+          select: NEIGHBOR_SELECT,
+        })
+      : [],
+    ticket.streetLocation
+      ? prisma.streetGeometry.findUnique({
+          where: {
+            jurisdictionId_streetLocation: {
+              jurisdictionId: ticket.jurisdictionId,
+              streetLocation: ticket.streetLocation,
+            },
+          },
+          select: { notFound: true, fetchedAt: true },
+        })
+      : null,
+    prisma.notification.findFirst({
+      where: { userId, ticketId, kind: 'ticket' },
+      orderBy: { sentAt: 'asc' },
+      select: { sentAt: true },
+    }),
+    listStatusChanges(ticketId),
+  ]);
+
+  return {
+    ticket,
+    block:
+      blockStartId && blockEndId
+        ? {
+            blockStartId,
+            blockEndId,
+            offset: offsetInBlock(ticketId),
+            lane: lane
+              ? {
+                  status: lane.status,
+                  lastFoundId: lane.lastFoundId,
+                  lastFoundAt: lane.lastFoundAt,
+                }
+              : null,
+          }
+        : null,
+    neighbors: {
+      windowMinutes,
+      tickets: neighbors
+        // String range also admits IDs of another width; keep the true block members.
+        .filter((neighbor) => blockStartId && isWithinBlock(neighbor.ticketId, blockStartId))
+        .map((neighbor) => ({
+          ...neighbor,
+          offset: offsetInBlock(neighbor.ticketId),
+          minutesFromTicket: Math.round(
+            (neighbor.timestamp.getTime() - ticket.timestamp.getTime()) / 60000,
+          ),
+        })),
+    },
+    streetGeometry: ticket.streetLocation
+      ? {
+          street: ticket.streetLocation,
+          path: `/tickets/street/${encodeURIComponent(ticket.streetLocation)}/geometry?jurisdiction=${encodeURIComponent(ticket.jurisdictionId)}`,
+          stored: geometry !== null,
+          osmNotFound: geometry?.notFound ?? false,
+          fetchedAt: geometry?.fetchedAt ?? null,
+        }
+      : null,
+    statusHistory,
+    notified: notification !== null,
+    notifiedAt: notification?.sentAt ?? null,
+  };
+}
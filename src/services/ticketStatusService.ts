@@ -0,0 +1,217 @@
+import type { Prisma, Ticket } from '@prisma/client';
+
+import { prisma } from '../prisma.js';
+import { TicketSearchResult, type TicketSearchResponse } from '../tickets/types.js';
+import { findStreet } from './streetService.js';
+
+const MS_HOUR = 60 * 60 * 1000;
+const MS_DAY = 24 * MS_HOUR;
+
+/**
+ * Offsets from the ticket's issue time at which its status is re-checked — dense while
+ * payment is likely, sparse later. Override with env `TICKET_STATUS_RECHECK_DAYS`
+ * (comma-separated days). A ticket past the last offset is no longer re-checked.
+ */
+const DEFAULT_RECHECK_DAYS = [1, 3, 7, 14, 21, 30, 45, 60, 90];
+
+const RECHECK_OFFSETS_MS: number[] = (() => {
+  const parsed = (process.env.TICKET_STATUS_RECHECK_DAYS ?? '')
+    .split(',')
+    .map((s) => Number.parseFloat(s.trim()))
+    .filter((n) => Number.isFinite(n) && n > 0);
+  return (parsed.length > 0 ? parsed : DEFAULT_RECHECK_DAYS)
+    .sort((a, b) => a - b)
+    .map((days) => days * MS_DAY);
+})();
+
+/** Tickets issued longer ago than this are never re-checked. */
+const RECHECK_HORIZON_MS = RECHECK_OFFSETS_MS[RECHECK_OFFSETS_MS.length - 1]!;
+
+/** Retry delay when a re-check got no answer (CAPTCHA, failed challenge). */
+const INCONCLUSIVE_RETRY_MS = MS_HOUR;
+
+/** Statuses after which a ticket is left alone. */
+const RESOLVED_STATUSES = new Set(['paid', 'dismissed', 'closed']);
+
+/** Portal answer for a ticket that vanished from search. Recorded, but not a resolution. */
+const NOT_FOUND_STATUS = 'not_found';
+
+/** Default lookback for `getStreetResolutionStats`. */
+const RESOLUTION_LOOKBACK_DAYS = 90;
+
+export const isResolvedStatus = (status: string | null): boolean =>
+  status !== null && RESOLVED_STATUSES.has(status);
+
+/** First scheduled re-check after `now` for a ticket issued at `issuedAt`; null past the horizon. */
+export const nextStatusCheckAt = (issuedAt: Date, now: Date = new Date()): Date | null => {
+  for (const offset of RECHECK_OFFSETS_MS) {
+    const at = issuedAt.getTime() + offset;
+    if (at > now.getTime()) return new Date(at);
+  }
+  return null;
+};
+
+/**
+ * Status-tracking columns (and the first history row) for a ticket being saved, to spread
+ * into `prisma.ticket.create`.
+ */
+export const initialStatusTracking = (ticket: Pick<Ticket, 'timestamp' | 'paymentStatus'>, now: Date = new Date()) => {
+  const status = ticket.paymentStatus ?? 'open';
+  const resolved = isResolvedStatus(status);
+  return {
+    paymentStatus: status,
+    nextStatusCheckAt: resolved ? null : nextStatusCheckAt(ticket.timestamp, now),
+    resolvedAt: resolved ? now : null,
+    statusChanges: { create: { fromStatus: null, toStatus: status, observedAt: now } },
+  } satisfies Partial<Prisma.TicketCreateInput>;
+};
+
+/** Oldest due re-check for the jurisdiction, skipping tickets past the horizon. */
+export async function nextDueStatusCheck(jurisdictionId: string, now: Date = new Date()) {
+  return prisma.ticket.findFirst({
+    where: {
+      jurisdictionId,
+      nextStatusCheckAt: { lte: now },
+      timestamp: { gte: new Date(now.getTime() - RECHECK_HORIZON_MS) },
+    },
+    orderBy: { nextStatusCheckAt: 'asc' },
+    select: { ticketId: true, timestamp: true, paymentStatus: true },
+  });
+}
+
+/** Status a portal search reports for a stored ticket; null when the search was inconclusive. */
+const observedStatus = (response: TicketSearchResponse): string | null => {
+  switch (response.result) {
+    case TicketSearchResult.ACCESSIBLE:
+      return response.ticket?.paymentStatus ?? 'open';
+    case TicketSearchResult.CLOSED:
+      return 'closed';
+    case TicketSearchResult.NO_RESULTS:
+      return NOT_FOUND_STATUS;
+    default:
+      return null;
+  }
+};
+
+export type StatusCheckOutcome = {
+  /** Status the portal reported; null when the search was inconclusive. */
+  status: string | null;
+  changed: boolean;
+  nextStatusCheckAt: Date | null;
+};
+
+/**
+ * Applies one re-check's portal answer to a stored ticket: records a `TicketStatusChange`
+ * when the status moved, refreshes fine and due date from the card, and schedules the next
+ * check (none once resolved or past the horizon).
+ */
+export async function applyStatusCheck(
+  ticket: { ticketId: string; timestamp: Date; paymentStatus: string | null },
+  response: TicketSearchResponse,
+  now: Date = new Date(),
+): Promise<StatusCheckOutcome> {
+  const status = observedStatus(response);
+  if (status === null) {
+    const retryAt = new Date(now.getTime() + INCONCLUSIVE_RETRY_MS);
+    await prisma.ticket.update({
+      where: { ticketId: ticket.ticketId },
+      data: { nextStatusCheckAt: retryAt },
+    });
+    return { status: null, changed: false, nextStatusCheckAt: retryAt };
+  }
+
+  const changed = status !== ticket.paymentStatus;
+  const resolved = isResolvedStatus(status);
+  const next = resolved ? null : nextStatusCheckAt(ticket.timestamp, now);
+  const card = response.result === TicketSearchResult.ACCESSIBLE ? response.ticket : null;
+
+  await prisma.ticket.update({
+    where: { ticketId: ticket.ticketId },
+    data: {
+      paymentStatus: status,
+      statusCheckedAt: now,
+      nextStatusCheckAt: next,
+      statusCheckCount: { increment: 1 },
+      ...(changed && resolved ? { resolvedAt: now } : {}),
+      ...(card?.fineCents != null ? { fineCents: card.fineCents } : {}),
+      ...(card?.dueDate ? { dueDate: card.dueDate } : {}),
+      ...(changed
+        ? { statusChanges: { create: { fromStatus: ticket.paymentStatus, toStatus: status, observedAt: now } } }
+        : {}),
+    },
+  });
+  return { status, changed, nextStatusCheckAt: next };
+}
+
+/** Status transitions of one ticket, oldest first. */
+export async function listStatusChanges(ticketId: string) {
+  return prisma.ticketStatusChange.findMany({
+    where: { ticketId },
+    orderBy: { observedAt: 'asc' },
+    select: { fromStatus: true, toStatus: true, observedAt: true },
+  });
+}
+
+const summarizeHours = (hours: number[]) => {
+  const sorted = [...hours].sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]!;
+  const round = (h: number) => Math.round(h * 10) / 10;
+  return {
+    count: sorted.length,
+    avgHours: round(sorted.reduce((a, b) => a + b, 0) / sorted.length),
+    medianHours: round(at(0.5)),
+    p90Hours: round(at(0.9)),
+  };
+};
+
+/**
+ * Time from issue to payment / dismissal / closure for a street's tickets issued in the last
+ * `lookbackDays`. Resolution times are when a re-check first *saw* the new status, so they
+ * overstate the true time by up to one re-check interval. Null when the street is unknown.
+ */
+export async function getStreetResolutionStats(
+  jurisdictionId: string,
+  streetName: string,
+  options: { lookbackDays?: number } = {},
+) {
+  const street = await findStreet(jurisdictionId, streetName);
+  if (!street) return null;
+
+  const lookbackDays = options.lookbackDays ?? RESOLUTION_LOOKBACK_DAYS;
+  const since = new Date(Date.now() - lookbackDays * MS_DAY);
+  const tickets = await prisma.ticket.findMany({
+    where: { jurisdictionId, streetId: street.id, timestamp: { gte: since } },
+    select: { timestamp: true, paymentStatus: true, resolvedAt: true, nextStatusCheckAt: true },
+  });
+
+  const hoursByStatus = new Map<string, number[]>();
+  let open = 0;
+  let untracked = 0;
+  for (const ticket of tickets) {
+    if (ticket.resolvedAt && ticket.paymentStatus && isResolvedStatus(ticket.paymentStatus)) {
+      const hours = (ticket.resolvedAt.getTime() - ticket.timestamp.getTime()) / MS_HOUR;
+      hoursByStatus.set(ticket.paymentStatus, [...(hoursByStatus.get(ticket.paymentStatus) ?? []), hours]);
+    } else if (ticket.nextStatusCheckAt) {
+      open += 1;
+    } else {
+      untracked += 1;
+    }
+  }
+
+  const resolved = [...hoursByStatus.values()].flat();
+  return {
+    street: street.name,
+    lookbackDays,
+    ticketCount: tickets.length,
+    /** Resolved tickets per final status, with time-to-resolution summaries. */
+    byStatus: Object.fromEntries(
+      [...hoursByStatus.entries()].map(([status, hours]) => [status, summarizeHours(hours)]),
+    ) as Record<string, ReturnType<typeof summarizeHours>>,
+    resolved: resolved.length > 0 ? summarizeHours(resolved) : null,
+    /** Still being re-checked. */
+    openCount: open,
+    /** Neither resolved nor scheduled (past the re-check horizon, or not found on the portal). */
+    untrackedCount: untracked,
+    resolutionRate: tickets.length > 0 ? resolved.length / tickets.length : null,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Blob storage abstraction for archived evidence photos.
+ *
+ * Callers address blobs by an opaque key ("tickets/<ticketId>/1.jpg"); whether
+ * that is a file under a local directory or an object in a bucket is an
+ * adapter concern, selected by `createBlobStore`.
+ */
+
+export interface BlobStore {
+  /** Short adapter name for logs, e.g. `local`. */
+  readonly name: string;
+  /** Writes (or overwrites) the blob at `key`. */
+  put(key: string, data: Buffer): Promise<void>;
+  /** The blob's bytes, or null if there is none at `key`. */
+  get(key: string): Promise<Buffer | null>;
+  /** Removes the blob; no-op when it does not exist. */
+  delete(key: string): Promise<void>;
+}
+
+/** Keys are relative slash-separated paths of safe characters; no `..` segments. */
+export const isValidBlobKey = (key: string): boolean =>
+  /^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/.test(key) &&
+  !key.split('/').some((segment) => segment === '..' || segment === '.');
@@ -0,0 +1,25 @@
+import type { BlobStore } from './blobStore.js';
+import { createLocalBlobStore } from './localBlobStore.js';
+
+const DEFAULT_EVIDENCE_DIR = './data/evidence';
+
+let evidenceStore: BlobStore | null = null;
+
+/**
+ * Store for archived evidence photos, selected by `EVIDENCE_STORE`:
+ *   - `local` (default): files under `EVIDENCE_STORAGE_DIR` (default `./data/evidence`)
+ *
+ * Another backend (S3, GCS, ...) only needs to implement `BlobStore` and be added here.
+ */
+export const getEvidenceStore = (): BlobStore => {
+  if (evidenceStore) return evidenceStore;
+
+  const adapter = process.env.EVIDENCE_STORE?.trim() || 'local';
+  if (adapter !== 'local') {
+    throw new Error(`Unknown EVIDENCE_STORE "${adapter}" (expected local)`);
+  }
+  evidenceStore = createLocalBlobStore(
+    process.env.EVIDENCE_STORAGE_DIR?.trim() || DEFAULT_EVIDENCE_DIR,
+  );
+  return evidenceStore;
+};
@@ -0,0 +1,38 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+import type { BlobStore } from './blobStore.js';
+import { isValidBlobKey } from './blobStore.js';
+
+/** Blobs as files under `rootDir` (mount a volume there in Docker). */
+export const createLocalBlobStore = (rootDir: string): BlobStore => {
+  const root = path.resolve(rootDir);
+
+  const fileFor = (key: string): string => {
+    if (!isValidBlobKey(key)) throw new Error(`Invalid blob key "${key}"`);
+    return path.join(root, ...key.split('/'));
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const file = fileFor(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(fileFor(key));
+      } catch (err) {
+        if ((err as { code?: string }).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async delete(key) {
+      await rm(fileFor(key), { force: true });
+    },
+  };
+};
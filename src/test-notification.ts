@@ -22,12 +22,35 @@ import { emitNewTicket } from './services/notificationService.js';
 
 const fakeTicket = {
   ticketId: 'TEST-001',
+  jurisdictionId: 'ithaca',
   licensePlateNumber: 'ABC1234',
   licensePlateState: 'NY',
   streetLocation: 'LINDEN AVE',
+  rawLocation: '200 BLK LINDEN AVE',
+  streetId: null,
+  houseNumber: null,
+  blockNumber: 200,
+  crossStreet: null,
+  violationCode: '12',
+  violationDescription: 'EXPIRED METER',
+  fineCents: 3000,
+  dueDate: null,
+  paymentStatus: 'open',
+  statusCheckedAt: null,
+  nextStatusCheckAt: null,
+  statusCheckCount: 0,
+  resolvedAt: null,
   lat: 42.4440,
   lng: -76.5021,
+  locationSource: 'ocr',
+  locationConfidence: 1,
+  locationCheckedAt: null,
+  ocrLat: 42.4440,
+  ocrLng: -76.5021,
+  ocrConfidence: 0.95,
+  ocrStatus: 'valid',
   timestamp: new Date(),
+  createdAt: new Date(),
 };
 
 console.log('\n📤 Emitting test ticket for LINDEN AVE...');
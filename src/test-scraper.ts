@@ -1,7 +1,10 @@
 import 'dotenv/config';
 
+import { DEFAULT_JURISDICTION_ID, requireJurisdiction } from './services/jurisdictionService.js';
 import { startTicketWatcher } from './worker/ticketScraper.js';
 
 
-startTicketWatcher().catch(console.error);
+requireJurisdiction(process.env.SCRAPER_JURISDICTION ?? DEFAULT_JURISDICTION_ID)
+  .then(startTicketWatcher)
+  .catch(console.error);
 
@@ -11,6 +11,12 @@ export enum TicketSearchResult {
 export type TicketSearchResponse = {
   result: TicketSearchResult;
   ticket: Ticket | null;
+  /** Evidence carousel image `src` values (URLs or data URIs) of an accessible ticket. */
+  evidenceUrls?: string[];
+  /** CAPTCHA / failed-challenge retries the adapter needed for this search. */
+  captchaAttempts?: number;
+  /** Paid solver (2Captcha) requests made for this search. */
+  captchaSolves?: number;
 };
 
 export enum TicketMessage {
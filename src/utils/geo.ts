@@ -0,0 +1,254 @@
+/** Plain geodesy helpers (spherical earth; plenty accurate at city scale). */
+
+export type LatLng = { lat: number; lng: number };
+
+export type BoundingBox = {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+};
+
+/** Mean earth radius (IUGG). */
+export const EARTH_RADIUS_M = 6_371_008.8;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/** Great-circle distance in meters. */
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Initial great-circle bearing from `a` toward `b`, in degrees clockwise from north (0–360). */
+export function bearingDegrees(a: LatLng, b: LatLng): number {
+  const dLng = toRad(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.lat));
+  const x =
+    Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) -
+    Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLng);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/** Smallest angle between two bearings, 0–180. */
+export const bearingDifference = (a: number, b: number): number => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+/** Eight-point compass label for a bearing ("NE"). */
+export const compassPoint = (bearing: number): (typeof COMPASS_POINTS)[number] =>
+  COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 45) % 8]!;
+
+/**
+ * Smallest lat/lng box containing the circle of `radiusM` around `center`.
+ * Use as an indexed prefilter before the exact haversine check.
+ */
+export function boundingBoxAround(center: LatLng, radiusM: number): BoundingBox {
+  const dLat = toDeg(radiusM / EARTH_RADIUS_M);
+  const cosLat = Math.max(Math.cos(toRad(center.lat)), 1e-6);
+  const dLng = toDeg(radiusM / (EARTH_RADIUS_M * cosLat));
+  return {
+    minLat: center.lat - dLat,
+    maxLat: center.lat + dLat,
+    minLng: center.lng - dLng,
+    maxLng: center.lng + dLng,
+  };
+}
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/** Standard base32 geohash of `precision` characters. */
+export function encodeGeohash(point: LatLng, precision: number): string {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (point.lng >= mid) {
+        bits = (bits << 1) | 1;
+        minLng = mid;
+      } else {
+        bits <<= 1;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (point.lat >= mid) {
+        bits = (bits << 1) | 1;
+        minLat = mid;
+      } else {
+        bits <<= 1;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bitCount === 5) {
+      hash += GEOHASH_BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+  return hash;
+}
+
+/** Cell bounds of a geohash. */
+export function geohashBounds(hash: string): BoundingBox {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let evenBit = true;
+
+  for (const ch of hash) {
+    const idx = GEOHASH_BASE32.indexOf(ch);
+    if (idx < 0) throw new Error(`Invalid geohash character: ${ch}`);
+    for (let n = 4; n >= 0; n--) {
+      const bit = (idx >> n) & 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (bit) minLng = mid;
+        else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (bit) minLat = mid;
+        else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+/**
+ * Distance in meters from `point` to the closest point on `polyline`.
+ * Projects onto a local equirectangular plane around `point`, which is exact
+ * enough for the few-kilometer spans of a city street.
+ */
+export function distanceToPolylineMeters(point: LatLng, polyline: LatLng[]): number {
+  if (polyline.length === 0) return Infinity;
+  if (polyline.length === 1) return haversineMeters(point, polyline[0]!);
+
+  const cosLat = Math.cos(toRad(point.lat));
+  const project = (p: LatLng) => ({
+    x: toRad(p.lng - point.lng) * cosLat * EARTH_RADIUS_M,
+    y: toRad(p.lat - point.lat) * EARTH_RADIUS_M,
+  });
+
+  let best = Infinity;
+  let prev = project(polyline[0]!);
+  for (let i = 1; i < polyline.length; i++) {
+    const next = project(polyline[i]!);
+    const dx = next.x - prev.x;
+    const dy = next.y - prev.y;
+    const lengthSq = dx * dx + dy * dy;
+    // Parameter of the origin's projection onto the segment, clamped to [0, 1]
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(prev.x * dx + prev.y * dy) / lengthSq));
+    const d = Math.hypot(prev.x + t * dx, prev.y + t * dy);
+    if (d < best) best = d;
+    prev = next;
+  }
+  return best;
+}
+
+/**
+ * Closest approach of two sets of polylines: the smallest distance from a vertex of one to the
+ * other's lines, and that vertex. Exact when the nearest points include a vertex — always the
+ * case for OSM streets, which share a node where they meet.
+ */
+export function closestApproach(a: LatLng[][], b: LatLng[][]): { distanceM: number; at: LatLng } | null {
+  let best: { distanceM: number; at: LatLng } | null = null;
+  for (const [from, to] of [
+    [a, b],
+    [b, a],
+  ] as const) {
+    for (const point of from.flat()) {
+      for (const line of to) {
+        const distanceM = distanceToPolylineMeters(point, line);
+        if (!best || distanceM < best.distanceM) best = { distanceM, at: point };
+      }
+      if (best?.distanceM === 0) return best;
+    }
+  }
+  return best;
+}
+
+/** Length of a polyline in meters. */
+export const polylineLengthMeters = (polyline: LatLng[]): number =>
+  polyline.reduce((sum, point, i) => (i === 0 ? 0 : sum + haversineMeters(polyline[i - 1]!, point)), 0);
+
+/** Closest point to `point` on any of `polylines` (same local projection as above). */
+export function snapToPolylines(point: LatLng, polylines: LatLng[][]): LatLng | null {
+  const cosLat = Math.cos(toRad(point.lat));
+  const project = (p: LatLng) => ({
+    x: toRad(p.lng - point.lng) * cosLat * EARTH_RADIUS_M,
+    y: toRad(p.lat - point.lat) * EARTH_RADIUS_M,
+  });
+  const unproject = (x: number, y: number): LatLng => ({
+    lat: point.lat + toDeg(y / EARTH_RADIUS_M),
+    lng: point.lng + toDeg(x / (EARTH_RADIUS_M * cosLat)),
+  });
+
+  let best: { d: number; at: LatLng } | null = null;
+  for (const line of polylines) {
+    if (line.length === 1) {
+      const d = haversineMeters(point, line[0]!);
+      if (!best || d < best.d) best = { d, at: line[0]! };
+      continue;
+    }
+    let prev = project(line[0]!);
+    for (let i = 1; i < line.length; i++) {
+      const next = project(line[i]!);
+      const dx = next.x - prev.x;
+      const dy = next.y - prev.y;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(prev.x * dx + prev.y * dy) / lengthSq));
+      const x = prev.x + t * dx;
+      const y = prev.y + t * dy;
+      const d = Math.hypot(x, y);
+      if (!best || d < best.d) best = { d, at: unproject(x, y) };
+      prev = next;
+    }
+  }
+  return best?.at ?? null;
+}
+
+/**
+ * Length-weighted centroid of `polylines`, snapped onto the nearest line so it lies on the
+ * street itself (the raw centroid of a curved road can fall off it). Null when there are no points.
+ */
+export function polylinesCentroid(polylines: LatLng[][]): LatLng | null {
+  let weight = 0;
+  let lat = 0;
+  let lng = 0;
+  for (const line of polylines) {
+    for (let i = 1; i < line.length; i++) {
+      const a = line[i - 1]!;
+      const b = line[i]!;
+      const length = haversineMeters(a, b);
+      weight += length;
+      lat += ((a.lat + b.lat) / 2) * length;
+      lng += ((a.lng + b.lng) / 2) * length;
+    }
+  }
+  if (weight === 0) {
+    // Only single points (or zero-length lines): fall back to the first one.
+    return polylines.find((line) => line.length > 0)?.[0] ?? null;
+  }
+  return snapToPolylines({ lat: lat / weight, lng: lng / weight }, polylines);
+}
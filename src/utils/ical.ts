@@ -0,0 +1,98 @@
+/**
+ * Just enough RFC 5545 to read a city holiday calendar: VEVENT start/end dates,
+ * SUMMARY and UID. Times and time zones are dropped — a holiday is a whole local day.
+ */
+
+import { addDaysToLocalDate } from './timezone.js';
+
+export type CalendarEvent = {
+  uid: string | null;
+  summary: string;
+  /** First day, `YYYY-MM-DD`. */
+  startDate: string;
+  /** Day after the last day (exclusive), `YYYY-MM-DD`. */
+  endDate: string;
+  /** Has an RRULE/RDATE; callers that don't expand recurrences should skip it. */
+  recurring: boolean;
+};
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+/** Undoes line folding: a CRLF followed by a space or tab continues the previous line. */
+const unfold = (text: string): string[] =>
+  text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+
+const parseProperty = (line: string): Property | null => {
+  const colon = line.indexOf(':');
+  if (colon <= 0) return null;
+  const [name, ...params] = line.slice(0, colon).split(';');
+  return {
+    name: name!.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((p) => {
+        const [key, value = ''] = p.split('=');
+        return [key!.toUpperCase(), value.replace(/^"|"$/g, '')];
+      }),
+    ),
+    value: line.slice(colon + 1),
+  };
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+/** `YYYYMMDD` or `YYYYMMDDTHHMMSS[Z]` → `YYYY-MM-DD`; null if malformed. */
+const toDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const isDateOnly = (prop: Property): boolean =>
+  prop.params.VALUE === 'DATE' || /^\d{8}$/.test(prop.value.trim());
+
+const toEvent = (props: Property[]): CalendarEvent | null => {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const dtstart = get('DTSTART');
+  const startDate = dtstart ? toDate(dtstart.value) : null;
+  if (!dtstart || !startDate) return null;
+
+  // All-day DTEND is already exclusive; a timed event covers through its end date.
+  const dtend = get('DTEND');
+  const endRaw = dtend ? toDate(dtend.value) : null;
+  const endFromDtend =
+    dtend && endRaw ? (isDateOnly(dtend) ? endRaw : addDaysToLocalDate(endRaw, 1)) : null;
+  const endDate =
+    endFromDtend && endFromDtend > startDate ? endFromDtend : addDaysToLocalDate(startDate, 1);
+
+  return {
+    uid: get('UID')?.value.trim() || null,
+    summary: unescapeText(get('SUMMARY')?.value ?? '').trim(),
+    startDate,
+    endDate,
+    recurring: props.some((p) => p.name === 'RRULE' || p.name === 'RDATE'),
+  };
+};
+
+/** VEVENTs in `text`, in file order. Events without a parseable DTSTART are dropped. */
+export function parseICalEvents(text: string): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  let current: Property[] | null = null;
+
+  for (const line of unfold(text)) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = [];
+    } else if (upper === 'END:VEVENT') {
+      const event = current ? toEvent(current) : null;
+      if (event) events.push(event);
+      current = null;
+    } else if (current) {
+      const prop = parseProperty(line);
+      if (prop) current.push(prop);
+    }
+  }
+  return events;
+}
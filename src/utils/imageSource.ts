@@ -0,0 +1,31 @@
+import axios from 'axios';
+
+/** Same request timeout as the portal adapters' page loads. */
+const IMAGE_DOWNLOAD_TIMEOUT_MS = 5000;
+
+/** Evidence photos are a few MB at most; anything larger is not one. */
+const IMAGE_MAX_BYTES = 15 * 1024 * 1024;
+
+/**
+ * Bytes of an evidence image `src`: decodes a base64 data URI, otherwise downloads the URL.
+ * Null for a malformed data URI; download errors (including a timeout or an oversized
+ * response) propagate.
+ */
+export const loadImageBuffer = async (imageUrl: string): Promise<Buffer | null> => {
+  if (imageUrl.startsWith('data:')) {
+    // Extract the base64 data after the comma
+    const base64Data = imageUrl.split(',')[1];
+    if (!base64Data) {
+      console.error('Invalid data URI format');
+      return null;
+    }
+    return Buffer.from(base64Data, 'base64');
+  }
+
+  const response = await axios.get<ArrayBuffer>(imageUrl, {
+    responseType: 'arraybuffer',
+    timeout: IMAGE_DOWNLOAD_TIMEOUT_MS,
+    maxContentLength: IMAGE_MAX_BYTES,
+  });
+  return Buffer.from(response.data);
+};
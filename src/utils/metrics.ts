@@ -0,0 +1,238 @@
+/**
+ * Minimal in-process Prometheus registry (text exposition format 0.0.4).
+ *
+ * Counters and histograms live in memory and reset on restart, which is what
+ * Prometheus expects — it computes rates from monotonic counters and handles
+ * resets itself. The API and the scraper loop share this process, so one
+ * `/metrics` scrape covers both.
+ */
+
+type Labels = Record<string, string>;
+
+type Metric = {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render: () => string[];
+};
+
+const registry: Metric[] = [];
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(',')}}`;
+};
+
+/** Stable map key for a label set (label order is fixed by the metric's labelNames). */
+const keyOf = (labelNames: readonly string[], labels: Labels): string =>
+  labelNames.map((name) => labels[name] ?? '').join('\u0000');
+
+const pickLabels = (labelNames: readonly string[], labels: Labels): Labels =>
+  Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+
+const formatValue = (value: number): string =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+
+export type Counter<L extends string> = {
+  inc: (labels?: Partial<Record<L, string>>, amount?: number) => void;
+};
+
+export const counter = <L extends string = never>(
+  name: string,
+  help: string,
+  labelNames: readonly L[] = [],
+): Counter<L> => {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  // Unlabeled counters are exposed as 0 from the start so `rate()` has a baseline.
+  if (labelNames.length === 0) series.set('', { labels: {}, value: 0 });
+
+  registry.push({
+    name,
+    help,
+    type: 'counter',
+    render: () =>
+      [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+  });
+
+  return {
+    inc: (labels = {}, amount = 1) => {
+      if (amount < 0) return;
+      const key = keyOf(labelNames, labels as Labels);
+      const entry = series.get(key) ?? { labels: pickLabels(labelNames, labels as Labels), value: 0 };
+      entry.value += amount;
+      series.set(key, entry);
+    },
+  };
+};
+
+export type Histogram<L extends string> = {
+  observe: (labels: Partial<Record<L, string>>, value: number) => void;
+};
+
+export const histogram = <L extends string = never>(
+  name: string,
+  help: string,
+  buckets: readonly number[],
+  labelNames: readonly L[] = [],
+): Histogram<L> => {
+  const bounds = [...buckets].sort((a, b) => a - b);
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  registry.push({
+    name,
+    help,
+    type: 'histogram',
+    render: () =>
+      [...series.values()].flatMap((s) => [
+        ...bounds.map(
+          (le, i) => `${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`,
+        ),
+        `${name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`,
+        `${name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`,
+        `${name}_count${formatLabels(s.labels)} ${s.count}`,
+      ]),
+  });
+
+  return {
+    observe: (labels, value) => {
+      const key = keyOf(labelNames, labels as Labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = {
+          labels: pickLabels(labelNames, labels as Labels),
+          counts: bounds.map(() => 0),
+          sum: 0,
+          count: 0,
+        };
+        series.set(key, entry);
+      }
+      // Buckets are cumulative: an observation counts toward every bound it fits under.
+      bounds.forEach((le, i) => {
+        if (value <= le) entry.counts[i]! += 1;
+      });
+      entry.sum += value;
+      entry.count += 1;
+    },
+  };
+};
+
+/** Gauge sampled at scrape time (process stats, scraper state, ...). */
+export const gauge = (name: string, help: string, collect: () => number): void => {
+  registry.push({
+    name,
+    help,
+    type: 'gauge',
+    render: () => [`${name} ${formatValue(collect())}`],
+  });
+};
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Renders every registered metric in the Prometheus text format. */
+export const renderMetrics = (): string =>
+  registry
+    .flatMap((metric) => [
+      `# HELP ${metric.name} ${metric.help}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.render(),
+    ])
+    .join('\n') + '\n';
+
+// ---------------------------------------------------------------------------
+// Application metrics
+// ---------------------------------------------------------------------------
+
+export const httpRequestsTotal = counter(
+  'parkit_http_requests_total',
+  'HTTP requests handled, by method, matched route and status code.',
+  ['method', 'route', 'status'],
+);
+
+export const httpRequestDurationSeconds = histogram(
+  'parkit_http_request_duration_seconds',
+  'HTTP request latency in seconds, by method and matched route.',
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  ['method', 'route'],
+);
+
+export const scraperPollsTotal = counter(
+  'parkit_scraper_polls_total',
+  'Lane polls run by the scraper loop.',
+);
+
+export const scraperProbesTotal = counter(
+  'parkit_scraper_probes_total',
+  'Portal searches, by probe kind and outcome.',
+  ['kind', 'outcome'],
+);
+
+export const scraperHitsTotal = counter(
+  'parkit_scraper_hits_total',
+  'Lane polls that found an accessible ticket.',
+);
+
+export const scraperMissesTotal = counter(
+  'parkit_scraper_misses_total',
+  'Lane polls that found nothing (no results, or an unexpected portal state).',
+);
+
+export const scraperCaptchaAttemptsTotal = counter(
+  'parkit_scraper_captcha_attempts_total',
+  'CAPTCHA / failed-challenge retries during portal searches.',
+);
+
+export const scraperCaptchaSolvesTotal = counter(
+  'parkit_scraper_captcha_solves_total',
+  'CAPTCHA solver requests sent to 2Captcha.',
+);
+
+export const scraperBrowserRestartsTotal = counter(
+  'parkit_scraper_browser_restarts_total',
+  'Portal (browser) restarts after CAPTCHA exhaustion.',
+);
+
+export const ocrResultsTotal = counter(
+  'parkit_ocr_results_total',
+  'Evidence-photo GPS OCR runs, by result (success, no_match, error).',
+  ['result'],
+);
+
+export const ticketLocationSourcesTotal = counter(
+  'parkit_ticket_location_sources_total',
+  'Where saved tickets got coordinates, by source (ocr, geocode, street_centroid, none).',
+  ['source'],
+);
+
+export const ticketStatusChecksTotal = counter(
+  'parkit_ticket_status_checks_total',
+  'Status re-checks of saved tickets, by observed status (open, paid, closed, unchanged, ...).',
+  ['status'],
+);
+
+export const fcmMessagesTotal = counter(
+  'parkit_fcm_messages_total',
+  'FCM messages sent, by result (success, failure).',
+  ['result'],
+);
+
+export const locationIqRequestsTotal = counter(
+  'parkit_locationiq_requests_total',
+  'LocationIQ search calls, by result (ok, rate_limited, error).',
+  ['result'],
+);
+
+gauge(
+  'parkit_process_uptime_seconds',
+  'Seconds since the process started.',
+  () => process.uptime(),
+);
+
+gauge(
+  'parkit_process_resident_memory_bytes',
+  'Resident set size of the process in bytes.',
+  () => process.memoryUsage().rss,
+);
@@ -0,0 +1,6 @@
+// Sleeps for ms ± 5% to avoid predictable timing patterns
+export const sleep = (ms: number) => {
+  const jitter = ms * 0.05;
+  const actual = ms + (Math.random() * 2 - 1) * jitter;
+  return new Promise<void>((resolve) => setTimeout(resolve, actual));
+};
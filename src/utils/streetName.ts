@@ -0,0 +1,160 @@
+/**
+ * Street-name normalization for portal `#ViolationLocation` text and user input.
+ *
+ * Produces the USPS-style form the portal mostly uses ("LINDEN AVE", "N AURORA ST"):
+ * upper case, no punctuation, abbreviated suffix and directionals, and without the
+ * block / house number or an intersection tail. "Linden Ave.", "200 BLK LINDEN AVE"
+ * and "LINDEN AVENUE AT DRYDEN RD" all normalize to "LINDEN AVE". `parseViolationLocation`
+ * keeps the dropped parts as a house number / hundred block and a cross street.
+ */
+
+const SUFFIXES: Record<string, string> = {
+  ALLEY: 'ALY',
+  AV: 'AVE',
+  AVEN: 'AVE',
+  AVENUE: 'AVE',
+  BOULEVARD: 'BLVD',
+  CIRCLE: 'CIR',
+  COURT: 'CT',
+  DRIVE: 'DR',
+  EXPRESSWAY: 'EXPY',
+  HIGHWAY: 'HWY',
+  LANE: 'LN',
+  PARKWAY: 'PKWY',
+  PLACE: 'PL',
+  PLAZA: 'PLZ',
+  ROAD: 'RD',
+  SQUARE: 'SQ',
+  STR: 'ST',
+  STREET: 'ST',
+  TERRACE: 'TER',
+  TRAIL: 'TRL',
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+  NORTHEAST: 'NE',
+  NORTHWEST: 'NW',
+  SOUTHEAST: 'SE',
+  SOUTHWEST: 'SW',
+};
+
+/**
+ * "200 BLK", "200-298", "100 BLOCK OF", "123" (house number) at the start.
+ * Groups: 1 = number, 2 = range end, 3 = BLK/BLOCK keyword.
+ */
+const BLOCK_PREFIX = /^(\d+)[A-Z]?(?:\s*-\s*(\d+))?(?:\s+(BLK|BLOCK)(?:\s+OF)?)?\s+(?=\S)/;
+
+/**
+ * "X AT Y", "X & Y", "X / Y", "X AND Y", "X NEAR Y" — X is the street, Y the cross street.
+ * Group 1 is the separator.
+ */
+const INTERSECTION = /\s+(AT|AND|NEAR|@|&|\/)\s+/g;
+
+/** Suffixes in either spelling, plus short ones the table leaves alone. */
+const STREET_SUFFIXES = new Set([...Object.keys(SUFFIXES), ...Object.values(SUFFIXES), 'WAY']);
+
+const BLOCK_SIZE = 100;
+
+const cleanup = (raw: string): string =>
+  raw
+    .toUpperCase()
+    .replace(/[.,#'"]/g, '')
+    .replace(/\s*([&/@])\s*/g, ' $1 ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Abbreviates the suffix and directionals of a street name (no block number or
+ * intersection). A directional that *is* the name ("NORTH ST") is left spelled out.
+ */
+export const abbreviateStreetTokens = (name: string): string => {
+  const tokens = name.split(' ').filter(Boolean);
+  if (tokens.length === 0) return '';
+
+  // Trailing directional ("MAIN ST WEST") — only when a name and suffix precede it.
+  let trailing: string | null = null;
+  const last = tokens[tokens.length - 1]!;
+  if (tokens.length >= 3 && DIRECTIONALS[last]) {
+    trailing = DIRECTIONALS[last];
+    tokens.pop();
+  }
+
+  const suffixIndex = tokens.length - 1;
+  if (tokens.length >= 2 && SUFFIXES[tokens[suffixIndex]!]) {
+    tokens[suffixIndex] = SUFFIXES[tokens[suffixIndex]!]!;
+  }
+
+  if (tokens.length >= 3 && DIRECTIONALS[tokens[0]!]) {
+    tokens[0] = DIRECTIONALS[tokens[0]!]!;
+  }
+
+  if (trailing) tokens.push(trailing);
+  return tokens.join(' ');
+};
+
+export type ParsedViolationLocation = {
+  /** Normalized street name ('' when nothing street-like is left). */
+  street: string;
+  /** A specific address number ("215 LINDEN AVE"); null for block or range forms. */
+  houseNumber: number | null;
+  /** Hundred block the number falls in: 200 for "200 BLK", "215" and "200-298". */
+  blockNumber: number | null;
+  /** Normalized cross street of an "X AT Y" location. */
+  crossStreet: string | null;
+};
+
+/** A name plus a suffix ("DRYDEN RD", "200 BLK MAIN ST WEST"); "ARTS" or "SCIENCES" is not. */
+const looksLikeStreet = (text: string): boolean => {
+  const tokens = text.replace(BLOCK_PREFIX, '').split(' ').filter(Boolean);
+  if (tokens.length >= 3 && DIRECTIONALS[tokens[tokens.length - 1]!]) tokens.pop();
+  return tokens.length >= 2 && STREET_SUFFIXES.has(tokens[tokens.length - 1]!);
+};
+
+/**
+ * First separator that really joins two streets. "AND" is also part of names ("ARTS AND
+ * SCIENCES DR"), so it only splits when both sides look like streets on their own.
+ */
+const splitIntersection = (text: string): { street: string; cross: string } | null => {
+  for (const match of text.matchAll(INTERSECTION)) {
+    const street = text.slice(0, match.index);
+    const cross = text.slice(match.index! + match[0].length);
+    if (match[1] === 'AND' && !(looksLikeStreet(street) && looksLikeStreet(cross))) continue;
+    return { street, cross };
+  }
+  return null;
+};
+
+/** Splits portal location text into street, house number / block and cross street. */
+export const parseViolationLocation = (raw: string): ParsedViolationLocation => {
+  let text = cleanup(raw);
+
+  let crossStreet: string | null = null;
+  const intersection = splitIntersection(text);
+  if (intersection) {
+    text = intersection.street;
+    crossStreet = abbreviateStreetTokens(intersection.cross.replace(BLOCK_PREFIX, '')) || null;
+  }
+
+  let houseNumber: number | null = null;
+  let blockNumber: number | null = null;
+  const block = BLOCK_PREFIX.exec(text);
+  if (block) {
+    text = text.slice(block[0].length);
+    const number = Number.parseInt(block[1]!, 10);
+    blockNumber = blockOf(number);
+    if (block[2] === undefined && block[3] === undefined) houseNumber = number;
+  }
+
+  return { street: abbreviateStreetTokens(text), houseNumber, blockNumber, crossStreet };
+};
+
+/** Canonical form of a street name or violation location; '' when nothing street-like is left. */
+export const normalizeStreetName = (raw: string): string => parseViolationLocation(raw).street;
+
+/** Hundred block containing a house number (215 → 200). */
+export const blockOf = (houseNumber: number): number =>
+  Math.floor(houseNumber / BLOCK_SIZE) * BLOCK_SIZE;
@@ -40,3 +40,81 @@ export function getWeekdayIndexInTimeZone(date: Date, timeZone: string): number
     ? WEEKDAY_SHORT_TO_INDEX[w]!
     : 0;
 }
+
+/** Local calendar date `YYYY-MM-DD` in `timeZone`. */
+export function getLocalDateInTimeZone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/** True for a real calendar date written `YYYY-MM-DD`. */
+export function isValidLocalDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value;
+}
+
+/** `YYYY-MM-DD` shifted by `days` calendar days. */
+export function addDaysToLocalDate(localDate: string, days: number): string {
+  const [y, m, d] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(y!, m! - 1, d! + days)).toISOString().slice(0, 10);
+}
+
+/** 0 = Sunday … 6 = Saturday for a `YYYY-MM-DD` calendar date. */
+export function getWeekdayIndexOfLocalDate(localDate: string): number {
+  const [y, m, d] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(y!, m! - 1, d!)).getUTCDay();
+}
+
+/** Minutes `timeZone` is ahead of UTC at `date` (negative west of Greenwich). */
+const utcOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(date)
+      .map((p) => [p.type, p.value]),
+  );
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+};
+
+/**
+ * Instant at which the wall clock in `timeZone` reads `minuteOfDay` on `localDate`.
+ * `minuteOfDay` may be 1440 (the following midnight). Non-existent DST-gap times resolve
+ * forward; a time repeated when clocks fall back is its first occurrence.
+ */
+export function zonedTimeToUtc(localDate: string, minuteOfDay: number, timeZone: string): Date {
+  const [y, m, d] = localDate.split('-').map(Number);
+  const naive = Date.UTC(y!, m! - 1, d!, 0, minuteOfDay);
+
+  // The offsets a day either side cover any DST switch near this wall time.
+  const before = utcOffsetMinutes(new Date(naive - 86_400_000), timeZone);
+  const after = utcOffsetMinutes(new Date(naive + 86_400_000), timeZone);
+  const matches = [before, after]
+    .filter((offset) => utcOffsetMinutes(new Date(naive - offset * 60_000), timeZone) === offset)
+    .map((offset) => naive - offset * 60_000);
+
+  // No match: the wall time was skipped, and reading it with the pre-switch offset lands
+  // just after the switch.
+  return new Date(matches.length > 0 ? Math.min(...matches) : naive - before * 60_000);
+}
@@ -0,0 +1,30 @@
+/**
+ * Periodic removal of expired notification enrollments (`FcmEnrollment.expiresAt`).
+ *
+ * `emitNewTicket` already ignores expired rows; this just keeps the table and
+ * `GET /notifications/enrollments` from accumulating them.
+ */
+
+import cron from 'node-cron';
+import type { ScheduledTask } from 'node-cron';
+
+import { deleteExpiredEnrollments } from '../services/notificationService.js';
+
+const CLEANUP_SCHEDULE = '*/5 * * * *'; // every 5 minutes
+
+const runCleanup = async (): Promise<void> => {
+  try {
+    const removed = await deleteExpiredEnrollments();
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} expired notification enrollment(s)`);
+    }
+  } catch (error) {
+    console.error('Expired enrollment cleanup failed:', error);
+  }
+};
+
+/** Runs one cleanup now, then every 5 minutes. Stop the returned task on shutdown. */
+export const startEnrollmentCleanup = (): ScheduledTask => {
+  void runCleanup();
+  return cron.schedule(CLEANUP_SCHEDULE, runCleanup, { name: 'enrollment-cleanup' });
+};
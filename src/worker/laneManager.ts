@@ -10,8 +10,9 @@
  * HTTP calls and feeds results back in via `applyHit` / `applyMiss`.
  */
 
-import type { ScraperLane } from '@prisma/client';
+import type { Jurisdiction, ScraperLane } from '@prisma/client';
 import { prisma } from '../prisma.js';
+import { DEFAULT_JURISDICTION_ID, seedTicketIdsOf } from '../services/jurisdictionService.js';
 import {
   BLOCK_SIZE,
   blockEndIdOf,
@@ -25,6 +26,7 @@ import {
 export type LaneStatus = 'active' | 'retired';
 
 export type LaneState = {
+  jurisdictionId: string;
   blockStartId: string;
   blockEndId: string;
   nextCursorId: string;
@@ -113,7 +115,7 @@ export const LANE_MAX_IDLE_MS = (() => {
   return Number.isFinite(raw) && raw > 0 ? raw : 48 * 60 * 60_000;
 })();
 
-/** Comma-separated full ticket IDs used to seed lanes on first boot. */
+/** Comma-separated full ticket IDs used to seed the default jurisdiction's lanes on first boot. */
 export const LANE_BOOTSTRAP_BLOCK_STARTS: string[] = (() => {
   const raw = process.env.LANE_BOOTSTRAP_BLOCK_STARTS;
   if (!raw) return [];
@@ -141,6 +143,7 @@ export const isAtTail = (lane: LaneState): boolean =>
   remainingInBlock(lane.nextCursorId) <= LANE_TAIL_THRESHOLD;
 
 const rowToLane = (row: ScraperLane): LaneState => ({
+  jurisdictionId: row.jurisdictionId,
   blockStartId: row.blockStartId,
   blockEndId: row.blockEndId,
   nextCursorId: row.nextCursorId,
@@ -158,8 +161,8 @@ const rowToLane = (row: ScraperLane): LaneState => ({
 // DB persistence
 // ---------------------------------------------------------------------------
 
-export const loadLanes = async (): Promise<Map<string, LaneState>> => {
-  const rows = await prisma.scraperLane.findMany();
+export const loadLanes = async (jurisdictionId: string): Promise<Map<string, LaneState>> => {
+  const rows = await prisma.scraperLane.findMany({ where: { jurisdictionId } });
   const map = new Map<string, LaneState>();
   for (const row of rows) {
     map.set(row.blockStartId, rowToLane(row));
@@ -167,6 +170,16 @@ export const loadLanes = async (): Promise<Map<string, LaneState>> => {
   return map;
 };
 
+export const loadLane = async (
+  jurisdictionId: string,
+  blockStartId: string,
+): Promise<LaneState | null> => {
+  const row = await prisma.scraperLane.findUnique({
+    where: { jurisdictionId_blockStartId: { jurisdictionId, blockStartId } },
+  });
+  return row ? rowToLane(row) : null;
+};
+
 export const persistLane = async (lane: LaneState): Promise<void> => {
   const data = {
     blockEndId: lane.blockEndId,
@@ -181,24 +194,25 @@ export const persistLane = async (lane: LaneState): Promise<void> => {
     retiredReason: lane.retiredReason,
   };
 
+  const { jurisdictionId, blockStartId } = lane;
   await prisma.scraperLane.upsert({
-    where: { blockStartId: lane.blockStartId },
-    create: { blockStartId: lane.blockStartId, ...data },
+    where: { jurisdictionId_blockStartId: { jurisdictionId, blockStartId } },
+    create: { jurisdictionId, blockStartId, ...data },
     update: data,
   });
 };
 
-export const getLastDiscoveryAt = async (): Promise<Date | null> => {
+export const getLastDiscoveryAt = async (jurisdictionId: string): Promise<Date | null> => {
   const row = await prisma.scraperState.findUnique({
-    where: { id: 1 },
+    where: { jurisdictionId },
     select: { lastDiscoveryAt: true },
   });
   return row?.lastDiscoveryAt ?? null;
 };
 
-export const setLastDiscoveryAt = async (at: Date): Promise<void> => {
+export const setLastDiscoveryAt = async (jurisdictionId: string, at: Date): Promise<void> => {
   await prisma.scraperState.update({
-    where: { id: 1 },
+    where: { jurisdictionId },
     data: { lastDiscoveryAt: at },
   });
 };
@@ -208,10 +222,12 @@ export const setLastDiscoveryAt = async (at: Date): Promise<void> => {
 // ---------------------------------------------------------------------------
 
 export const createLane = (
+  jurisdictionId: string,
   blockStartId: string,
   nextCursorId: string,
   now: Date = new Date(),
 ): LaneState => ({
+  jurisdictionId,
   blockStartId,
   blockEndId: blockEndIdOf(blockStartId),
   nextCursorId,
@@ -228,16 +244,21 @@ export const createLane = (
 const FAR_FUTURE_MS = 365 * 24 * 60 * 60_000;
 
 /**
- * Resolve env-provided seed ticket IDs. `LANE_BOOTSTRAP_BLOCK_STARTS` takes
- * precedence over `DEFAULT_START_TICKET_ID`; the latter is only used as a
- * single seed when the former is empty.
+ * Resolve seed ticket IDs: the jurisdiction's `seedTicketIds`, else (default
+ * jurisdiction only) the env. `LANE_BOOTSTRAP_BLOCK_STARTS` takes precedence
+ * over `DEFAULT_START_TICKET_ID`; the latter is only used as a single seed
+ * when the former is empty.
  */
-const resolveEnvSeeds = (): { seeds: string[]; floorNumeric: number | null } => {
-  const seeds: string[] = [];
-  for (const raw of LANE_BOOTSTRAP_BLOCK_STARTS) seeds.push(raw);
-
-  const envDefault = process.env.DEFAULT_START_TICKET_ID;
-  if (seeds.length === 0 && envDefault) seeds.push(envDefault);
+const resolveSeeds = (
+  jurisdiction: Jurisdiction,
+): { seeds: string[]; floorNumeric: number | null } => {
+  const seeds: string[] = seedTicketIdsOf(jurisdiction);
+  if (seeds.length === 0 && jurisdiction.id === DEFAULT_JURISDICTION_ID) {
+    for (const raw of LANE_BOOTSTRAP_BLOCK_STARTS) seeds.push(raw);
+
+    const envDefault = process.env.DEFAULT_START_TICKET_ID;
+    if (seeds.length === 0 && envDefault) seeds.push(envDefault);
+  }
 
   let floorNumeric: number | null = null;
   for (const id of seeds) {
@@ -248,13 +269,13 @@ const resolveEnvSeeds = (): { seeds: string[]; floorNumeric: number | null } =>
 };
 
 /**
- * Always-runs bootstrap. Idempotent. Responsibilities:
- *   1. If env provides seed IDs, compute a "floor" = min(numeric) across seeds.
+ * Always-runs bootstrap for one jurisdiction's lanes. Idempotent. Responsibilities:
+ *   1. If seed IDs are configured, compute a "floor" = min(numeric) across seeds.
  *      - Retire any active DB lane whose entire block is behind the floor
  *        (reason: `bootstrap_floor`).
  *      - Fast-forward any active DB lane whose cursor is behind the floor
  *        (but whose block still overlaps).
- *   2. For each env seed, ensure a lane exists at that seed's block. If one
+ *   2. For each seed, ensure a lane exists at that seed's block. If one
  *      exists, fast-forward its cursor to the seed value when the seed is
  *      ahead. If not, create a lane with the seed as the initial cursor.
  *   3. If after steps 1–2 there are still no active lanes, fall back to the
@@ -262,20 +283,21 @@ const resolveEnvSeeds = (): { seeds: string[]; floorNumeric: number | null } =>
  *
  * Never un-retires a lane that was previously retired — retirement is sticky.
  */
-export const bootstrapLanes = async (): Promise<void> => {
-  const { seeds, floorNumeric } = resolveEnvSeeds();
+export const bootstrapLanes = async (jurisdiction: Jurisdiction): Promise<void> => {
+  const jurisdictionId = jurisdiction.id;
+  const { seeds, floorNumeric } = resolveSeeds(jurisdiction);
   const now = new Date();
 
-  // 1. Apply env floor to existing lanes.
+  // 1. Apply seed floor to existing lanes.
   if (floorNumeric !== null) {
-    const existing = await prisma.scraperLane.findMany({ where: { status: 'active' } });
+    const existing = await prisma.scraperLane.findMany({ where: { jurisdictionId, status: 'active' } });
     for (const row of existing) {
       const blockEndNum = parseTicketIdOrThrow(row.blockEndId).numeric;
       const cursorNum = parseTicketIdOrThrow(row.nextCursorId).numeric;
 
       if (blockEndNum < floorNumeric) {
         await prisma.scraperLane.update({
-          where: { blockStartId: row.blockStartId },
+          where: { jurisdictionId_blockStartId: { jurisdictionId, blockStartId: row.blockStartId } },
           data: {
             status: 'retired',
             retiredAt: now,
@@ -293,7 +315,7 @@ export const bootstrapLanes = async (): Promise<void> => {
       if (cursorNum < floorNumeric) {
         const newCursor = formatLike(row.blockStartId, floorNumeric);
         await prisma.scraperLane.update({
-          where: { blockStartId: row.blockStartId },
+          where: { jurisdictionId_blockStartId: { jurisdictionId, blockStartId: row.blockStartId } },
           data: { nextCursorId: newCursor },
         });
         console.log(
@@ -304,7 +326,7 @@ export const bootstrapLanes = async (): Promise<void> => {
     }
   }
 
-  // 2. Ensure each env seed has a lane; fast-forward if seed is ahead of the
+  // 2. Ensure each seed has a lane; fast-forward if seed is ahead of the
   //    existing cursor in that block.
   const seenBlocks = new Set<string>();
   for (const seedId of seeds) {
@@ -312,12 +334,14 @@ export const bootstrapLanes = async (): Promise<void> => {
     if (seenBlocks.has(blockStartId)) continue;
     seenBlocks.add(blockStartId);
 
-    const existing = await prisma.scraperLane.findUnique({ where: { blockStartId } });
+    const existing = await prisma.scraperLane.findUnique({
+      where: { jurisdictionId_blockStartId: { jurisdictionId, blockStartId } },
+    });
 
     if (existing) {
       if (existing.status !== 'active') {
         console.log(
-          `ℹ️  Env seed ${seedId} falls in retired lane ${blockStartId} — leaving retired ` +
+          `ℹ️  Seed ${seedId} falls in retired lane ${blockStartId} — leaving retired ` +
           `(status=${existing.status}, reason=${existing.retiredReason ?? 'unknown'})`,
         );
         continue;
@@ -326,40 +350,45 @@ export const bootstrapLanes = async (): Promise<void> => {
       const seedNum = parseTicketIdOrThrow(seedId).numeric;
       if (seedNum > cursorNum) {
         await prisma.scraperLane.update({
-          where: { blockStartId },
+          where: { jurisdictionId_blockStartId: { jurisdictionId, blockStartId } },
           data: { nextCursorId: seedId },
         });
         console.log(
           `⏩ Fast-forwarding lane ${blockStartId} cursor ${existing.nextCursorId} → ${seedId} ` +
-          `(env seed)`,
+          `(seed)`,
         );
       }
       continue;
     }
 
-    const resumeFrom = await resolveResumeCursor(blockStartId, seedId);
-    const lane = createLane(blockStartId, resumeFrom);
+    const resumeFrom = await resolveResumeCursor(jurisdictionId, blockStartId, seedId);
+    const lane = createLane(jurisdictionId, blockStartId, resumeFrom);
     await persistLane(lane);
     console.log(`🌱 Bootstrapped lane for block ${blockStartId} (cursor=${resumeFrom})`);
   }
 
   // 3. If still no active lanes, fall back to the highest ticket in DB.
-  const activeCount = await prisma.scraperLane.count({ where: { status: 'active' } });
+  const activeCount = await prisma.scraperLane.count({ where: { jurisdictionId, status: 'active' } });
   if (activeCount > 0) return;
 
   const highestTicket = await prisma.ticket.findFirst({
+    where: { jurisdictionId },
     orderBy: { ticketId: 'desc' },
     select: { ticketId: true },
   });
 
   if (!highestTicket) {
     throw new Error(
-      'No active lanes and no tickets in DB (set LANE_BOOTSTRAP_BLOCK_STARTS or DEFAULT_START_TICKET_ID, or ensure at least one Ticket exists).',
+      `No active lanes and no tickets in DB for jurisdiction "${jurisdictionId}" (set its seedTicketIds` +
+        ' — or LANE_BOOTSTRAP_BLOCK_STARTS / DEFAULT_START_TICKET_ID for the default jurisdiction —' +
+        ' or ensure at least one Ticket exists).',
     );
   }
 
   const blockStartId = blockStartIdOf(highestTicket.ticketId);
-  const existing = await prisma.scraperLane.findUnique({ where: { blockStartId } });
+  const existing = await prisma.scraperLane.findUnique({
+    where: { jurisdictionId_blockStartId: { jurisdictionId, blockStartId } },
+  });
   if (existing) {
     console.warn(
       `⚠️  All lanes retired; DB fallback block ${blockStartId} is also retired. ` +
@@ -368,8 +397,8 @@ export const bootstrapLanes = async (): Promise<void> => {
     return;
   }
 
-  const resumeFrom = await resolveResumeCursor(blockStartId, undefined);
-  const lane = createLane(blockStartId, resumeFrom);
+  const resumeFrom = await resolveResumeCursor(jurisdictionId, blockStartId, undefined);
+  const lane = createLane(jurisdictionId, blockStartId, resumeFrom);
   await persistLane(lane);
   console.log(`🌱 Bootstrapped lane for block ${blockStartId} (cursor=${resumeFrom}) from DB fallback`);
 };
@@ -380,6 +409,7 @@ export const bootstrapLanes = async (): Promise<void> => {
  * default, or the block start itself).
  */
 const resolveResumeCursor = async (
+  jurisdictionId: string,
   blockStartId: string,
   envDefault: string | undefined,
 ): Promise<string> => {
@@ -392,7 +422,7 @@ const resolveResumeCursor = async (
   // safe here because every ticket in the same block shares prefix + width.
   const endId = formatLike(blockStartId, blockEndNum);
   const candidate = await prisma.ticket.findFirst({
-    where: { ticketId: { gte: blockStartId, lte: endId } },
+    where: { jurisdictionId, ticketId: { gte: blockStartId, lte: endId } },
     orderBy: { ticketId: 'desc' },
     select: { ticketId: true },
   });
@@ -536,6 +566,24 @@ export const retireLane = (
   lane.nextDueAt = new Date(now.getTime() + 365 * 24 * 60 * 60_000);
 };
 
+/**
+ * Manual (admin) cursor placement: point the lane at `cursorId`, make it active
+ * and due now, and clear decay so it polls hot from there.
+ */
+export const resetLaneCursor = (
+  lane: LaneState,
+  cursorId: string,
+  now: Date = new Date(),
+): void => {
+  lane.nextCursorId = cursorId;
+  lane.missStreak = 0;
+  lane.cadenceLevel = 0;
+  lane.nextDueAt = now;
+  lane.status = 'active';
+  lane.retiredAt = null;
+  lane.retiredReason = null;
+};
+
 // ---------------------------------------------------------------------------
 // Discovery candidates
 // ---------------------------------------------------------------------------
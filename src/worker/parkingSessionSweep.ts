@@ -0,0 +1,33 @@
+/**
+ * Once a minute: push "ending soon" reminders for parking sessions entering their
+ * reminder lead time, then close sessions past their expected end.
+ */
+
+import cron from 'node-cron';
+import type { ScheduledTask } from 'node-cron';
+
+import {
+  closeExpiredSessions,
+  sendDueSessionReminders,
+} from '../services/parkingSessionService.js';
+
+const SWEEP_SCHEDULE = '* * * * *'; // every minute
+
+const runSweep = async (): Promise<void> => {
+  try {
+    const now = new Date();
+    const reminded = await sendDueSessionReminders(now);
+    const closed = await closeExpiredSessions(now);
+    if (reminded > 0 || closed > 0) {
+      console.log(`🅿️  Parking sessions: ${reminded} reminder(s) sent, ${closed} closed`);
+    }
+  } catch (error) {
+    console.error('Parking session sweep failed:', error);
+  }
+};
+
+/** Runs one sweep now, then every minute. Stop the returned task on shutdown. */
+export const startParkingSessionSweep = (): ScheduledTask => {
+  void runSweep();
+  return cron.schedule(SWEEP_SCHEDULE, runSweep, { name: 'parking-session-sweep', noOverlap: true });
+};
@@ -0,0 +1,139 @@
+/**
+ * In-process control channel between the admin API and the scraper loops.
+ *
+ * One watcher loop runs per jurisdiction, and every signal here is keyed by
+ * jurisdiction id. Admin routes never touch a loop's in-memory lane map
+ * directly. They write lane changes to the DB and then signal here; the loop
+ * reloads lanes, honors pause / forced discovery at the top of its next
+ * iteration, and every idle sleep in the loop is cut short by `wakeScraper()`
+ * so changes apply within seconds instead of after the current cadence or
+ * off-hours wait.
+ */
+
+import { prisma } from '../prisma.js';
+
+const paused = new Set<string>();
+const running = new Set<string>();
+const laneRevisions = new Map<string, number>();
+const loadedLaneRevisions = new Map<string, number>();
+const discoveryRequested = new Set<string>();
+const wakers = new Map<string, () => void>();
+
+/** Interrupts whatever `interruptibleSleep` the jurisdiction's loop is in. */
+const wakeScraper = (jurisdictionId: string): void => {
+  wakers.get(jurisdictionId)?.();
+};
+
+/**
+ * Sleeps up to `ms`, returning early (with `true`) when an admin action wakes the loop.
+ * Only the jurisdiction's own scraper loop should call this — there is one wake slot each.
+ */
+export const interruptibleSleep = (jurisdictionId: string, ms: number): Promise<boolean> =>
+  new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => {
+      wakers.delete(jurisdictionId);
+      resolve(false);
+    }, ms);
+    wakers.set(jurisdictionId, () => {
+      clearTimeout(timer);
+      wakers.delete(jurisdictionId);
+      resolve(true);
+    });
+  });
+
+// ---------------------------------------------------------------------------
+// Loop lifecycle
+// ---------------------------------------------------------------------------
+
+/**
+ * Called once by `startTicketWatcher`; creates the jurisdiction's `ScraperState` row on
+ * first run and restores its persisted pause flag.
+ */
+export const markScraperStarted = async (jurisdictionId: string): Promise<void> => {
+  running.add(jurisdictionId);
+  const state = await prisma.scraperState.upsert({
+    where: { jurisdictionId },
+    create: { jurisdictionId, lastCheckedId: '', status: 'starting' },
+    update: {},
+    select: { paused: true },
+  });
+  if (state.paused) paused.add(jurisdictionId);
+  else paused.delete(jurisdictionId);
+  loadedLaneRevisions.set(jurisdictionId, currentLaneRevision(jurisdictionId));
+};
+
+export const isScraperRunning = (jurisdictionId: string): boolean => running.has(jurisdictionId);
+
+// ---------------------------------------------------------------------------
+// Pause / resume
+// ---------------------------------------------------------------------------
+
+export const isScraperPaused = (jurisdictionId: string): boolean => paused.has(jurisdictionId);
+
+const persistPaused = async (jurisdictionId: string, value: boolean): Promise<void> => {
+  await prisma.scraperState.upsert({
+    where: { jurisdictionId },
+    create: { jurisdictionId, lastCheckedId: '', status: value ? 'paused' : 'ok', paused: value },
+    update: { paused: value },
+  });
+};
+
+/** Stops polling after the current probe finishes. Persists across restarts. */
+export const pauseScraper = async (jurisdictionId: string): Promise<void> => {
+  await persistPaused(jurisdictionId, true);
+  paused.add(jurisdictionId);
+  wakeScraper(jurisdictionId);
+};
+
+export const resumeScraper = async (jurisdictionId: string): Promise<void> => {
+  await persistPaused(jurisdictionId, false);
+  paused.delete(jurisdictionId);
+  wakeScraper(jurisdictionId);
+};
+
+// ---------------------------------------------------------------------------
+// Lane edits
+// ---------------------------------------------------------------------------
+
+/** Signals that lane rows changed in the DB; the loop reloads them before its next poll. */
+export const requestLaneReload = (jurisdictionId: string): void => {
+  laneRevisions.set(jurisdictionId, currentLaneRevision(jurisdictionId) + 1);
+  wakeScraper(jurisdictionId);
+};
+
+/** Revision the loop's in-memory lanes reflect; compare before persisting a poll result. */
+export const currentLaneRevision = (jurisdictionId: string): number =>
+  laneRevisions.get(jurisdictionId) ?? 0;
+
+/** True (once) if lanes were edited since the loop last reloaded them. */
+export const consumeLaneReload = (jurisdictionId: string): boolean => {
+  const revision = currentLaneRevision(jurisdictionId);
+  if ((loadedLaneRevisions.get(jurisdictionId) ?? 0) === revision) return false;
+  loadedLaneRevisions.set(jurisdictionId, revision);
+  return true;
+};
+
+// ---------------------------------------------------------------------------
+// Enforcement schedule
+// ---------------------------------------------------------------------------
+
+/** Wakes the loop so an off-hours sleep is recomputed against the edited schedule. */
+export const notifyScheduleChanged = (jurisdictionId: string): void => {
+  wakeScraper(jurisdictionId);
+};
+
+// ---------------------------------------------------------------------------
+// Forced discovery
+// ---------------------------------------------------------------------------
+
+export const requestDiscovery = (jurisdictionId: string): void => {
+  discoveryRequested.add(jurisdictionId);
+  wakeScraper(jurisdictionId);
+};
+
+export const isDiscoveryRequested = (jurisdictionId: string): boolean =>
+  discoveryRequested.has(jurisdictionId);
+
+/** True (once) if an admin asked for an immediate discovery sweep. */
+export const consumeDiscoveryRequest = (jurisdictionId: string): boolean =>
+  discoveryRequested.delete(jurisdictionId);
@@ -0,0 +1,28 @@
+/**
+ * Hourly pruning of `ScraperProbe` rows past `SCRAPER_PROBE_RETENTION_DAYS`,
+ * keeping the per-probe telemetry table rolling.
+ */
+
+import cron from 'node-cron';
+import type { ScheduledTask } from 'node-cron';
+
+import { pruneScraperProbes } from '../services/scraperTelemetryService.js';
+
+const RETENTION_SCHEDULE = '17 * * * *'; // hourly, off the top of the hour
+
+const runPrune = async (): Promise<void> => {
+  try {
+    const removed = await pruneScraperProbes();
+    if (removed > 0) {
+      console.log(`🧹 Pruned ${removed} old scraper probe(s)`);
+    }
+  } catch (error) {
+    console.error('Scraper probe pruning failed:', error);
+  }
+};
+
+/** Prunes once now, then hourly. Stop the returned task on shutdown. */
+export const startScraperProbeRetention = (): ScheduledTask => {
+  void runPrune();
+  return cron.schedule(RETENTION_SCHEDULE, runPrune, { name: 'scraper-probe-retention' });
+};
@@ -1,16 +1,39 @@
-import { chromium } from 'playwright-extra';
-import stealth from 'puppeteer-extra-plugin-stealth';
-import type { Page } from 'playwright';
-import { Solver } from '@2captcha/captcha-solver';
-
-chromium.use(stealth());
+import type { Jurisdiction, Ticket } from '@prisma/client';
 
+import { publishNewTicket, publishTicketLocated } from '../events/ticketEvents.js';
+import { createTicketPortal } from '../portal/createTicketPortal.js';
+import {
+  CaptchaExhaustedError,
+  MAX_CAPTCHA_ATTEMPTS,
+  type TicketPortal,
+} from '../portal/ticketPortal.js';
 import { prisma } from '../prisma.js';
-import { extractGpsFromImageUrl } from '../services/ocrService.js';
-import { emitNewTicket } from '../services/notificationService.js';
+import { msUntilEnforcement } from '../services/enforcementScheduleService.js';
+import { emitApproachingEnforcement, emitNewTicket } from '../services/notificationService.js';
+import { archiveEvidencePhotos } from '../services/evidencePhotoService.js';
+import { recordDetectLag, recordProbe } from '../services/scraperTelemetryService.js';
+import type { ProbeKind, ProbeRecord } from '../services/scraperTelemetryService.js';
 import { ensureStreetGeometryStored } from '../services/streetGeometryService.js';
-import { TicketMessage, TicketSearchResult, type TicketSearchResponse } from '../tickets/types.js';
-import type { Ticket } from '@prisma/client';
+import { resolveTicketLocation } from '../services/streetService.js';
+import { ocrCoordinates, placeTicket } from '../services/ticketLocationService.js';
+import {
+  applyStatusCheck,
+  initialStatusTracking,
+  nextDueStatusCheck,
+} from '../services/ticketStatusService.js';
+import { TicketSearchResult, type TicketSearchResponse } from '../tickets/types.js';
+import {
+  scraperBrowserRestartsTotal,
+  scraperCaptchaAttemptsTotal,
+  scraperCaptchaSolvesTotal,
+  scraperHitsTotal,
+  scraperMissesTotal,
+  scraperPollsTotal,
+  scraperProbesTotal,
+  ticketLocationSourcesTotal,
+  ticketStatusChecksTotal,
+} from '../utils/metrics.js';
+import { sleep } from '../utils/sleep.js';
 import {
   formatLike,
   parseTicketIdOrThrow,
@@ -34,83 +57,47 @@ import {
   shouldRunDiscovery,
 } from './laneManager.js';
 import type { LaneState } from './laneManager.js';
+import {
+  consumeDiscoveryRequest,
+  consumeLaneReload,
+  currentLaneRevision,
+  interruptibleSleep,
+  isScraperPaused,
+  markScraperStarted,
+} from './scraperControl.js';
 
-const solver = new Solver(process.env.TWOCAPTCHA_API_KEY ?? '');
-
-const SCRAPER_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
-
-const TICKET_PORTAL_URL =
-  'https://www.tocite.net/cityofithaca/portal/ticket' as const;
-
-// Sleeps for ms ± 5% to avoid predictable timing patterns
-const sleep = (ms: number) => {
-  const jitter = ms * 0.05;
-  const actual = ms + (Math.random() * 2 - 1) * jitter;
-  return new Promise<void>((resolve) => setTimeout(resolve, actual));
-};
-
-const SCRAPER_START_HOUR = 8;
-const SCRAPER_START_MINUTE = 30;
-const SCRAPER_END_HOUR = 17;
-const SCRAPER_END_MINUTE = 30;
-const SCRAPER_TIMEZONE = 'America/New_York';
-
-// Returns ms until the next weekday 8:30 AM ET if currently outside active hours, otherwise 0.
-const msUntilActiveHours = (): number => {
-  const now = new Date();
-  const parts = new Intl.DateTimeFormat('en-US', {
-    timeZone: SCRAPER_TIMEZONE,
-    weekday: 'short', hour: 'numeric', minute: 'numeric', hour12: false,
-  }).formatToParts(now);
-
-  const weekday = parts.find(p => p.type === 'weekday')!.value; // Mon, Tue, ... Sun
-  const hour = parseInt(parts.find(p => p.type === 'hour')!.value, 10);
-  const minute = parseInt(parts.find(p => p.type === 'minute')!.value, 10);
-  const totalMinutes = hour * 60 + minute;
-
-  const startMinutes = SCRAPER_START_HOUR * 60 + SCRAPER_START_MINUTE;
-  const endMinutes = SCRAPER_END_HOUR * 60 + SCRAPER_END_MINUTE;
-
-  const isWeekend = weekday === 'Sat' || weekday === 'Sun';
-  const isWithinHours = totalMinutes >= startMinutes && totalMinutes < endMinutes;
-
-  if (!isWeekend && isWithinHours) return 0;
-
-  let daysUntilMonday = 0;
-  if (weekday === 'Sat') daysUntilMonday = 2;
-  else if (weekday === 'Sun') daysUntilMonday = 1;
-
-  let minutesUntilStart: number;
-  if (daysUntilMonday > 0) {
-    minutesUntilStart = daysUntilMonday * 24 * 60 - totalMinutes + startMinutes;
-  } else {
-    minutesUntilStart = totalMinutes < startMinutes
-      ? startMinutes - totalMinutes
-      : 24 * 60 - totalMinutes + startMinutes;
-  }
-
-  return minutesUntilStart * 60 * 1000;
-};
+/** Re-check cadence when no enforcement window opens within the schedule lookahead. */
+const NO_SCHEDULE_RECHECK_MS = 24 * 60 * 60 * 1000;
 
-const waitForActiveHours = async (): Promise<void> => {
-  const ms = msUntilActiveHours();
-  if (ms === 0) return;
+/**
+ * Sleeps until the jurisdiction's enforcement schedule next opens (or until an admin action
+ * wakes the loop). Returns false if enforcement is active now.
+ */
+const waitForActiveHours = async (jurisdiction: Jurisdiction): Promise<boolean> => {
+  const untilNext = await msUntilEnforcement(jurisdiction);
+  if (untilNext === 0) return false;
+  const ms = untilNext ?? NO_SCHEDULE_RECHECK_MS;
 
-  const resumeAt = new Date(Date.now() + ms).toLocaleTimeString('en-US', {
-    timeZone: SCRAPER_TIMEZONE, hour: '2-digit', minute: '2-digit',
+  const resumeAt = new Date(Date.now() + ms).toLocaleString('en-US', {
+    timeZone: jurisdiction.timeZone, weekday: 'short', hour: '2-digit', minute: '2-digit', timeZoneName: 'short',
   });
-  console.log(`😴 Outside active hours — sleeping until ${resumeAt} ET (${Math.round(ms / 60000)}m)`);
-  await updateScraperState({ status: 'sleeping' });
-  await sleep(ms);
-  console.log('⏰ Resuming scraper...');
+  console.log(
+    untilNext === null
+      ? `😴 [${jurisdiction.id}] No enforcement scheduled soon — re-checking ${resumeAt}`
+      : `😴 [${jurisdiction.id}] Outside enforcement hours — sleeping until ${resumeAt} (${Math.round(ms / 60000)}m)`,
+  );
+  await updateScraperState(jurisdiction.id, { status: 'sleeping' });
+  const woken = await interruptibleSleep(jurisdiction.id, ms);
+  console.log(woken ? `⏰ [${jurisdiction.id}] Woken by admin action` : `⏰ [${jurisdiction.id}] Resuming scraper...`);
+  return true;
 };
 
-const updateScraperState = async (params: {
+const updateScraperState = async (jurisdictionId: string, params: {
   lastCheckedId?: string;
   status?: string;
 }) => {
   await prisma.scraperState.update({
-    where: { id: 1 },
+    where: { jurisdictionId },
     data: {
       ...(params.lastCheckedId ? { lastCheckedId: params.lastCheckedId } : {}),
       ...(params.status ? { status: params.status } : {}),
@@ -118,320 +105,137 @@ const updateScraperState = async (params: {
   });
 };
 
-const submitTicketSearch = async (page: Page, ticketId: string) => {
-  await sleep(1000);
-  const inputSelector = '#ticket-number-search';
-
-  if (await page.isVisible('button[aria-label="Back"]')) {
-    await page.click('button[aria-label="Back"]');
-  }
-
-  await page.waitForSelector(inputSelector, {
-    timeout: 5000,
-    state: 'visible'
-  });
-
-  await page.click(inputSelector);
-  await page.fill(inputSelector, '');
-  await page.type(inputSelector, ticketId, { delay: 50 });
-  await sleep(500);
-
-  const searchButtonSelector =
-    'button[type="submit"], button:has-text("Search"), button:has-text("Lookup")';
-
-  await page.click(searchButtonSelector);
-
-  await page.waitForSelector('div.loading-spinner-text', { state: 'hidden' });
+// ===========================================================================
+// Lane-aware scheduling
+// ===========================================================================
 
-  console.log('⏳ Waiting for search results...');
-  try {
-    await Promise.race([
-      page.waitForSelector('#ticket-search-captcha', { timeout: 10000 }).then(() => {
-        console.log('🔍 CAPTCHA element appeared');
-      }),
-      page.waitForSelector('div#ticket-search-messages > div.alert', { timeout: 10000 }).then(() => {
-        console.log('🔍 Search messages alert appeared');
-      }),
-      page.waitForSelector(`div#ticket-results > div.result-container`, { timeout: 10000 }).then(() => {
-        console.log('🔍 Ticket card appeared');
-      }),
-    ]);
-    console.log('✅ Search results loaded');
-  } catch (error) {
-    console.log('⚠️  Timeout waiting for results, continuing anyway...');
-  }
+type ProbeContext = { jurisdictionId: string; kind: ProbeKind; laneBlockStartId: string | null };
 
-  await sleep(500);
+type ProbedSearch = {
+  response: TicketSearchResponse;
+  /** `ScraperProbe` row id; null if the telemetry write failed. */
+  probeRowId: number | null;
 };
 
-
-// Parses a timestamp string in Eastern time (e.g. "12/15/2025 10:38 AM") and
-// returns a UTC Date. Uses Intl to detect the correct ET offset (EST -5 / EDT -4)
-// so DST transitions are handled automatically.
-const parseEasternTimestamp = (text: string): Date => {
-  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})\s+(AM|PM)$/i.exec(text.trim());
-  if (!match) return new Date(text);
-
-  const [, mo, da, yr, hr, mi, ampm] = match;
-  let h = parseInt(hr, 10);
-  if (ampm.toUpperCase() === 'PM' && h !== 12) h += 12;
-  else if (ampm.toUpperCase() === 'AM' && h === 12) h = 0;
-
-  const probe = new Date(Date.UTC(+yr, +mo - 1, +da, h, +mi));
-  const offsetStr =
-    new Intl.DateTimeFormat('en-US', {
-      timeZone: 'America/New_York',
-      timeZoneName: 'shortOffset',
-    })
-      .formatToParts(probe)
-      .find((p) => p.type === 'timeZoneName')?.value ?? 'GMT-5';
-
-  const offsetHours = parseInt(offsetStr.replace('GMT', ''), 10);
-  const pad = (n: number) => String(n).padStart(2, '0');
-  const sign = offsetHours >= 0 ? '+' : '-';
-  const iso = `${yr}-${pad(+mo)}-${pad(+da)}T${pad(h)}:${pad(+mi)}:00${sign}${pad(Math.abs(offsetHours))}:00`;
-  return new Date(iso);
+/** Logs a probe to `ScraperProbe` and the `/metrics` counters. */
+const recordProbeOutcome = (ticketId: string, record: Omit<ProbeRecord, 'ticketId'>) => {
+  scraperProbesTotal.inc({ kind: record.kind, outcome: record.outcome });
+  scraperCaptchaAttemptsTotal.inc({}, record.captchaAttempts);
+  scraperCaptchaSolvesTotal.inc({}, record.captchaSolves);
+  return recordProbe({ ticketId, ...record });
 };
 
-const getTicketDetails = async (ticketId: string, page: Page): Promise<Ticket | null> => {
-  const card = await page.$(`div.card.ticket-card[data-citationnumber='${ticketId}']`);
-  if (!card) return null;
-
-  const cardHeader = await card.$('div.card-header button');
-  console.log("card header is there?", cardHeader != null ? "yes" : "no");
-  if (!cardHeader) return null;
-
-  const timestamp = await cardHeader.$('span:nth-child(3)')
-  const timestampText = await timestamp?.textContent();
-  const timestampDate = parseEasternTimestamp(timestampText ?? '');
-
-  const ticketCardInfo = await card.$('div.ticket-card-info')
-
-  const licensePlate = await ticketCardInfo?.$('span#LicenseNoState')
-  const licensePlateText = (await licensePlate?.textContent())?.trim();
-
-  const licensePlateState = await ticketCardInfo?.$('span#LicenseState')
-  const licensePlateStateText = (await licensePlateState?.textContent())?.trim();
-
-  const evidenceImage = await card.$('div.carousel-inner > div:first-child > img');
-  const evidenceUrl = await evidenceImage?.getAttribute('src');
-  const ocrResult = await extractGpsFromImageUrl(evidenceUrl ?? null);
-
-  const streetLocation = await card.$('span#ViolationLocation')
-  const streetLocationText = await streetLocation?.textContent();
-
-  const lat = ocrResult?.lat;
-  const lng = ocrResult?.lng;
-
-  return {
-    ticketId,
-    licensePlateNumber: licensePlateText ?? null,
-    licensePlateState: licensePlateStateText ?? null,
-    timestamp: timestampDate,
-    lat: lat ?? null,
-    lng: lng ?? null,
-    streetLocation: streetLocationText ?? null,
-  };
-}
-
-export const getTicketSearchResponse = async (ticketId: string, page: Page): Promise<TicketSearchResponse> => {
-  const textContent = await page.textContent('body');
-
-  if (!textContent) {
-    console.log('🔍 No text content');
-    return {
-      result: TicketSearchResult.NO_RESULTS,
-      ticket: null,
-    };
-  }
-
-  if (await page.isVisible("#ticket-search-captcha")) {
-    console.log('CAPTCHA');
-    return {
-      result: TicketSearchResult.CAPTCHA,
-      ticket: null,
-    };
-  }
-
-  if (textContent.includes(TicketMessage.FAILED_CHALLENGE)) {
-    console.log('FAILED_CHALLENGE');
-    return {
-      result: TicketSearchResult.FAILED_CHALLENGE,
-      ticket: null,
-    };
-  }
-
-  if (textContent.includes(TicketMessage.REMITTANCE) || textContent.includes(TicketMessage.CLOSED)) {
-    console.log('CLOSED');
-    return {
-      result: TicketSearchResult.CLOSED,
-      ticket: null,
-    };
-  }
-
-  if (textContent.includes(TicketMessage.NO_RESULTS)) {
-    console.log('NO_RESULTS');
-    return {
-      result: TicketSearchResult.NO_RESULTS,
-      ticket: null,
-    };
-  }
-
-  const ticket = await getTicketDetails(ticketId, page);
-  if (!ticket) return {
-    result: TicketSearchResult.NO_RESULTS,
-    ticket: null,
-  };
-
-  return {
-    result: TicketSearchResult.ACCESSIBLE,
-    ticket,
-  };
-};
-
-// Solves the CAPTCHA and calls window.validateCaptcha(token).
-// After validation, results appear automatically — no need to re-submit the search.
-const solveCaptcha = async (page: Page): Promise<boolean> => {
+/** `portal.search` with the outcome, latency and CAPTCHA usage logged to `ScraperProbe`. */
+const probe = async (
+  portal: TicketPortal,
+  ticketId: string,
+  context: ProbeContext,
+): Promise<ProbedSearch> => {
+  const startedAt = Date.now();
   try {
-    console.log('🔐 Solving CAPTCHA...');
-
-    const recaptchaEl = await page.$('div.g-recaptcha');
-    const googleKey = await recaptchaEl?.getAttribute('data-sitekey');
-    const captchaAction = await recaptchaEl?.getAttribute('data-action');
-
-    if (!googleKey || !captchaAction) {
-      console.log('⚠️  CAPTCHA metadata not found');
-      return false;
-    }
-
-    const solution = await solver.recaptcha({
-      googlekey: googleKey,
-      pageurl: page.url(),
-      action: captchaAction,
-      userAgent: SCRAPER_USER_AGENT,
-      invisible: 0,
-      version: 'v2',
-      enterprise: 1,
+    // A status re-check only reads the card's status, so the evidence photo isn't OCR'd.
+    const response = await portal.search(ticketId, { skipOcr: context.kind === 'status_check' });
+    const probeRowId = await recordProbeOutcome(ticketId, {
+      ...context,
+      outcome: response.result,
+      latencyMs: Date.now() - startedAt,
+      captchaAttempts: response.captchaAttempts ?? 0,
+      captchaSolves: response.captchaSolves ?? 0,
     });
-
-    if (!solution) {
-      console.log('⚠️  No solution returned from solver');
-      return false;
-    }
-
-    console.log('✅ CAPTCHA solved, submitting token...');
-
-    await page.evaluate((token) => {
-      if (typeof (window as any).validateCaptcha === 'function') {
-        (window as any).validateCaptcha(token);
-      }
-    }, solution.data);
-
-    try {
-      await Promise.race([
-        page.waitForSelector('div#ticket-search-messages > div.alert', { timeout: 10000 }),
-        page.waitForSelector('div#ticket-results > div.result-container', { timeout: 10000 }),
-      ]);
-      console.log('✅ Results loaded after CAPTCHA solve');
-    } catch {
-      console.log('⚠️  Timed out waiting for results after CAPTCHA solve');
-    }
-
-    return true;
-  } catch (error) {
-    console.error('❌ Error solving CAPTCHA:', error);
-    return false;
+    return { response, probeRowId };
+  } catch (err) {
+    const exhausted = err instanceof CaptchaExhaustedError;
+    await recordProbeOutcome(ticketId, {
+      ...context,
+      outcome: exhausted ? 'captcha_exhausted' : 'error',
+      latencyMs: Date.now() - startedAt,
+      captchaAttempts: exhausted ? MAX_CAPTCHA_ATTEMPTS : 0,
+      captchaSolves: exhausted ? err.captchaSolves : 0,
+    });
+    throw err;
   }
 };
 
-class CaptchaExhaustedError extends Error {
-  constructor() {
-    super('CAPTCHA could not be solved after max attempts');
-    this.name = 'CaptchaExhaustedError';
-  }
-}
-
-export const searchForTicket = async (page: Page, ticketId: string): Promise<TicketSearchResponse> => {
-  console.log(`🔍 Searching for ticket: ${ticketId}`);
-  await submitTicketSearch(page, ticketId);
-  let searchResponse = await getTicketSearchResponse(ticketId, page);
-
-  const maxAttempts = 5;
-  let attempts = 0;
-
-  while (attempts < maxAttempts) {
-    if (searchResponse.result === TicketSearchResult.CAPTCHA) {
-      attempts++;
-      console.log(`🤖 CAPTCHA detected (attempt ${attempts}/${maxAttempts}), solving...`);
-      await solveCaptcha(page);
-      searchResponse = await getTicketSearchResponse(ticketId, page);
-    } else if (searchResponse.result === TicketSearchResult.FAILED_CHALLENGE) {
-      attempts++;
-      console.log(`🚫 Failed challenge (attempt ${attempts}/${maxAttempts}), reloading and retrying...`);
-      await page.reload({ waitUntil: 'domcontentloaded', timeout: 5000 });
-      await submitTicketSearch(page, ticketId);
-      searchResponse = await getTicketSearchResponse(ticketId, page);
-    } else {
-      break;
-    }
-  }
-
-  if (attempts >= maxAttempts) {
-    throw new CaptchaExhaustedError();
+/**
+ * Geocode / street-centroid fallback for a ticket saved without an OCR pin, run after the
+ * ticket is out. Publishes the placed row and resolves to it (the saved row if the lookup failed).
+ */
+const placeSavedTicket = async (ticket: Ticket): Promise<Ticket> => {
+  try {
+    const placed = await placeTicket(ticket.ticketId, ticket);
+    ticketLocationSourcesTotal.inc({ source: placed.locationSource ?? 'none' });
+    if (placed.locationSource !== null) publishTicketLocated(placed);
+    return placed;
+  } catch (err) {
+    console.error(`❌ Locating ${ticket.ticketId} failed:`, err);
+    return ticket;
   }
-
-  return searchResponse;
-};
-
-const createPage = async (): Promise<{ browser: Awaited<ReturnType<typeof chromium.launch>>, page: Page }> => {
-  console.log('🚀 Launching browser...');
-  const browser = await chromium.launch({ headless: false });
-  const context = await browser.newContext({
-    userAgent: SCRAPER_USER_AGENT,
-    viewport: { width: 1280, height: 720 },
-    deviceScaleFactor: 1,
-    hasTouch: false,
-    isMobile: false,
-    locale: 'en-US',
-    timezoneId: 'America/New_York',
-  });
-  const page = await context.newPage();
-
-  console.log('🌐 Navigating to ticket portal...');
-  await page.goto(TICKET_PORTAL_URL, { waitUntil: 'domcontentloaded', timeout: 5000 });
-  await sleep(3000);
-  console.log('✅ Browser ready');
-
-  return { browser, page };
 };
 
-// ===========================================================================
-// Lane-aware scheduling
-// ===========================================================================
-
 /**
- * Persists a found ticket (if new), emits notifications, kicks off side-effects.
- * Returns the DB row (existing or created).
+ * Persists a found ticket (if new), publishes it to the live stream, emits
+ * notifications, kicks off side-effects (coordinate fallback, geometry fetch, evidence
+ * photo archive), and stamps the probe that found it with the detect lag (saved time −
+ * portal issue time). Returns the DB row (existing or created).
  */
-const saveFoundTicket = async (foundTicket: Ticket): Promise<Ticket> => {
+const saveFoundTicket = async (
+  foundTicket: Ticket,
+  probeRowId: number | null,
+  evidenceUrls: string[] = [],
+): Promise<Ticket> => {
   const existing = await prisma.ticket.findUnique({ where: { ticketId: foundTicket.ticketId } });
   let ticket: Ticket;
+  /** The row once the coordinate fallback has run; null when it doesn't need to. */
+  let placed: Promise<Ticket> | null = null;
+  if (existing && existing.jurisdictionId !== foundTicket.jurisdictionId) {
+    // Ticket IDs are the primary key, so jurisdictions' ID formats must not overlap.
+    console.warn(
+      `⚠️  Ticket ${foundTicket.ticketId} from ${foundTicket.jurisdictionId} collides with ` +
+      `an existing ${existing.jurisdictionId} ticket — keeping the existing row`,
+    );
+    return existing;
+  }
   if (existing) {
     console.log(`ℹ️  Ticket ${foundTicket.ticketId} already exists, skipping creation`);
     ticket = existing;
   } else {
     console.log('💾 Saving to database...');
-    ticket = await prisma.ticket.create({ data: foundTicket });
+    // Street and block come from the local street table; only the OCR pin is used before the
+    // save, since the geocode fallback can wait on LocationIQ for seconds.
+    const location = await resolveTicketLocation(foundTicket.jurisdictionId, foundTicket.rawLocation);
+    const ocr = ocrCoordinates(foundTicket);
+    if (ocr) ticketLocationSourcesTotal.inc({ source: 'ocr' });
+    ticket = await prisma.ticket.create({
+      data: { ...foundTicket, ...location, ...ocr, ...initialStatusTracking(foundTicket) },
+    });
     console.log(`✅ Saved ticket: ${ticket.ticketId}`);
+    publishNewTicket(ticket);
+    if (probeRowId !== null) {
+      await recordDetectLag(probeRowId, ticket.createdAt.getTime() - ticket.timestamp.getTime());
+    }
+    void archiveEvidencePhotos(ticket.ticketId, evidenceUrls).catch((err) =>
+      console.error(`❌ Evidence archive failed for ${ticket.ticketId}:`, err),
+    );
+    if (!ocr) placed = placeSavedTicket(ticket);
   }
 
-  if (foundTicket.streetLocation) {
-    void ensureStreetGeometryStored(foundTicket.streetLocation);
+  const settled = placed ?? Promise.resolve(ticket);
+  if (ticket.streetLocation) {
+    // After the fallback, which fetches a new street's geometry itself.
+    void settled
+      .then(() => ensureStreetGeometryStored(ticket.jurisdictionId, ticket.streetLocation))
+      .catch((err) => console.error(`❌ Street geometry fetch failed for ${ticket.streetLocation}:`, err));
   }
 
   const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
   if (ticket.timestamp >= tenMinutesAgo) {
-    void emitNewTicket(ticket);
+    void emitNewTicket(ticket).catch((err) =>
+      console.error(`❌ Ticket alerts failed for ${ticket.ticketId}:`, err),
+    );
+    // Early warnings work from the officer's positions, so they wait for this ticket's pin.
+    void settled
+      .then((located) => emitApproachingEnforcement(located))
+      .catch((err) => console.error(`❌ Approach warnings failed for ${ticket.ticketId}:`, err));
   } else {
     console.log(`⏱️  Ticket is older than 10 minutes, skipping notification`);
   }
@@ -443,18 +247,25 @@ const saveFoundTicket = async (foundTicket: Ticket): Promise<Ticket> => {
  * Poll a single lane once. Performs the primary search, neighbor probes if
  * the primary missed, and updates the lane state accordingly.
  */
-const pollLane = async (lane: LaneState, page: Page): Promise<void> => {
+export const pollLane = async (lane: LaneState, portal: TicketPortal): Promise<void> => {
   const primaryId = lane.nextCursorId;
+  const laneRevision = currentLaneRevision(lane.jurisdictionId);
   console.log(
     `\n🔍 [block ${lane.blockStartId}] checking ${primaryId} ` +
     `(miss=${lane.missStreak}, cadenceLvl=${lane.cadenceLevel}, tail=${isAtTail(lane)})`,
   );
-  await updateScraperState({
+  await updateScraperState(lane.jurisdictionId, {
     status: `checking ${primaryId}`,
     lastCheckedId: primaryId,
   });
 
-  let searchResponse = await searchForTicket(page, primaryId);
+  scraperPollsTotal.inc();
+  const pollContext: ProbeContext = {
+    jurisdictionId: lane.jurisdictionId,
+    kind: 'poll',
+    laneBlockStartId: lane.blockStartId,
+  };
+  let { response: searchResponse, probeRowId } = await probe(portal, primaryId, pollContext);
   let resolvedId = primaryId;
 
   // Neighbor probe within the block (not across blocks!) to absorb transient
@@ -468,9 +279,10 @@ const pollLane = async (lane: LaneState, page: Page): Promise<void> => {
       if (probeNumeric > blockEndNum) break; // do not bleed across blocks
       const probeId = formatLike(lane.blockStartId, probeNumeric);
       console.log(`🔁 NO_RESULTS for ${primaryId} — probing neighbor ${probeId} (${step}/2)`);
-      const alt = await searchForTicket(page, probeId);
-      if (alt.result !== TicketSearchResult.NO_RESULTS) {
-        searchResponse = alt;
+      const alt = await probe(portal, probeId, { ...pollContext, kind: 'neighbor' });
+      if (alt.response.result !== TicketSearchResult.NO_RESULTS) {
+        searchResponse = alt.response;
+        probeRowId = alt.probeRowId;
         resolvedId = probeId;
         break;
       }
@@ -484,10 +296,12 @@ const pollLane = async (lane: LaneState, page: Page): Promise<void> => {
       const foundTicket = searchResponse.ticket;
       if (!foundTicket) {
         // Shouldn't happen, but treat as miss.
+        scraperMissesTotal.inc();
         applyMiss(lane, now);
         break;
       }
-      await saveFoundTicket(foundTicket);
+      scraperHitsTotal.inc();
+      await saveFoundTicket(foundTicket, probeRowId, searchResponse.evidenceUrls);
       const { blockComplete } = applyHit(lane, foundTicket.ticketId, now);
       if (blockComplete) {
         console.log(`🏁 Block ${lane.blockStartId} completed at ${foundTicket.ticketId}`);
@@ -505,6 +319,7 @@ const pollLane = async (lane: LaneState, page: Page): Promise<void> => {
     }
 
     case TicketSearchResult.NO_RESULTS: {
+      scraperMissesTotal.inc();
       const decay = applyMiss(lane, now);
       if (decay.retired) {
         console.log(`🪦 Retiring lane ${lane.blockStartId} (reason=${decay.reason})`);
@@ -520,51 +335,67 @@ const pollLane = async (lane: LaneState, page: Page): Promise<void> => {
     default: {
       // CAPTCHA / FAILED_CHALLENGE are handled inside searchForTicket; any
       // other unexpected state: treat as a soft miss.
+      scraperMissesTotal.inc();
       applyMiss(lane, now);
       break;
     }
   }
 
-  await persistLane(lane);
-  await updateScraperState({ status: 'ok' });
+  // An admin edited lanes mid-poll: their DB write wins, this lane is re-polled after reload.
+  // (The ticket, if any, is already saved; re-finding it is a no-op.)
+  if (currentLaneRevision(lane.jurisdictionId) !== laneRevision) {
+    console.log(`✋ Lanes changed by admin during poll of ${lane.blockStartId} — discarding result`);
+  } else {
+    await persistLane(lane);
+  }
+  await updateScraperState(lane.jurisdictionId, { status: 'ok' });
 };
 
 /**
  * Sweep candidate blocks for new lanes. Probes the first few IDs of each
  * candidate; the first block to yield a non-empty result becomes a new lane.
  */
-const runDiscovery = async (
+export const runDiscovery = async (
+  jurisdictionId: string,
   lanes: Map<string, LaneState>,
-  page: Page,
+  portal: TicketPortal,
 ): Promise<void> => {
   const candidates = discoveryCandidates(lanes);
   if (candidates.length === 0) {
-    console.log('🧭 Discovery: no candidates.');
-    await setLastDiscoveryAt(new Date());
+    console.log(`🧭 [${jurisdictionId}] Discovery: no candidates.`);
+    await setLastDiscoveryAt(jurisdictionId, new Date());
     return;
   }
 
   console.log(
-    `🧭 Discovery sweep: frontier=${frontierBlockStartId(lanes)}, ` +
+    `🧭 [${jurisdictionId}] Discovery sweep: frontier=${frontierBlockStartId(lanes)}, ` +
     `candidates=[${candidates.join(', ')}]`,
   );
-  await updateScraperState({ status: 'discovering' });
+  await updateScraperState(jurisdictionId, { status: 'discovering' });
 
   for (const candidateBlockStartId of candidates) {
     const probeIds = probeIdsForBlock(candidateBlockStartId);
 
     let firstHitId: string | null = null;
     let firstHitTicket: Ticket | null = null;
+    let firstHitEvidenceUrls: string[] | undefined;
+    let firstHitProbeRowId: number | null = null;
 
     for (const probeId of probeIds) {
       console.log(`🧪 Probe ${probeId} (candidate block ${candidateBlockStartId})`);
-      await updateScraperState({ status: `probing ${probeId}`, lastCheckedId: probeId });
+      await updateScraperState(jurisdictionId, { status: `probing ${probeId}`, lastCheckedId: probeId });
 
-      const resp = await searchForTicket(page, probeId);
+      const { response: resp, probeRowId } = await probe(portal, probeId, {
+        jurisdictionId,
+        kind: 'discovery',
+        laneBlockStartId: candidateBlockStartId,
+      });
 
       if (resp.result === TicketSearchResult.ACCESSIBLE && resp.ticket) {
         firstHitId = probeId;
         firstHitTicket = resp.ticket;
+        firstHitEvidenceUrls = resp.evidenceUrls;
+        firstHitProbeRowId = probeRowId;
         break;
       }
       if (resp.result === TicketSearchResult.CLOSED) {
@@ -580,9 +411,9 @@ const runDiscovery = async (
       const hitNumeric = parseTicketIdOrThrow(firstHitId).numeric;
       const nextCursorId = formatLike(candidateBlockStartId, hitNumeric + 1);
 
-      const lane = createLane(candidateBlockStartId, nextCursorId);
+      const lane = createLane(jurisdictionId, candidateBlockStartId, nextCursorId);
       if (firstHitTicket) {
-        await saveFoundTicket(firstHitTicket);
+        await saveFoundTicket(firstHitTicket, firstHitProbeRowId, firstHitEvidenceUrls);
         lane.lastFoundId = firstHitTicket.ticketId;
         lane.lastFoundAt = new Date();
       }
@@ -600,15 +431,62 @@ const runDiscovery = async (
     console.log(`💤 No activity in candidate block ${candidateBlockStartId}`);
   }
 
-  await setLastDiscoveryAt(new Date());
+  await setLastDiscoveryAt(jurisdictionId, new Date());
+};
+
+// ===========================================================================
+// Status re-checks
+// ===========================================================================
+
+/** Only re-check when the next lane poll is at least this far off, so lanes never wait. */
+const STATUS_CHECK_MIN_IDLE_MS = 15_000;
+
+/** Minimum gap between re-checks (each may cost a CAPTCHA solve); env `TICKET_STATUS_CHECK_MIN_GAP_MS`. */
+const STATUS_CHECK_MIN_GAP_MS = (() => {
+  const raw = parseInt(process.env.TICKET_STATUS_CHECK_MIN_GAP_MS ?? '60000', 10);
+  return Number.isFinite(raw) && raw >= 0 ? raw : 60_000;
+})();
+
+const lastStatusCheckAt = new Map<string, number>();
+
+/**
+ * Low-priority work for an idle gap between lane polls: searches the portal for the most
+ * overdue stored ticket and records any status transition. Returns false when nothing ran
+ * (nothing due, or the last re-check was too recent).
+ */
+const runStatusCheck = async (jurisdictionId: string, portal: TicketPortal): Promise<boolean> => {
+  if (Date.now() - (lastStatusCheckAt.get(jurisdictionId) ?? 0) < STATUS_CHECK_MIN_GAP_MS) return false;
+  const due = await nextDueStatusCheck(jurisdictionId);
+  if (!due) return false;
+
+  lastStatusCheckAt.set(jurisdictionId, Date.now());
+  await updateScraperState(jurisdictionId, { status: `rechecking ${due.ticketId}` });
+  await portal.refresh();
+  const { response } = await probe(portal, due.ticketId, {
+    jurisdictionId,
+    kind: 'status_check',
+    laneBlockStartId: null,
+  });
+  const outcome = await applyStatusCheck(due, response);
+  ticketStatusChecksTotal.inc({ status: outcome.changed ? (outcome.status ?? 'unknown') : 'unchanged' });
+  if (outcome.changed) {
+    console.log(`🧾 [${jurisdictionId}] Ticket ${due.ticketId}: ${due.paymentStatus ?? '—'} → ${outcome.status}`);
+  }
+  return true;
 };
 
-export const startTicketWatcher = async (): Promise<void> => {
-  await bootstrapLanes();
-  const lanes = await loadLanes();
-  console.log(`🎯 Loaded ${lanes.size} lane(s): ${[...lanes.keys()].join(', ')}`);
+/** Runs the watcher loop for one jurisdiction; never returns. */
+export const startTicketWatcher = async (
+  jurisdiction: Jurisdiction,
+  portal: TicketPortal = createTicketPortal(jurisdiction),
+): Promise<void> => {
+  const jurisdictionId = jurisdiction.id;
+  await bootstrapLanes(jurisdiction);
+  const lanes = await loadLanes(jurisdictionId);
+  console.log(`🎯 [${jurisdictionId}] Loaded ${lanes.size} lane(s): ${[...lanes.keys()].join(', ')}`);
+  await markScraperStarted(jurisdictionId);
 
-  let { browser, page } = await createPage();
+  await portal.open();
 
   // Prevent a restart-flood: clamp any lane whose nextDueAt is far in the past
   // so we don't fire every lane simultaneously right after boot.
@@ -621,23 +499,44 @@ export const startTicketWatcher = async (): Promise<void> => {
 
   while (true) {
     try {
-      await waitForActiveHours();
+      if (consumeLaneReload(jurisdictionId)) {
+        const reloaded = await loadLanes(jurisdictionId);
+        lanes.clear();
+        for (const [id, lane] of reloaded) lanes.set(id, lane);
+        console.log(`🔃 [${jurisdictionId}] Reloaded ${lanes.size} lane(s) after admin change`);
+      }
+
+      if (isScraperPaused(jurisdictionId)) {
+        await updateScraperState(jurisdictionId, { status: 'paused' });
+        console.log(`⏸️  [${jurisdictionId}] Scraper paused — waiting for resume`);
+        await interruptibleSleep(jurisdictionId, 10 * 60_000);
+        continue;
+      }
+
+      if (consumeDiscoveryRequest(jurisdictionId)) {
+        console.log(`🧭 [${jurisdictionId}] Admin requested an immediate discovery sweep`);
+        await portal.refresh();
+        await runDiscovery(jurisdictionId, lanes, portal);
+        continue;
+      }
+
+      if (await waitForActiveHours(jurisdiction)) continue;
 
       // Periodic discovery sweep
-      const lastDiscoveryAt = await getLastDiscoveryAt();
+      const lastDiscoveryAt = await getLastDiscoveryAt(jurisdictionId);
       if (shouldRunDiscovery(lastDiscoveryAt)) {
-        await page.reload({ waitUntil: 'domcontentloaded', timeout: 5000 }).catch(() => {});
-        await runDiscovery(lanes, page);
+        await portal.refresh();
+        await runDiscovery(jurisdictionId, lanes, portal);
       }
 
       const lane = pickNextLane(lanes);
       if (!lane) {
-        console.log('⚠️  No active lanes — running discovery and waiting...');
-        await page.reload({ waitUntil: 'domcontentloaded', timeout: 5000 }).catch(() => {});
-        await runDiscovery(lanes, page);
+        console.log(`⚠️  [${jurisdictionId}] No active lanes — running discovery and waiting...`);
+        await portal.refresh();
+        await runDiscovery(jurisdictionId, lanes, portal);
         // If still nothing, sleep until the next discovery interval.
         if (pickNextLane(lanes) == null) {
-          await sleep(Math.min(60_000, Math.max(10_000, 30_000)));
+          await interruptibleSleep(jurisdictionId, Math.min(60_000, Math.max(10_000, 30_000)));
           continue;
         }
         continue;
@@ -645,30 +544,32 @@ export const startTicketWatcher = async (): Promise<void> => {
 
       const waitMs = msUntilDue(lane);
       if (waitMs > 0) {
+        if (waitMs >= STATUS_CHECK_MIN_IDLE_MS && (await runStatusCheck(jurisdictionId, portal))) {
+          continue;
+        }
         // Sleep in chunks so we can re-check active hours & discovery regularly.
         const chunk = Math.min(waitMs, 30_000);
-        await sleep(chunk);
+        await interruptibleSleep(jurisdictionId, chunk);
         continue;
       }
 
-      await page.reload({ waitUntil: 'domcontentloaded', timeout: 5000 }).catch(() => {});
-      await pollLane(lane, page);
+      await portal.refresh();
+      await pollLane(lane, portal);
 
       // Small inter-poll buffer — politeness.
       await sleep(2000);
     } catch (err) {
       if (err instanceof CaptchaExhaustedError) {
-        console.warn('🔄 CAPTCHA exhausted — waiting 1 minute then restarting browser...');
-        await updateScraperState({ status: 'captcha_backoff' });
+        console.warn(`🔄 CAPTCHA exhausted — waiting 1 minute then restarting ${portal.name} portal...`);
+        await updateScraperState(jurisdictionId, { status: 'captcha_backoff' });
         await sleep(60_000);
 
-        console.log('🔒 Closing old browser...');
-        await browser.close().catch(() => {});
-
-        ({ browser, page } = await createPage());
+        scraperBrowserRestartsTotal.inc();
+        await portal.close();
+        await portal.open();
       } else {
-        console.error('Error in ticket watcher loop:', err);
-        await updateScraperState({ status: 'error' });
+        console.error(`[${jurisdictionId}] Error in ticket watcher loop:`, err);
+        await updateScraperState(jurisdictionId, { status: 'error' });
         await sleep(5000);
       }
     }
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseICalEvents } from '../src/utils/ical.js';
+
+const calendar = (...events: string[][]) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+describe('parseICalEvents', () => {
+  it('reads an all-day event with an exclusive DTEND', () => {
+    const [event] = parseICalEvents(
+      calendar([
+        'UID:thanksgiving-2026@ithaca',
+        'DTSTART;VALUE=DATE:20261126',
+        'DTEND;VALUE=DATE:20261128',
+        'SUMMARY:Thanksgiving',
+      ]),
+    );
+    assert.deepEqual(event, {
+      uid: 'thanksgiving-2026@ithaca',
+      summary: 'Thanksgiving',
+      startDate: '2026-11-26',
+      endDate: '2026-11-28',
+      recurring: false,
+    });
+  });
+
+  it('defaults a missing or non-increasing DTEND to one day', () => {
+    const events = parseICalEvents(
+      calendar(
+        ['DTSTART;VALUE=DATE:20260704', 'SUMMARY:Independence Day'],
+        [
+          'DTSTART;VALUE=DATE:20260907',
+          'DTEND;VALUE=DATE:20260907',
+          'SUMMARY:Labor Day',
+        ],
+      ),
+    );
+    assert.deepEqual(
+      events.map((e) => [e.startDate, e.endDate]),
+      [
+        ['2026-07-04', '2026-07-05'],
+        ['2026-09-07', '2026-09-08'],
+      ],
+    );
+  });
+
+  it('keeps the end date of a timed event', () => {
+    const [event] = parseICalEvents(
+      calendar([
+        'DTSTART:20261224T170000Z',
+        'DTEND:20261225T020000Z',
+        'SUMMARY:Winter break',
+      ]),
+    );
+    assert.equal(event?.startDate, '2026-12-24');
+    assert.equal(event?.endDate, '2026-12-26');
+    assert.equal(event?.uid, null);
+  });
+
+  it('unfolds continuation lines and unescapes text', () => {
+    const [event] = parseICalEvents(
+      calendar([
+        'DTSTART;VALUE=DATE:20260119',
+        'SUMMARY:Martin Luther King\\, Jr.',
+        '  Day',
+      ]),
+    );
+    assert.equal(event?.summary, 'Martin Luther King, Jr. Day');
+  });
+
+  it('flags recurring events and drops events without a usable DTSTART', () => {
+    const events = parseICalEvents(
+      calendar(
+        [
+          'DTSTART;VALUE=DATE:20260101',
+          'RRULE:FREQ=YEARLY',
+          'SUMMARY:New Year',
+        ],
+        ['DTSTART:not-a-date', 'SUMMARY:Broken'],
+        ['SUMMARY:No start'],
+      ),
+    );
+    assert.equal(events.length, 1);
+    assert.equal(events[0]?.recurring, true);
+  });
+
+  it('ignores properties outside VEVENT and accepts LF line endings', () => {
+    const text = calendar([
+      'DTSTART;VALUE=DATE:20260525',
+      'SUMMARY:Memorial Day',
+    ]).replace(/\r\n/g, '\n');
+    const events = parseICalEvents(
+      text.replace('VERSION:2.0', 'VERSION:2.0\nSUMMARY:Calendar name'),
+    );
+    assert.deepEqual(
+      events.map((e) => e.summary),
+      ['Memorial Day'],
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+import express from 'express';
+
+import { globalErrorHandler } from '../src/middleware/errorHandler.js';
+import { httpMetrics } from '../src/middleware/metrics.js';
+import { NotFoundError } from '../src/utils/AppError.js';
+import { renderMetrics } from '../src/utils/metrics.js';
+
+const requestsLine = (route: string, status: string) =>
+  renderMetrics()
+    .split('\n')
+    .find((line) => line.startsWith(`parkit_http_requests_total{method="GET",route="${route}",status="${status}"}`));
+
+describe('httpMetrics', () => {
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    const tickets = express.Router();
+    tickets.get('/:ticketId', (req, res, next) => {
+      if (req.params.ticketId === 'missing') return next(new NotFoundError('Ticket not found'));
+      return res.json({ ticketId: req.params.ticketId });
+    });
+    tickets.get('/', (_req, res) => {
+      res.json([]);
+    });
+    const protectedRoutes = express.Router();
+    protectedRoutes.use('/tickets', tickets);
+
+    const app = express();
+    app.use(httpMetrics);
+    app.use(protectedRoutes);
+    app.use(globalErrorHandler);
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const get = async (path: string) => {
+    const res = await fetch(`${baseUrl}${path}`);
+    await res.text();
+    // `finish` fires after the body is flushed; let the listener run.
+    await new Promise((resolve) => setImmediate(resolve));
+    return res.status;
+  };
+
+  it('labels a matched route with its full mount path', async () => {
+    assert.equal(await get('/tickets/A123'), 200);
+    assert.ok(requestsLine('/tickets/:ticketId', '200'));
+    assert.equal(await get('/tickets'), 200);
+    assert.ok(requestsLine('/tickets', '200'));
+  });
+
+  it('keeps the mount path on responses sent by the error handler', async () => {
+    assert.equal(await get('/tickets/missing'), 404);
+    assert.ok(requestsLine('/tickets/:ticketId', '404'));
+    assert.equal(requestsLine('/:ticketId', '404'), undefined);
+  });
+
+  it('labels requests no route matched as unmatched', async () => {
+    assert.equal(await get('/nowhere'), 404);
+    assert.ok(requestsLine('unmatched', '404'));
+  });
+});
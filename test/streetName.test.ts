@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { normalizeStreetName, parseViolationLocation } from '../src/utils/streetName.js';
+
+describe('parseViolationLocation', () => {
+  it('splits an intersection into street and cross street', () => {
+    assert.deepEqual(parseViolationLocation('200 blk Linden Avenue @ Dryden Rd.'), {
+      street: 'LINDEN AVE',
+      houseNumber: null,
+      blockNumber: 200,
+      crossStreet: 'DRYDEN RD',
+    });
+  });
+
+  it('splits on AND only between two street names', () => {
+    assert.equal(parseViolationLocation('Linden Ave and Dryden Road').crossStreet, 'DRYDEN RD');
+    assert.equal(normalizeStreetName('Arts and Sciences Dr'), 'ARTS AND SCIENCES DR');
+    assert.deepEqual(parseViolationLocation('ARTS AND SCIENCES DR AT COLLEGE AVE'), {
+      street: 'ARTS AND SCIENCES DR',
+      houseNumber: null,
+      blockNumber: null,
+      crossStreet: 'COLLEGE AVE',
+    });
+  });
+});
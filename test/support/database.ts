@@ -0,0 +1,22 @@
+/**
+ * Points Prisma at a throwaway SQLite file. Import it first in a test file, before anything
+ * that loads `src/prisma.ts`; each test file gets its own database, deleted when the process
+ * exits. Tests that query it call `migrateTestDatabase` in their `before` hook.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+const file = path.join(tmpdir(), `parkit-test-${randomUUID()}.db`);
+process.env.DATABASE_URL = `file:${file}`;
+process.on('exit', () => {
+  for (const suffix of ['', '-journal']) rmSync(`${file}${suffix}`, { force: true });
+});
+
+/** Applies every migration (which also seeds the default jurisdiction). */
+export const migrateTestDatabase = (): void => {
+  execFileSync('npx', ['--no-install', 'prisma', 'migrate', 'deploy'], { stdio: 'ignore', env: process.env });
+};
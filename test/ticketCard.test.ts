@@ -0,0 +1,95 @@
+import './support/database.js';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  classifyPortalText,
+  normalizePaymentStatus,
+  parsePortalAmount,
+  parsePortalDate,
+  parsePortalTimestamp,
+} from '../src/portal/ticketCard.js';
+import { TicketMessage, TicketSearchResult } from '../src/tickets/types.js';
+
+describe('parsePortalAmount', () => {
+  it('reads dollars and cents as cents', () => {
+    assert.equal(parsePortalAmount('$45.00'), 4500);
+    assert.equal(parsePortalAmount('$1,045.50'), 104550);
+    assert.equal(parsePortalAmount('$30'), 3000);
+    assert.equal(parsePortalAmount('$12.5'), 1250);
+  });
+
+  it('is null without an amount', () => {
+    assert.equal(parsePortalAmount(null), null);
+    assert.equal(parsePortalAmount(''), null);
+    assert.equal(parsePortalAmount('N/A'), null);
+  });
+});
+
+describe('parsePortalDate', () => {
+  it('converts the portal date to YYYY-MM-DD', () => {
+    assert.equal(parsePortalDate('1/5/2026'), '2026-01-05');
+    assert.equal(parsePortalDate('12/15/2025'), '2025-12-15');
+  });
+
+  it('is null when malformed', () => {
+    assert.equal(parsePortalDate(null), null);
+    assert.equal(parsePortalDate('2026-01-05'), null);
+  });
+});
+
+describe('normalizePaymentStatus', () => {
+  it('maps card labels to payment statuses', () => {
+    assert.equal(normalizePaymentStatus('Open'), 'open');
+    assert.equal(normalizePaymentStatus('Unpaid'), 'open');
+    assert.equal(normalizePaymentStatus('Past Due'), 'past_due');
+    assert.equal(normalizePaymentStatus('Paid'), 'paid');
+    assert.equal(normalizePaymentStatus('Dismissed'), 'dismissed');
+    assert.equal(normalizePaymentStatus('Voided'), 'dismissed');
+    assert.equal(normalizePaymentStatus('Closed'), 'closed');
+  });
+
+  it('reads "Not Paid" and "Partially Paid" as open', () => {
+    assert.equal(normalizePaymentStatus('Not Paid'), 'open');
+    assert.equal(normalizePaymentStatus('Partially Paid'), 'open');
+  });
+
+  it('keeps unknown labels lowercased and is null without one', () => {
+    assert.equal(normalizePaymentStatus('In Collections'), 'in collections');
+    assert.equal(normalizePaymentStatus('  '), null);
+    assert.equal(normalizePaymentStatus(null), null);
+  });
+});
+
+describe('parsePortalTimestamp', () => {
+  it('reads the card time in the jurisdiction zone', () => {
+    assert.equal(
+      parsePortalTimestamp('12/15/2025 10:38 AM', 'America/New_York').toISOString(),
+      '2025-12-15T15:38:00.000Z',
+    );
+    assert.equal(
+      parsePortalTimestamp('07/01/2026 12:05 PM', 'America/New_York').toISOString(),
+      '2026-07-01T16:05:00.000Z',
+    );
+    assert.equal(
+      parsePortalTimestamp('07/01/2026 12:05 AM', 'America/New_York').toISOString(),
+      '2026-07-01T04:05:00.000Z',
+    );
+  });
+});
+
+describe('classifyPortalText', () => {
+  it('recognizes the portal status messages', () => {
+    assert.equal(classifyPortalText(`x ${TicketMessage.NO_RESULTS} y`), TicketSearchResult.NO_RESULTS);
+    assert.equal(classifyPortalText(`x ${TicketMessage.CLOSED} y`), TicketSearchResult.CLOSED);
+    assert.equal(
+      classifyPortalText(`x ${TicketMessage.FAILED_CHALLENGE} y`),
+      TicketSearchResult.FAILED_CHALLENGE,
+    );
+  });
+
+  it('is null for a page that should hold a ticket card', () => {
+    assert.equal(classifyPortalText('Ticket 100000064741 Parking'), null);
+  });
+});
@@ -0,0 +1,53 @@
+import './support/database.js';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { geohashCells } from '../src/services/ticketGeoService.js';
+import { encodeGeohash, geohashBounds } from '../src/utils/geo.js';
+
+describe('encodeGeohash', () => {
+  it('matches the reference encoding', () => {
+    assert.equal(encodeGeohash({ lat: 57.64911, lng: 10.40744 }, 11), 'u4pruydqqvj');
+  });
+
+  it('yields a cell that contains the point', () => {
+    const point = { lat: 42.4440, lng: -76.5019 };
+    const bounds = geohashBounds(encodeGeohash(point, 7));
+    assert.ok(bounds.minLat <= point.lat && point.lat <= bounds.maxLat);
+    assert.ok(bounds.minLng <= point.lng && point.lng <= bounds.maxLng);
+  });
+});
+
+describe('geohashCells', () => {
+  const linden = { lat: 42.44237, lng: -76.48622 };
+  const nextDoor = { lat: 42.44241, lng: -76.48611 };
+  const downtown = { lat: 42.43940, lng: -76.49660 };
+
+  it('counts points per cell, busiest first', () => {
+    const cells = geohashCells([downtown, linden, nextDoor], 7);
+    assert.deepEqual(
+      cells.map(({ geohash, count }) => ({ geohash, count })),
+      [
+        { geohash: encodeGeohash(linden, 7), count: 2 },
+        { geohash: encodeGeohash(downtown, 7), count: 1 },
+      ],
+    );
+  });
+
+  it('centers each cell inside its bounds', () => {
+    const [cell] = geohashCells([linden], 6);
+    assert.ok(cell);
+    assert.equal(cell.center.lat, (cell.bounds.minLat + cell.bounds.maxLat) / 2);
+    assert.equal(cell.center.lng, (cell.bounds.minLng + cell.bounds.maxLng) / 2);
+  });
+
+  it('merges more points into coarser cells', () => {
+    assert.equal(geohashCells([downtown, linden], 7).length, 2);
+    assert.equal(geohashCells([downtown, linden], 5).length, 1);
+  });
+
+  it('is empty without points', () => {
+    assert.deepEqual(geohashCells([], 6), []);
+  });
+});
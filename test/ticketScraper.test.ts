@@ -0,0 +1,167 @@
+import { migrateTestDatabase } from './support/database.js';
+
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { createFixturePortal } from '../src/portal/fixturePortal.js';
+import { startMockPortalServer, type MockPortalServer } from '../src/portal/mockPortalServer.js';
+import type { TicketPortal } from '../src/portal/ticketPortal.js';
+import { prisma } from '../src/prisma.js';
+import { createLane, loadLane, persistLane, type LaneState } from '../src/worker/laneManager.js';
+import { markScraperStarted } from '../src/worker/scraperControl.js';
+import { pollLane, runDiscovery } from '../src/worker/ticketScraper.js';
+
+const JURISDICTION = 'ithaca';
+// Old enough that saving a ticket skips the push alerts and approach warnings.
+const ISSUED_AT = '01/15/2026 09:30 AM';
+
+/** A persisted lane whose cursor sits at the start of the block. */
+const laneAt = async (blockStartId: string): Promise<LaneState> => {
+  const lane = createLane(JURISDICTION, blockStartId, blockStartId);
+  await persistLane(lane);
+  return lane;
+};
+
+const reloaded = async (lane: LaneState): Promise<LaneState> => {
+  const row = await loadLane(JURISDICTION, lane.blockStartId);
+  assert.ok(row);
+  return row;
+};
+
+describe('ticket scraper against the fixture portal', () => {
+  let server: MockPortalServer;
+  let portal: TicketPortal;
+
+  before(async () => {
+    migrateTestDatabase();
+    await markScraperStarted(JURISDICTION);
+    server = await startMockPortalServer(
+      {
+        '100000064501': {
+          kind: 'accessible',
+          issuedAt: ISSUED_AT,
+          licensePlateNumber: 'ABC1234',
+          licensePlateState: 'NY',
+          violationCode: '12',
+          violationDescription: 'EXPIRED METER',
+          fineAmount: '$30.00',
+          status: 'Not Paid',
+        },
+        '100000065001': { kind: 'closed' },
+        // 100000065501 and its neighbours have no fixture: no results.
+        // 100000066001 misses, its first neighbour is issued.
+        '100000066002': { kind: 'accessible', issuedAt: ISSUED_AT, licensePlateNumber: 'DEF5678' },
+        '100000066501': { kind: 'accessible', issuedAt: ISSUED_AT, licensePlateNumber: 'XYZ9876', captchaFirst: true },
+        // Discovery from the lane at 100000070001 finds the next block on its second probe.
+        '100000070502': { kind: 'accessible', issuedAt: ISSUED_AT, licensePlateNumber: 'JKL5555' },
+      },
+      0,
+    );
+    portal = createFixturePortal({
+      baseUrl: server.url,
+      origin: { jurisdictionId: JURISDICTION, timeZone: 'America/New_York' },
+    });
+  });
+
+  after(async () => {
+    await server?.close();
+    await prisma.$disconnect();
+  });
+
+  describe('pollLane', () => {
+    it('saves an accessible ticket and advances the cursor past it', async () => {
+      const lane = await laneAt('100000064501');
+      await pollLane(lane, portal);
+
+      const ticket = await prisma.ticket.findUnique({ where: { ticketId: '100000064501' } });
+      assert.ok(ticket);
+      assert.equal(ticket.jurisdictionId, JURISDICTION);
+      assert.equal(ticket.licensePlateNumber, 'ABC1234');
+      assert.equal(ticket.fineCents, 3000);
+      assert.equal(ticket.paymentStatus, 'open');
+
+      const stored = await reloaded(lane);
+      assert.equal(stored.nextCursorId, '100000064502');
+      assert.equal(stored.lastFoundId, '100000064501');
+      assert.equal(stored.missStreak, 0);
+    });
+
+    it('advances past a closed ticket without saving it', async () => {
+      const lane = await laneAt('100000065001');
+      await pollLane(lane, portal);
+
+      assert.equal(await prisma.ticket.count({ where: { ticketId: '100000065001' } }), 0);
+      const stored = await reloaded(lane);
+      assert.equal(stored.nextCursorId, '100000065002');
+      assert.equal(stored.lastFoundId, null);
+      assert.equal(stored.missStreak, 0);
+    });
+
+    it('counts a miss and keeps the cursor when the ID and its neighbours have no results', async () => {
+      const lane = await laneAt('100000065501');
+      // A lane that has never found a ticket retires on its first miss.
+      lane.lastFoundAt = new Date();
+      await pollLane(lane, portal);
+
+      const stored = await reloaded(lane);
+      assert.equal(stored.nextCursorId, '100000065501');
+      assert.equal(stored.missStreak, 1);
+      assert.equal(stored.cadenceLevel, 1);
+      assert.equal(stored.status, 'active');
+
+      const probes = await prisma.scraperProbe.findMany({
+        where: { laneBlockStartId: '100000065501' },
+        orderBy: { id: 'asc' },
+      });
+      assert.deepEqual(
+        probes.map((p) => [p.ticketId, p.kind, p.outcome]),
+        [
+          ['100000065501', 'poll', 'no_results'],
+          ['100000065502', 'neighbor', 'no_results'],
+          ['100000065503', 'neighbor', 'no_results'],
+        ],
+      );
+    });
+
+    it('takes a neighbour hit when the cursor ID has no results', async () => {
+      const lane = await laneAt('100000066001');
+      await pollLane(lane, portal);
+
+      assert.ok(await prisma.ticket.findUnique({ where: { ticketId: '100000066002' } }));
+      const stored = await reloaded(lane);
+      assert.equal(stored.nextCursorId, '100000066003');
+      assert.equal(stored.lastFoundId, '100000066002');
+      assert.equal(stored.missStreak, 0);
+    });
+
+    it('solves a CAPTCHA and records the solve on the probe', async () => {
+      const lane = await laneAt('100000066501');
+      await pollLane(lane, portal);
+
+      assert.ok(await prisma.ticket.findUnique({ where: { ticketId: '100000066501' } }));
+      assert.equal((await reloaded(lane)).nextCursorId, '100000066502');
+
+      const probe = await prisma.scraperProbe.findFirst({ where: { ticketId: '100000066501' } });
+      assert.ok(probe);
+      assert.equal(probe.outcome, 'accessible');
+      assert.equal(probe.captchaAttempts, 1);
+      assert.equal(probe.captchaSolves, 1);
+      assert.ok(probe.detectLagMs !== null);
+    });
+  });
+
+  describe('runDiscovery', () => {
+    it('opens a lane at the first live block ahead of the frontier', async () => {
+      const frontier = await laneAt('100000070001');
+      const lanes = new Map([[frontier.blockStartId, frontier]]);
+      await runDiscovery(JURISDICTION, lanes, portal);
+
+      const discovered = lanes.get('100000070501');
+      assert.ok(discovered);
+      assert.equal(discovered.nextCursorId, '100000070503');
+      assert.equal(discovered.lastFoundId, '100000070502');
+      assert.ok(await loadLane(JURISDICTION, '100000070501'));
+      assert.ok(await prisma.ticket.findUnique({ where: { ticketId: '100000070502' } }));
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import './support/database.js';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decodeCursor, encodeCursor } from '../src/services/ticketService.js';
+
+const encoded = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('list cursor', () => {
+  it('round-trips the last ticket of a page', () => {
+    const timestamp = new Date('2026-10-19T14:03:00.000Z');
+    assert.deepEqual(decodeCursor(encodeCursor({ timestamp, ticketId: '100000064741' })), {
+      timestamp,
+      ticketId: '100000064741',
+    });
+  });
+
+  it('is URL-safe', () => {
+    const cursor = encodeCursor({ timestamp: new Date('2026-10-19T14:03:00.000Z'), ticketId: '??>>~~' });
+    assert.match(cursor, /^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects anything it did not issue', () => {
+    assert.equal(decodeCursor('not a cursor'), null);
+    assert.equal(decodeCursor(''), null);
+    assert.equal(decodeCursor(encoded({ t: '2026-10-19T14:03:00.000Z' })), null);
+    assert.equal(decodeCursor(encoded({ t: 'yesterday', id: '100000064741' })), null);
+    assert.equal(decodeCursor(encoded({ t: 1, id: '100000064741' })), null);
+    assert.equal(decodeCursor(encoded([1, 2])), null);
+  });
+});
@@ -0,0 +1,28 @@
+import './support/database.js';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { nextStatusCheckAt } from '../src/services/ticketStatusService.js';
+
+const MS_DAY = 24 * 60 * 60 * 1000;
+const issuedAt = new Date('2026-10-01T14:00:00.000Z');
+const daysAfterIssue = (days: number) => new Date(issuedAt.getTime() + days * MS_DAY);
+
+describe('nextStatusCheckAt', () => {
+  it('schedules the first re-check a day after issue', () => {
+    assert.deepEqual(nextStatusCheckAt(issuedAt, issuedAt), daysAfterIssue(1));
+  });
+
+  it('picks the next offset strictly after now', () => {
+    assert.deepEqual(nextStatusCheckAt(issuedAt, daysAfterIssue(1)), daysAfterIssue(3));
+    assert.deepEqual(nextStatusCheckAt(issuedAt, daysAfterIssue(2)), daysAfterIssue(3));
+    assert.deepEqual(nextStatusCheckAt(issuedAt, daysAfterIssue(50)), daysAfterIssue(60));
+  });
+
+  it('stops after the last offset', () => {
+    assert.deepEqual(nextStatusCheckAt(issuedAt, daysAfterIssue(89)), daysAfterIssue(90));
+    assert.equal(nextStatusCheckAt(issuedAt, daysAfterIssue(90)), null);
+    assert.equal(nextStatusCheckAt(issuedAt, daysAfterIssue(400)), null);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { zonedTimeToUtc } from '../src/utils/timezone.js';
+
+const NEW_YORK = 'America/New_York';
+
+const utc = (localDate: string, minuteOfDay: number, timeZone = NEW_YORK) =>
+  zonedTimeToUtc(localDate, minuteOfDay, timeZone).toISOString();
+
+describe('zonedTimeToUtc', () => {
+  it('applies the standard and daylight offsets', () => {
+    assert.equal(utc('2026-01-15', 9 * 60), '2026-01-15T14:00:00.000Z');
+    assert.equal(utc('2026-07-01', 9 * 60), '2026-07-01T13:00:00.000Z');
+    assert.equal(utc('2026-01-15', 9 * 60, 'UTC'), '2026-01-15T09:00:00.000Z');
+  });
+
+  it('switches offset on the spring-forward day', () => {
+    assert.equal(utc('2026-03-08', 0), '2026-03-08T05:00:00.000Z');
+    assert.equal(utc('2026-03-08', 90), '2026-03-08T06:30:00.000Z');
+    assert.equal(utc('2026-03-08', 180), '2026-03-08T07:00:00.000Z');
+  });
+
+  it('resolves a wall time inside the spring-forward gap forward', () => {
+    // 02:30 doesn't exist in New York that day; it reads as 03:30 EDT.
+    assert.equal(utc('2026-03-08', 150), '2026-03-08T07:30:00.000Z');
+    // East of Greenwich too: London skips 01:00–02:00, and 01:30 reads as 02:30 BST.
+    assert.equal(
+      utc('2026-03-29', 90, 'Europe/London'),
+      '2026-03-29T01:30:00.000Z',
+    );
+  });
+
+  it('takes the first occurrence of a repeated fall-back hour', () => {
+    assert.equal(utc('2026-11-01', 60), '2026-11-01T05:00:00.000Z');
+    assert.equal(utc('2026-11-01', 90), '2026-11-01T05:30:00.000Z');
+    assert.equal(utc('2026-11-01', 120), '2026-11-01T07:00:00.000Z');
+    // 01:30 BST, not 01:30 GMT an hour later.
+    assert.equal(
+      utc('2026-10-25', 90, 'Europe/London'),
+      '2026-10-25T00:30:00.000Z',
+    );
+  });
+
+  it('treats minute 1440 as the following midnight across a switch', () => {
+    assert.equal(utc('2026-03-08', 1440), '2026-03-09T04:00:00.000Z');
+    assert.equal(utc('2026-11-01', 1440), '2026-11-02T05:00:00.000Z');
+  });
+});